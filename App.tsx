@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import type { UserProfile, InterviewSession, VoiceSession, UserProject, Achievement, SkillGap, JobPosting, TrackedJob, TrackedJobStatus, QuizSession, ChatSession, ChatMessage } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { UserProfile, InterviewSession, VoiceSession, UserProject, Achievement, SkillGap, JobPosting, TrackedJob, TrackedJobStatus, QuizSession, ChatSession, ChatMessage, GenerationStatus, ProjectSuggestion } from './types';
 import Dashboard from './components/Dashboard';
 import SmartChat from './components/AiMentorChat';
 import ResumeFeedback from './components/ResumeFeedback';
@@ -13,14 +13,42 @@ import ProfileEditor from './components/ProfileEditor';
 import JobFinder from './components/JobFinder';
 import TrendWatcher from './components/TrendWatcher';
 import AiToolbox from './components/AiToolbox';
-import { DashboardIcon, ChatIcon, ResumeIcon, SparklesIcon, InterviewIcon, MicrophoneIcon, MapPinIcon, LogoutIcon, ProjectIcon, UserIcon, BriefcaseIcon, TrendingUpIcon, ToolboxIcon, MenuIcon } from './components/icons';
-import { generateSkillMap, generateRoadmap, generateProjectSuggestions, getIndustryTrends } from './services/geminiService';
+import UsageDashboard from './components/UsageDashboard';
+import AccountSettings from './components/AccountSettings';
+import AiRetryNotice from './components/common/AiRetryNotice';
+import AiBudgetNotice from './components/common/AiBudgetNotice';
+import SyncStatusIndicator from './components/common/SyncStatusIndicator';
+import ProfileConflictDialog from './components/common/ProfileConflictDialog';
+import RemoteUpdateNotice from './components/common/RemoteUpdateNotice';
+import { DashboardIcon, ChatIcon, ResumeIcon, SparklesIcon, InterviewIcon, MicrophoneIcon, MapPinIcon, LogoutIcon, ProjectIcon, UserIcon, BriefcaseIcon, TrendingUpIcon, ToolboxIcon, MenuIcon, ChartBarIcon, CogIcon } from './components/icons';
+import { generateSkillMap, streamRoadmap, streamProjectSuggestions, getIndustryTrends } from './services/geminiService';
+import { invalidateAiCache } from './services/aiCache';
+import type { AiRequestOptions } from './services/aiProvider';
+import { setAiUsageUser, clearAiUsage } from './services/aiUsage';
 import { supabase } from './supabaseClient';
+import { openProfile, queueProfileChanges, flushProfileChanges, countPendingChanges, closeProfile, subscribeToSyncedProfile, watchRemoteChanges, discardLocalProfile } from './services/profileSync';
+import { deleteAccount } from './services/profileStore';
+import { applyRetention, expiredHistoryChanges, DEFAULT_HISTORY_RETENTION } from './services/historyRetention';
+import { createActivityEvent, withActivity } from './services/activityLog';
+import { defaultStreakState } from './services/streaks';
+import { settleXp } from './services/xpLedger';
+import { updateProgress } from './services/profileProgress';
+import { changedFields } from './services/profileMerge';
+import type { ImportMode } from './services/profileExport';
+import { CURRENT_PROFILE_SCHEMA_VERSION } from './services/profileMigrations';
 import { Session } from '@supabase/supabase-js';
-import { checkAndAwardAchievements } from './utils/achievementUtils';
+import { useAbortController } from './utils/useAbortController';
 
 
-type View = 'dashboard' | 'journey' | 'chat' | 'resume' | 'interview' | 'voice' | 'courses' | 'jobs' | 'trends' | 'profile' | 'toolbox';
+type View = 'dashboard' | 'journey' | 'chat' | 'resume' | 'interview' | 'voice' | 'courses' | 'jobs' | 'trends' | 'profile' | 'toolbox' | 'usage' | 'settings';
+type JourneyList = 'roadmap' | 'projects';
+type JourneyItem<K extends JourneyList> = NonNullable<UserProfile[K]>[number];
+
+const toUserProjects = async function* (projects: AsyncIterable<ProjectSuggestion>): AsyncGenerator<UserProject> {
+    for await (const project of projects) {
+        yield { ...project, status: 'Not Started' };
+    }
+};
 
 const App: React.FC = () => {
     const [user, setUser] = useState<UserProfile | null>(null);
@@ -30,13 +58,18 @@ const App: React.FC = () => {
     const [isProfileLoading, setIsProfileLoading] = useState(true);
     const [appError, setAppError] = useState<string | null>(null);
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+    const [generation, setGeneration] = useState<Record<JourneyList, GenerationStatus>>({ roadmap: 'idle', projects: 'idle' });
+    const journeyStream = useAbortController();
+    // The profile as last rendered, for work that outlives the render it started in, like a journey stream.
+    const userRef = useRef<UserProfile | null>(null);
+    useEffect(() => { userRef.current = user; }, [user]);
 
     useEffect(() => {
         const fetchSession = async () => {
             const { data: { session } } = await supabase.auth.getSession();
             setSession(session);
             if(session){
-                await fetchProfile(session.user.id);
+                await loadProfile(session.user.id);
             } else {
                 setIsProfileLoading(false);
             }
@@ -47,7 +80,7 @@ const App: React.FC = () => {
         const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
             setSession(session);
             if (session) {
-                fetchProfile(session.user.id);
+                loadProfile(session.user.id);
             } else {
                 setUser(null);
                 setIsProfileLoading(false);
@@ -56,36 +89,82 @@ const App: React.FC = () => {
 
         return () => subscription.unsubscribe();
     }, []);
+
+    useEffect(() => {
+        setAiUsageUser(session?.user.id ?? null);
+    }, [session]);
+
+    // Picks up changes from other devices or tabs, merged with anything still waiting to be saved here.
+    useEffect(() => subscribeToSyncedProfile(profile => setUser(profile)), []);
+
+    const watchedUserId = user ? session?.user.id : undefined;
+    useEffect(() => {
+        if (!watchedUserId) return;
+        return watchRemoteChanges(watchedUserId);
+    }, [watchedUserId]);
     
-    const fetchProfile = async (userId: string) => {
+    const loadProfile = async (userId: string) => {
         setIsProfileLoading(true);
         setAppError(null);
-        const { data, error } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', userId)
-            .single();
-
-        if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
+        try {
+            // Changes still queued on this device are applied on top of what the database holds.
+            const profile = await openProfile(userId);
+            if (profile) {
+                // Sessions can age out of their retention window, and days can be missed, while the app is closed.
+                // XP is settled too, in case the rewards or level curve changed since the last visit.
+                // A new week gets its quests.
+                const updated = updateProgress({ ...profile, ...expiredHistoryChanges(profile) });
+                const changes = changedFields(profile, updated);
+                setUser(updated);
+                if (Object.keys(changes).length > 0) {
+                    queueProfileChanges({ ...changes, id: userId }).catch(error => console.error('Failed to update the profile after loading it:', error));
+                }
+            }
+        } catch (error: any) {
             console.error('Error fetching profile:', JSON.stringify(error, null, 2));
             setAppError(`Could not load your profile. Please refresh the page. Details: ${error.message}`);
-        } else if (data) {
-            setUser(data);
         }
         setIsProfileLoading(false);
     };
     
     const handleLogout = async () => {
+        journeyStream.abort();
+        if (session) {
+            await flushProfileChanges();
+            const pending = await countPendingChanges(session.user.id);
+            if (pending > 0 && !window.confirm(`${pending} change${pending === 1 ? " hasn't" : "s haven't"} synced yet. They'll stay on this device and sync the next time you sign in here. Log out anyway?`)) {
+                return;
+            }
+        }
         const { error } = await supabase.auth.signOut();
         if (error) {
              console.error("Error logging out:", JSON.stringify(error, null, 2));
              setAppError(`Could not log out. Please refresh the page. Details: ${error.message}`);
         } else {
+            // Cached AI results are derived from the profile, so don't leave them behind for the next user.
+            await invalidateAiCache();
+            if (session) await closeProfile(session.user.id);
             setUser(null);
             setView('dashboard');
         }
     };
 
+    // Deletes the account and every stored row, then everything this device kept for the user. Errors are
+    // left to the caller, which keeps the user on the settings page.
+    const handleDeleteAccount = async () => {
+        if (!session) return;
+        const userId = session.user.id;
+        journeyStream.abort();
+        await deleteAccount(userId);
+        await discardLocalProfile(userId);
+        await invalidateAiCache();
+        clearAiUsage(userId);
+        // The account is already gone, so only the session on this device needs clearing.
+        await supabase.auth.signOut({ scope: 'local' });
+        setUser(null);
+        setView('dashboard');
+    };
+
     const handleOnboardingComplete = useCallback(async (interests: string, resume: string, targetRole: string, githubUrl: string, linkedinUrl:string, age: number, profession: string, educationLevel: string) => {
         if (!session) return;
         setIsLoading(true);
@@ -96,6 +175,7 @@ const App: React.FC = () => {
             // Create a temporary user object to pass to content generation functions
             const tempUser: UserProfile = {
                 id: session.user.id,
+                schemaVersion: CURRENT_PROFILE_SCHEMA_VERSION,
                 name: session.user.user_metadata.full_name || "User",
                 targetRole,
                 age,
@@ -103,7 +183,9 @@ const App: React.FC = () => {
                 educationLevel,
                 xp: 0,
                 level: 1,
-                streak: 1,
+                xpLedger: [],
+                streak: 0,
+                streakState: defaultStreakState(),
                 skills,
                 roadmap: [],
                 projects: [],
@@ -116,28 +198,19 @@ const App: React.FC = () => {
                 voiceMentorHistory: [],
                 quizHistory: [],
                 smartChatHistory: [],
+                historyRetention: DEFAULT_HISTORY_RETENTION,
+                activityLog: [createActivityEvent('profile_created', { targetRole })],
+                quests: [],
             };
 
-            const [roadmap, projects, trends] = await Promise.all([
-                generateRoadmap(tempUser),
-                generateProjectSuggestions(tempUser),
-                getIndustryTrends(targetRole)
-            ]);
-
-            const profileData: UserProfile = {
-                ...tempUser,
-                roadmap,
-                // FIX: Use 'as const' to prevent TypeScript from widening the 'Not Started' literal to a generic 'string' type.
-                projects: (projects || []).map(p => ({ ...p, status: 'Not Started' as const })),
-                trends: trends,
-            };
+            const trends = await getIndustryTrends(targetRole);
+            const profileData: UserProfile = { ...tempUser, trends };
+
+            await queueProfileChanges({ ...profileData, id: session.user.id });
 
-            const { error } = await supabase.from('profiles').upsert(profileData, {
-                onConflict: 'id'
-            });
-            if (error) throw error;
-            
             setUser(profileData);
+            setView('journey');
+            startJourneyStreams(profileData);
         } catch (error: any) {
             console.error("Onboarding failed:", JSON.stringify(error, null, 2));
             const errorMessage = typeof error === 'object' && error !== null && 'message' in error ? String(error.message) : 'An unknown error occurred.';
@@ -147,7 +220,7 @@ const App: React.FC = () => {
         }
     }, [session]);
     
-    const updateUserInDatabase = async (profileData: UserProfile) => {
+    const updateUserInDatabase = async (profileData: Partial<UserProfile>) => {
         // The id is optional in the type, but required for an update.
         if (!profileData.id) {
             const errMsg = "Cannot update profile without a user ID.";
@@ -155,34 +228,74 @@ const App: React.FC = () => {
             setAppError(`Failed to save changes: ${errMsg}`);
             throw new Error(errMsg);
         }
+        // Nothing changed.
+        if (Object.keys(profileData).length === 1) return;
 
-        // FIX: Destructure the id from the rest of the data.
-        // Supabase expects the primary key in the filter (.eq), not the update payload.
-        // Including it in the payload can cause a "Failed to fetch" error.
-        const { id, ...updateData } = profileData;
-
-        const { error } = await supabase
-            .from('profiles')
-            .update(updateData)
-            .eq('id', id);
-        
-        if (error) {
+        try {
+            // Saved on this device straight away and synced in the background; only the fields and list rows
+            // that differ from what is stored are written.
+            await queueProfileChanges({ ...profileData, id: profileData.id });
+        } catch (error: any) {
             console.error("Failed to update profile:", JSON.stringify(error, null, 2));
-            setAppError(`Failed to save your changes. Your data might be out of sync. Please refresh. Details: ${error.message}`);
+            setAppError(`Failed to save your changes on this device. Please refresh. Details: ${error.message}`);
             throw error;
         }
     }
 
+    // Streams newly generated roadmap steps or projects into the profile as they arrive. The current list is
+    // only replaced once the first new item is ready, and whatever arrived is saved even if the stream fails
+    // or is stopped part way.
+    const streamIntoProfile = async <K extends JourneyList>(key: K, profile: UserProfile, items: AsyncIterable<JourneyItem<K>>, signal?: AbortSignal) => {
+        const userId = profile.id;
+        const replaced = profile[key];
+        const received: JourneyItem<K>[] = [];
+        let status: GenerationStatus = 'idle';
+        setGeneration(prev => ({ ...prev, [key]: 'streaming' }));
+        try {
+            for await (const item of items) {
+                received.push(item);
+                setUser(prev => prev && { ...prev, [key]: [...received] });
+            }
+        } catch (error) {
+            if (!signal?.aborted) {
+                console.error(`Streaming ${key} failed after ${received.length} items:`, error);
+                status = 'interrupted';
+            }
+        }
+        setGeneration(prev => ({ ...prev, [key]: status }));
+
+        // Nothing to save if the stream was cancelled because the user signed out.
+        const { data } = await supabase.auth.getSession();
+        const current = userRef.current;
+        if (received.length === 0 || data.session?.user.id !== userId || current?.id !== userId) return;
+        // Saved like any other update to the list that was there before the stream, with the quests, XP and
+        // achievements that follow from it.
+        const before = { ...current, [key]: replaced };
+        const updated = updateProgress(withActivity(before, { ...current, [key]: received }));
+        setUser(updated);
+        try {
+            await updateUserInDatabase({ ...changedFields(before, updated), id: userId });
+        } catch {
+            // updateUserInDatabase has already reported the failure.
+        }
+    };
+
+    // Roadmap and projects stream in after the profile is saved, so they can be watched arriving in My Journey.
+    const startJourneyStreams = (profile: UserProfile) => {
+        if (!profile.id) return;
+        const signal = journeyStream.start();
+        streamIntoProfile('roadmap', profile, streamRoadmap(profile, undefined, { signal }), signal);
+        streamIntoProfile('projects', profile, toUserProjects(streamProjectSuggestions(profile, undefined, { signal })), signal);
+    };
+
     const handleUpdateProfile = async (profileUpdate: Partial<UserProfile>) => {
         if (!user) return;
         
         const oldTargetRole = user.targetRole;
         const newTargetRole = profileUpdate.targetRole;
 
-        // Optimistically update for snappy UI feel, including achievements
-        let optimisticUser = { ...user, ...profileUpdate };
-        const newAchievements = checkAndAwardAchievements(optimisticUser);
-        optimisticUser = { ...optimisticUser, achievements: newAchievements };
+        // Optimistically update for snappy UI feel, including the activity it records, quests, XP, the streak and achievements
+        const optimisticUser = updateProgress(withActivity(user, { ...user, ...profileUpdate }));
 
         setUser(optimisticUser);
         setAppError(null);
@@ -194,26 +307,16 @@ const App: React.FC = () => {
                     return;
                 }
                 setIsLoading(true);
-                const [newRoadmap, newProjects, newTrends] = await Promise.all([
-                    generateRoadmap(optimisticUser),
-                    generateProjectSuggestions(optimisticUser),
-                    getIndustryTrends(newTargetRole)
-                ]);
-                let regeneratedUser = { 
-                    ...optimisticUser, 
-                    roadmap: newRoadmap, 
-                    // FIX: Use 'as const' to prevent TypeScript from widening the 'Not Started' literal to a generic 'string' type.
-                    projects: (newProjects || []).map(p => ({ ...p, status: 'Not Started' as const })),
-                    trends: newTrends
-                };
-                // Re-check achievements after regeneration
-                const finalAchievements = checkAndAwardAchievements(regeneratedUser);
-                regeneratedUser = { ...regeneratedUser, achievements: finalAchievements };
-
-                await updateUserInDatabase(regeneratedUser);
+                const newTrends = await getIndustryTrends(newTargetRole);
+                const regeneratedUser = { ...optimisticUser, trends: newTrends };
+
+                // Only what changed is queued, so it merges with changes made elsewhere in the meantime.
+                await updateUserInDatabase({ ...changedFields(user, regeneratedUser), id: user.id });
                 setUser(regeneratedUser); // Set final state
+                // The old roadmap and projects stay until replacements start arriving.
+                startJourneyStreams(regeneratedUser);
             } else {
-                 await updateUserInDatabase(optimisticUser);
+                 await updateUserInDatabase({ ...changedFields(user, optimisticUser), id: user.id });
                  // User is already set optimistically
             }
         } catch(error) {
@@ -223,96 +326,83 @@ const App: React.FC = () => {
         }
     };
 
-    const handleRoadmapToggle = (index: number) => {
+    const handleImportProfile = async (profile: UserProfile, mode: ImportMode) => {
+        if (!user) return;
+        let imported = { ...profile, activityLog: [...profile.activityLog, createActivityEvent('profile_imported', { mode })] };
+        imported = { ...imported, ...settleXp(imported) };
+        setUser(imported);
+        setAppError(null);
+        try {
+            await updateUserInDatabase({ ...changedFields(user, imported), id: user.id });
+        } catch (error) {
+            setUser(user);
+            throw error;
+        }
+    };
+
+    const handleRoadmapToggle = (stepId: string) => {
         if(!user) return;
         const currentUser = user;
-        const newRoadmap = [...(currentUser.roadmap || [])];
-        const item = newRoadmap[index];
+        const item = currentUser.roadmap.find(step => step.id === stepId);
+        if (!item) return;
         const wasCompleted = item.completed;
-        item.completed = !item.completed;
-        
-        const xpChange = wasCompleted ? -150 : 150;
-        const newXp = Math.max(0, currentUser.xp + xpChange);
-        const newLevel = Math.floor(newXp / 500) + 1;
-        
-        handleUpdateProfile({ roadmap: newRoadmap, xp: newXp, level: newLevel });
+        const newRoadmap = currentUser.roadmap.map(step => step.id === stepId ? { ...step, completed: !wasCompleted } : step);
+        // XP for the step is settled against the ledger as part of the update.
+        handleUpdateProfile({ roadmap: newRoadmap });
     };
 
     const handleUpdateProject = (updatedProject: UserProject) => {
         if(!user) return;
         const currentUser = user;
-        const newProjects = (currentUser.projects || []).map(p => p.title === updatedProject.title ? updatedProject : p);
-        let xpChange = 0;
-        
-        const oldProject = (currentUser.projects || []).find(p => p.title === updatedProject.title);
-        if(oldProject?.status !== 'Completed' && updatedProject.status === 'Completed') {
-             xpChange = updatedProject.xp;
-        } else if (oldProject?.status === 'Completed' && updatedProject.status !== 'Completed') {
-            xpChange = -updatedProject.xp;
-        }
-
-        const newXp = Math.max(0, currentUser.xp + xpChange);
-        const newLevel = Math.floor(newXp / 500) + 1;
-        handleUpdateProfile({ projects: newProjects, xp: newXp, level: newLevel });
+        const newProjects = currentUser.projects.map(p => p.id === updatedProject.id ? updatedProject : p);
+        handleUpdateProfile({ projects: newProjects });
     };
 
-    const handleRegenerateRoadmap = async (prompt: string) => {
-        if (!user) return;
-        setIsLoading(true);
-        const newRoadmap = await generateRoadmap(user, prompt);
-        await handleUpdateProfile({ roadmap: newRoadmap });
-        setIsLoading(false);
+    const handleRegenerateRoadmap = async (prompt: string, options?: AiRequestOptions) => {
+        if (!user?.id) return;
+        await streamIntoProfile('roadmap', user, streamRoadmap(user, prompt, options), options?.signal);
     };
 
-    const handleRegenerateProjects = async (prompt: string) => {
-        if (!user) return;
-        setIsLoading(true);
-        const newProjects = await generateProjectSuggestions(user, prompt);
-        // FIX: Use 'as const' to prevent TypeScript from widening the 'Not Started' literal to a generic 'string' type.
-        await handleUpdateProfile({ projects: (newProjects || []).map(p => ({ ...p, status: 'Not Started' as const })) });
-        setIsLoading(false);
+    const handleRegenerateProjects = async (prompt: string, options?: AiRequestOptions) => {
+        if (!user?.id) return;
+        await streamIntoProfile('projects', user, toUserProjects(streamProjectSuggestions(user, prompt, options)), options?.signal);
     };
 
     const handleSaveInterview = (sessionData: InterviewSession) => {
         if(!user) return;
-        handleUpdateProfile({ interviewHistory: [sessionData, ...(user.interviewHistory || [])] });
+        handleUpdateProfile({ interviewHistory: applyRetention([sessionData, ...user.interviewHistory], user.historyRetention.interviewHistory) });
     };
     
     const handleSaveQuiz = (sessionData: QuizSession) => {
         if(!user) return;
-        handleUpdateProfile({ quizHistory: [sessionData, ...(user.quizHistory || [])] });
+        handleUpdateProfile({ quizHistory: applyRetention([sessionData, ...user.quizHistory], user.historyRetention.quizHistory) });
     };
 
     const handleSaveVoiceSession = (sessionData: VoiceSession) => {
         if(!user) return;
-        handleUpdateProfile({ voiceMentorHistory: [sessionData, ...(user.voiceMentorHistory || [])] });
+        handleUpdateProfile({ voiceMentorHistory: applyRetention([sessionData, ...user.voiceMentorHistory], user.historyRetention.voiceMentorHistory) });
     };
 
     const handleSaveSmartChatHistory = (session: ChatSession) => {
         if(!user) return;
-        const updatedHistory = [...(user.smartChatHistory || []), session];
-        // Keep only the last 20 sessions to prevent data bloat
-        if (updatedHistory.length > 20) {
-            updatedHistory.shift();
-        }
-        handleUpdateProfile({ smartChatHistory: updatedHistory });
+        handleUpdateProfile({ smartChatHistory: applyRetention([...user.smartChatHistory, session], user.historyRetention.smartChatHistory) });
     };
 
     const handleTrackJob = (jobToTrack: JobPosting) => {
         if (!user) return;
-        const currentTrackedJobs = user.trackedJobs || [];
+        const currentTrackedJobs = user.trackedJobs;
         if (currentTrackedJobs.some(j => j.url === jobToTrack.url)) {
             alert("This job is already on your board.");
             return;
         }
-        const newTrackedJob: TrackedJob = { ...jobToTrack, status: 'Applied' };
+        const newTrackedJob: TrackedJob = { ...jobToTrack, id: crypto.randomUUID(), status: 'Applied' };
         handleUpdateProfile({ trackedJobs: [...currentTrackedJobs, newTrackedJob] });
     };
 
-    const handleUpdateTrackedJobStatus = (jobUrl: string, newStatus: TrackedJobStatus) => {
+    const handleUpdateTrackedJobStatus = (jobId: string, newStatus: TrackedJobStatus) => {
         if (!user) return;
-        const updatedJobs = (user.trackedJobs || []).map(job => 
-            job.url === jobUrl ? { ...job, status: newStatus } : job
+        const updatedJobs = user.trackedJobs.map(job => 
+            job.id === jobId ? { ...job, status: newStatus } : job
         );
         handleUpdateProfile({ trackedJobs: updatedJobs });
     };
@@ -347,21 +437,28 @@ const App: React.FC = () => {
     }
 
     if (!user || !user.targetRole) { // Check if onboarding is complete
-        return <Onboarding onComplete={handleOnboardingComplete} isLoading={isLoading} />;
+        return (
+            <>
+                <Onboarding onComplete={handleOnboardingComplete} isLoading={isLoading} />
+                <AiRetryNotice />
+            </>
+        );
     }
 
     const views: Record<View, React.ReactNode> = {
-        dashboard: <Dashboard user={user} />,
-        journey: <MyJourney user={user} onRoadmapToggle={handleRoadmapToggle} onUpdateProject={handleUpdateProject} onRegenerateRoadmap={handleRegenerateRoadmap} onRegenerateProjects={handleRegenerateProjects} onTrackJob={handleTrackJob} />,
+        dashboard: <Dashboard user={user} onUpdateProfile={handleUpdateProfile} />,
+        journey: <MyJourney user={user} onRoadmapToggle={handleRoadmapToggle} onUpdateProject={handleUpdateProject} onRegenerateRoadmap={handleRegenerateRoadmap} onRegenerateProjects={handleRegenerateProjects} onTrackJob={handleTrackJob} generation={generation} />,
         chat: <SmartChat user={user} onSaveHistory={handleSaveSmartChatHistory} />,
         resume: <ResumeFeedback user={user} />,
         interview: <InterviewCoach user={user} onSaveInterview={handleSaveInterview} onSaveQuiz={handleSaveQuiz} />,
         voice: <VoiceMentor user={user} onSaveSession={handleSaveVoiceSession} />,
         courses: <CourseFinder />,
         jobs: <JobFinder user={user} onTrackJob={handleTrackJob} onUpdateTrackedJobStatus={handleUpdateTrackedJobStatus} />,
-        trends: <TrendWatcher user={user} onUpdateTrends={async () => handleUpdateProfile({ trends: await getIndustryTrends(user.targetRole) })} />,
-        profile: <ProfileEditor user={user} onUpdateProfile={handleUpdateProfile} />,
-        toolbox: <AiToolbox user={user} />
+        trends: <TrendWatcher user={user} onUpdateTrends={async () => handleUpdateProfile({ trends: await getIndustryTrends(user.targetRole, { refresh: true }) })} />,
+        profile: <ProfileEditor user={user} onUpdateProfile={handleUpdateProfile} onImportProfile={handleImportProfile} />,
+        toolbox: <AiToolbox user={user} />,
+        usage: <UsageDashboard />,
+        settings: <AccountSettings user={user} onUpdateProfile={handleUpdateProfile} onDeleteAccount={handleDeleteAccount} />
     }
     
     const MobileMenu: React.FC<{
@@ -393,8 +490,11 @@ const App: React.FC = () => {
                         <NavItem icon={<TrendingUpIcon />} label="Trend Watcher" active={currentView === 'trends'} onClick={() => onNavigate('trends')} />
                     </div>
                      <div className="mt-auto flex flex-col gap-2 pt-4 border-t border-slate-800">
+                        <NavItem icon={<ChartBarIcon />} label="AI Usage" active={currentView === 'usage'} onClick={() => onNavigate('usage')} />
                         <NavItem icon={<UserIcon />} label="Profile" active={currentView === 'profile'} onClick={() => onNavigate('profile')} />
+                        <NavItem icon={<CogIcon />} label="Settings" active={currentView === 'settings'} onClick={() => onNavigate('settings')} />
                         <NavItem icon={<LogoutIcon />} label="Logout" active={false} onClick={onLogout} />
+                        <SyncStatusIndicator />
                     </div>
                 </div>
             </div>
@@ -421,8 +521,11 @@ const App: React.FC = () => {
                     <NavItem icon={<TrendingUpIcon />} label="Trend Watcher" active={view === 'trends'} onClick={() => setView('trends')} />
                 </div>
                  <div className="mt-auto flex flex-col gap-2">
+                    <NavItem icon={<ChartBarIcon />} label="AI Usage" active={view === 'usage'} onClick={() => setView('usage')} />
                     <NavItem icon={<UserIcon />} label="Profile" active={view === 'profile'} onClick={() => setView('profile')} />
+                    <NavItem icon={<CogIcon />} label="Settings" active={view === 'settings'} onClick={() => setView('settings')} />
                     <NavItem icon={<LogoutIcon />} label="Logout" active={false} onClick={handleLogout} />
+                    <SyncStatusIndicator />
                 </div>
             </nav>
             <main className="flex-1 overflow-y-auto h-screen relative">
@@ -453,6 +556,10 @@ const App: React.FC = () => {
                     }}
                 />
             )}
+            <AiRetryNotice />
+            <AiBudgetNotice onViewUsage={() => setView('usage')} />
+            <ProfileConflictDialog />
+            <RemoteUpdateNotice />
         </div>
     );
 };
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import type { UserProfile, HistoryList, HistoryRetention, StreakState } from '../types';
+import Card from './common/Card';
+import { CogIcon, TrashIcon } from './icons';
+import { HISTORY_LISTS, expiredHistoryChanges } from '../services/historyRetention';
+import { MAX_STREAK_FREEZES, deviceTimeZone } from '../services/streaks';
+
+interface AccountSettingsProps {
+    user: UserProfile;
+    onUpdateProfile: (profileUpdate: Partial<UserProfile>) => Promise<void>;
+    onDeleteAccount: () => Promise<void>;
+}
+
+const HISTORY_NAMES: Record<HistoryList, string> = {
+    smartChatHistory: 'Smart Chat conversations',
+    voiceMentorHistory: 'Voice Mentor transcripts',
+    interviewHistory: 'Interview practice sessions',
+    quizHistory: 'Quiz results',
+};
+
+const SESSION_LIMITS = [null, 10, 20, 50, 100];
+const AGE_LIMITS = [null, 30, 90, 180, 365];
+const DELETE_CONFIRMATION = 'DELETE';
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+const toOption = (value: number | null) => (value === null ? '' : String(value));
+const fromOption = (value: string) => (value === '' ? null : Number(value));
+
+const AccountSettings: React.FC<AccountSettingsProps> = ({ user, onUpdateProfile, onDeleteAccount }) => {
+    const [retention, setRetention] = useState<Record<HistoryList, HistoryRetention>>(user.historyRetention);
+    const [isSaving, setIsSaving] = useState(false);
+    const [message, setMessage] = useState('');
+    const [deleteInput, setDeleteInput] = useState('');
+    const [isDeleting, setIsDeleting] = useState(false);
+    const [deleteError, setDeleteError] = useState('');
+
+    const showMessage = (text: string) => {
+        setMessage(text);
+        setTimeout(() => setMessage(''), 5000);
+    };
+
+    const setPolicy = (list: HistoryList, change: Partial<HistoryRetention>) => {
+        setRetention(current => ({ ...current, [list]: { ...current[list], ...change } }));
+    };
+
+    // Sessions the edited policies would delete right away.
+    const expired = expiredHistoryChanges(user, retention);
+    const expiredCount = HISTORY_LISTS.reduce((sum, list) => sum + (expired[list] ? user[list].length - expired[list]!.length : 0), 0);
+    const hasChanges = JSON.stringify(retention) !== JSON.stringify(user.historyRetention);
+
+    const handleSaveRetention = async () => {
+        if (expiredCount > 0 && !window.confirm(`${expiredCount} saved session${expiredCount === 1 ? '' : 's'} fall outside the new limits and will be deleted now. Continue?`)) {
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await onUpdateProfile({ historyRetention: retention, ...expired });
+            showMessage('Retention settings saved.');
+        } catch (error) {
+            console.error('Failed to save retention settings:', error);
+            showMessage('Error: Could not save retention settings.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // The streak is counted again with the new settings as part of the update.
+    const handleStreakChange = async (change: Partial<StreakState>) => {
+        try {
+            await onUpdateProfile({ streakState: { ...user.streakState, ...change } });
+            showMessage('Streak settings saved.');
+        } catch (error) {
+            console.error('Failed to save streak settings:', error);
+            showMessage('Error: Could not save streak settings.');
+        }
+    };
+
+    const handlePurge = async (list: HistoryList) => {
+        if (!window.confirm(`Delete all ${user[list].length} ${HISTORY_NAMES[list].toLowerCase()}? This cannot be undone.`)) return;
+        try {
+            await onUpdateProfile({ [list]: [] });
+            showMessage(`${HISTORY_NAMES[list]} deleted.`);
+        } catch (error) {
+            console.error(`Failed to delete ${list}:`, error);
+            showMessage('Error: Could not delete the history.');
+        }
+    };
+
+    const handleDeleteAccount = async () => {
+        setIsDeleting(true);
+        setDeleteError('');
+        try {
+            await onDeleteAccount();
+        } catch (error: any) {
+            console.error('Failed to delete account:', error);
+            setDeleteError(`Could not delete your account. Please try again. Details: ${error.message}`);
+            setIsDeleting(false);
+        }
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto p-4 sm:p-8 space-y-8">
+            <header className="text-center">
+                <h1 className="text-3xl font-bold flex items-center justify-center gap-3"><CogIcon /> Settings</h1>
+                <p className="text-slate-400 mt-1">Decide how long your history is kept, or delete it and your account.</p>
+            </header>
+
+            <Card>
+                <h2 className="text-xl font-bold text-slate-100 mb-2">History Retention</h2>
+                <p className="text-sm text-slate-400 mb-4">Older sessions are deleted automatically once they fall outside these limits.</p>
+                <div className="space-y-4">
+                    {HISTORY_LISTS.map(list => (
+                        <div key={list} className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] items-center gap-2 p-3 bg-slate-900/50 rounded-lg">
+                            <div>
+                                <p className="font-medium text-slate-200">{HISTORY_NAMES[list]}</p>
+                                <p className="text-xs text-slate-500">{user[list].length} saved</p>
+                            </div>
+                            <select
+                                aria-label={`${HISTORY_NAMES[list]}: how many to keep`}
+                                value={toOption(retention[list].maxSessions)}
+                                onChange={e => setPolicy(list, { maxSessions: fromOption(e.target.value) })}
+                                className="bg-slate-700 border-slate-600 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-teal-500 focus:outline-none"
+                            >
+                                {SESSION_LIMITS.map(limit => <option key={toOption(limit)} value={toOption(limit)}>{limit === null ? 'Keep all' : `Keep last ${limit}`}</option>)}
+                            </select>
+                            <select
+                                aria-label={`${HISTORY_NAMES[list]}: how long to keep`}
+                                value={toOption(retention[list].maxAgeDays)}
+                                onChange={e => setPolicy(list, { maxAgeDays: fromOption(e.target.value) })}
+                                className="bg-slate-700 border-slate-600 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-teal-500 focus:outline-none"
+                            >
+                                {AGE_LIMITS.map(days => <option key={toOption(days)} value={toOption(days)}>{days === null ? 'Forever' : `For ${days} days`}</option>)}
+                            </select>
+                            <button
+                                type="button"
+                                onClick={() => handlePurge(list)}
+                                disabled={user[list].length === 0}
+                                title={`Delete all ${HISTORY_NAMES[list].toLowerCase()}`}
+                                className="p-2 text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400"
+                            >
+                                <TrashIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <div className="mt-4 flex items-center justify-end gap-4">
+                    {expiredCount > 0 && <p className="text-sm text-amber-400">Saving deletes {expiredCount} older session{expiredCount === 1 ? '' : 's'}.</p>}
+                    <button onClick={handleSaveRetention} disabled={!hasChanges || isSaving} className="px-5 py-2 font-semibold bg-teal-600 hover:bg-teal-500 disabled:opacity-50 rounded-lg transition-colors">
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+                {message && <p className={`text-sm mt-3 ${message.startsWith('Error') ? 'text-red-400' : 'text-green-400'}`}>{message}</p>}
+            </Card>
+
+            <Card>
+                <h2 className="text-xl font-bold text-slate-100 mb-2">Streak</h2>
+                <p className="text-sm text-slate-400 mb-4">
+                    A day counts towards your streak when you complete a roadmap step, take a quiz, practise an interview, or save a chat or voice session. Days end at midnight in your time zone.
+                </p>
+                <div className="space-y-4">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 bg-slate-900/50 rounded-lg">
+                        <label htmlFor="streak-time-zone" className="font-medium text-slate-200">Time zone</label>
+                        <div className="flex items-center gap-2">
+                            {user.streakState.timeZone !== deviceTimeZone() && (
+                                <button type="button" onClick={() => handleStreakChange({ timeZone: deviceTimeZone() })} className="text-sm text-teal-400 hover:text-teal-300">
+                                    Use this device's ({deviceTimeZone()})
+                                </button>
+                            )}
+                            <select
+                                id="streak-time-zone"
+                                value={user.streakState.timeZone}
+                                onChange={e => handleStreakChange({ timeZone: e.target.value })}
+                                className="bg-slate-700 border-slate-600 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-teal-500 focus:outline-none"
+                            >
+                                {!TIME_ZONES.includes(user.streakState.timeZone) && <option value={user.streakState.timeZone}>{user.streakState.timeZone}</option>}
+                                {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <label className="flex items-start gap-3 p-3 bg-slate-900/50 rounded-lg cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={user.streakState.freezesEnabled}
+                            onChange={e => handleStreakChange({ freezesEnabled: e.target.checked })}
+                            className="mt-1 accent-teal-500"
+                        />
+                        <span>
+                            <span className="block font-medium text-slate-200">Use streak freezes</span>
+                            <span className="block text-xs text-slate-500">
+                                Every 7 days of streak earns a freeze, up to {MAX_STREAK_FREEZES}. Freezes are used automatically to cover missed days. You have {user.streakState.freezesAvailable}.
+                            </span>
+                        </span>
+                    </label>
+                </div>
+            </Card>
+
+            <Card className="border-red-500/40">
+                <h2 className="text-xl font-bold text-red-400 mb-2">Delete Account</h2>
+                <p className="text-sm text-slate-400">
+                    Permanently deletes your account, profile, roadmap, projects, tracked jobs and every saved session, and removes what this device has stored for you. Export your data from the Profile page first if you want to keep a copy.
+                </p>
+                <label htmlFor="delete-confirmation" className="block text-sm text-slate-300 mt-4 mb-1">Type {DELETE_CONFIRMATION} to confirm</label>
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <input
+                        id="delete-confirmation"
+                        type="text"
+                        value={deleteInput}
+                        onChange={e => setDeleteInput(e.target.value)}
+                        className="flex-grow bg-slate-900/70 border border-slate-700 rounded-md p-2.5 text-sm focus:ring-2 focus:ring-red-500 focus:outline-none"
+                    />
+                    <button
+                        onClick={handleDeleteAccount}
+                        disabled={deleteInput !== DELETE_CONFIRMATION || isDeleting}
+                        className="px-5 py-2 font-semibold bg-red-600 hover:bg-red-500 disabled:opacity-50 rounded-lg transition-colors"
+                    >
+                        {isDeleting ? 'Deleting...' : 'Delete my account'}
+                    </button>
+                </div>
+                {deleteError && <p className="text-red-400 text-sm mt-3">{deleteError}</p>}
+            </Card>
+        </div>
+    );
+};
+
+export default AccountSettings;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import type { ActivityEvent } from '../types';
+import Card from './common/Card';
+import { HistoryIcon } from './icons';
+import { ACTIVITY_CATEGORIES, activityCategory, describeActivity } from '../services/activityLog';
+import type { ActivityCategory } from '../services/activityLog';
+
+const PAGE_SIZE = 30;
+
+const CATEGORY_COLORS = Object.fromEntries(ACTIVITY_CATEGORIES.map(category => [category.id, category.color])) as Record<ActivityCategory, string>;
+
+// The activity log, newest first and grouped by day, with a filter per category.
+const ActivityTimeline: React.FC<{ log: ActivityEvent[] }> = ({ log }) => {
+    const [filter, setFilter] = useState<ActivityCategory | 'all'>('all');
+    const [shown, setShown] = useState(PAGE_SIZE);
+
+    const events = log
+        .filter(event => filter === 'all' || activityCategory(event) === filter)
+        .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+    const visible = events.slice(0, shown);
+
+    const days: { day: string; events: ActivityEvent[] }[] = [];
+    for (const event of visible) {
+        const day = new Date(event.occurredAt).toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+        if (days[days.length - 1]?.day !== day) days.push({ day, events: [] });
+        days[days.length - 1].events.push(event);
+    }
+
+    const chip = (id: ActivityCategory | 'all', label: string) => (
+        <button
+            key={id}
+            onClick={() => { setFilter(id); setShown(PAGE_SIZE); }}
+            className={`px-3 py-1 text-sm rounded-full transition-colors ${filter === id ? 'bg-teal-600 text-white' : 'bg-slate-700/70 text-slate-300 hover:bg-slate-600'}`}
+        >
+            {label}
+        </button>
+    );
+
+    return (
+        <Card>
+            <h2 className="text-2xl font-bold flex items-center gap-3 text-slate-100"><HistoryIcon /> Timeline</h2>
+            <div className="flex flex-wrap gap-2 mt-4">
+                {chip('all', 'All')}
+                {ACTIVITY_CATEGORIES.map(category => chip(category.id, category.label))}
+            </div>
+
+            <div className="mt-6 space-y-6">
+                {days.map(({ day, events: dayEvents }) => (
+                    <div key={day}>
+                        <h3 className="text-sm font-semibold text-slate-400 mb-2">{day}</h3>
+                        <ul className="space-y-2 border-l border-slate-700 ml-1.5">
+                            {dayEvents.map(event => (
+                                <li key={event.id} className="flex items-start gap-3 -ml-1.5">
+                                    <span className="w-3 h-3 mt-1 rounded-full shrink-0" style={{ backgroundColor: CATEGORY_COLORS[activityCategory(event)] }} />
+                                    <div className="flex-grow flex justify-between gap-4">
+                                        <p className="text-slate-200">{describeActivity(event)}</p>
+                                        <span className="text-xs text-slate-500 shrink-0 mt-0.5">{new Date(event.occurredAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}</span>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+                {events.length === 0 && <p className="text-center text-slate-400 py-4">Nothing here yet. Your progress will show up as you go.</p>}
+                {events.length > shown && (
+                    <button onClick={() => setShown(shown + PAGE_SIZE)} className="w-full py-2 text-sm font-semibold text-teal-400 hover:text-teal-300">
+                        Show older activity
+                    </button>
+                )}
+            </div>
+        </Card>
+    );
+};
+
+export default ActivityTimeline;
@@ -1,7 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Chat } from "@google/genai";
-import type { UserProfile, ChatMessage, ChatSession } from '../types';
+import type { UserProfile, ChatMessage, ChatSession, PromptRef } from '../types';
 import { SparklesIcon, SendIcon, BrainIcon, LinkedInIcon, HistoryIcon } from './icons';
+import { getAiProvider, AiChat, AiChatOptions } from '../services/aiProvider';
+import { buildAiFeatureRequest } from '../services/aiFeatureRequests';
+import StopGeneratingButton from './common/StopGeneratingButton';
+import { useAbortController } from '../utils/useAbortController';
 
 interface SmartChatProps {
     user: UserProfile;
@@ -11,10 +14,6 @@ interface SmartChatProps {
 type ChatMode = 'mentor' | 'quick' | 'deep' | 'web' | 'networking';
 type ViewMode = 'chat' | 'history';
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) throw new Error("API_KEY environment variable not set");
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
 const TypingIndicator = () => (
     <div className="flex items-center gap-1.5 dot-bounce h-5">
         <div className="w-2.5 h-2.5 bg-slate-400 rounded-full dot1"></div>
@@ -24,7 +23,7 @@ const TypingIndicator = () => (
 );
 
 const SmartChat: React.FC<SmartChatProps> = ({ user, onSaveHistory }) => {
-    const [chat, setChat] = useState<Chat | null>(null);
+    const [chat, setChat] = useState<AiChat | null>(null);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -34,6 +33,7 @@ const SmartChat: React.FC<SmartChatProps> = ({ user, onSaveHistory }) => {
 
     const chatContainerRef = useRef<HTMLDivElement>(null);
     const messagesRef = useRef(messages);
+    const { start, abort } = useAbortController();
     
     useEffect(() => {
         messagesRef.current = messages;
@@ -42,6 +42,7 @@ const SmartChat: React.FC<SmartChatProps> = ({ user, onSaveHistory }) => {
     useEffect(() => {
         // Stash the current chat mode for use in the cleanup function
         const modeForThisSession = chatMode;
+        let promptForThisSession: PromptRef | null = null;
         
         const initChat = () => {
              if (chatMode === 'web') {
@@ -50,85 +51,53 @@ const SmartChat: React.FC<SmartChatProps> = ({ user, onSaveHistory }) => {
                 return;
             }
             
-            let systemInstruction = '';
+            let networking = false;
             let welcomeMessage = `Hey ${user.name}! I'm your AI Career Copilot. How can I help you today? ✨`;
 
             switch(chatMode) {
                 case 'networking':
-                    systemInstruction = `You are a professional networking assistant for a user with the following profile. Your goal is to help them craft professional outreach messages, find key contacts, and offer strategies for building professional connections. Your advice should be tailored to their specific background and goals.
-
-**User Profile:**
-*   **Name:** ${user.name}
-*   **Age:** ${user.age}
-*   **Current Profession/Role:** ${user.profession}
-*   **Education Level:** ${user.educationLevel}
-*   **Target Role:** ${user.targetRole}
-*   **Key Skills:** ${(user.skills || []).filter(s => !s.isGap).map(s => s.name).join(', ')}
-*   **LinkedIn Profile:** ${user.linkedinUrl || 'Not provided'}
-
-Be concise, professional, and actionable in your responses.`;
+                    networking = true;
                     welcomeMessage = `Let's work on your professional network! I can help you draft a LinkedIn message or find people to connect with in the ${user.targetRole} field. What's our goal today?`;
                     break;
                 case 'mentor':
                 case 'quick':
                 case 'deep':
                 default:
-                    const completedSteps = (user.roadmap || []).filter(r => r.completed).map(r => r.title);
-                    const incompleteSteps = (user.roadmap || []).filter(r => !r.completed).map(r => r.title);
-                    const skillGaps = (user.skills || []).filter(s => s.isGap).map(s => s.name);
-
-                    systemInstruction = `You are an expert AI Career Mentor for ${user.name}. Your persona is that of a knowledgeable, encouraging, and proactive career partner. Your tone is friendly, motivating, and professional, using emojis to be engaging.
-
-**Your Core Mission:** Actively guide ${user.name} towards their goal of becoming a "${user.targetRole}". Do not just wait for questions. Be proactive.
-
-**User Profile Context:**
-*   **Name:** ${user.name}
-*   **Age:** ${user.age}
-*   **Profession:** ${user.profession}
-*   **Education:** ${user.educationLevel}
-*   **Target Role:** ${user.targetRole}
-*   **Existing Skills:** ${(user.skills || []).map(s => `${s.name} (${s.proficiency})`).join(', ')}.
-*   **Identified Skill Gaps:** ${skillGaps.join(', ') || 'None identified yet.'}
-*   **Roadmap Progress:**
-    *   **Completed:** ${completedSteps.join(', ') || 'No steps completed yet.'}
-    *   **Next Steps:** ${incompleteSteps.join(', ') || 'No roadmap defined yet.'}
-
-**Your Proactive Responsibilities:**
-1.  **Contextualize Advice:** Given they are a ${user.age}-year-old ${user.profession} with a ${user.educationLevel} degree, your advice should be practical for their life stage.
-2.  **Suggest Next Steps:** Based on their completed roadmap items and remaining skill gaps, proactively suggest what they could focus on next. For example: "I see you've finished the 'Data Fundamentals' milestone! That's awesome 🎉. A great next step would be to tackle a project using Python's Pandas library to solidify those skills. Want some project ideas?"
-3.  **Offer Resources:** When they mention a skill or a topic from their roadmap, offer to find relevant articles, tutorials, or courses.
-4.  **Connect to Goals:** Always tie your advice back to their goal of becoming a ${user.targetRole}. Explain *why* a skill or project is important for that career path.
-5.  **Check In:** If the chat is idle, you can initiate with a check-in, like "Hey ${user.name}, how's the progress on the '${incompleteSteps[0] || 'next'}' part of your roadmap going? Anything I can help with?"
-
-Keep your answers concise but impactful. Your goal is to be a true copilot on their career journey. Let's go! 🚀`;
                     break;
             }
+            const { input, systemInstruction, ref } = buildAiFeatureRequest({ feature: 'mentorChat', vars: { user, networking } }, user.id);
             const modelForMode = chatMode === 'quick' ? 'gemini-flash-lite-latest' : 'gemini-2.5-pro';
-            const config: { systemInstruction: string, thinkingConfig?: any } = { systemInstruction };
+            const options: AiChatOptions = { feature: 'mentorChat', model: modelForMode, input, systemInstruction };
             if (chatMode === 'deep') {
-                config.thinkingConfig = { thinkingBudget: 32768 };
+                options.thinkingBudget = 32768;
             }
 
-            const newChat = ai.chats.create({ model: modelForMode, config });
+            promptForThisSession = ref;
+            const newChat = getAiProvider().createChat(options);
             setChat(newChat);
             setMessages([{ role: 'model', text: welcomeMessage }]);
         };
         initChat();
 
         return () => {
+            // A reply still streaming for the old chat would otherwise land in the new one.
+            abort();
+            setIsLoading(false);
             const messagesToSave = messagesRef.current;
             if (messagesToSave.length > 1) { // More than just the initial model message
                 const session: ChatSession = {
+                    id: crypto.randomUUID(),
                     date: new Date().toISOString(),
                     mode: modeForThisSession,
-                    messages: messagesToSave.filter(m => m.text !== 'TYPING_INDICATOR')
+                    messages: messagesToSave.filter(m => m.text !== 'TYPING_INDICATOR'),
+                    prompts: promptForThisSession ? [promptForThisSession] : undefined,
                 };
                 if (session.messages.length > 1) {
                     onSaveHistory(session);
                 }
             }
         };
-    }, [user, chatMode, onSaveHistory]);
+    }, [user, chatMode, onSaveHistory, abort]);
 
     useEffect(() => {
         if (chatContainerRef.current) {
@@ -137,29 +106,22 @@ Keep your answers concise but impactful. Your goal is to be a true copilot on th
     }, [messages, selectedHistory]);
 
     const handleWebSearch = async (prompt: string) => {
+        const signal = start();
         setIsLoading(true);
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: {
-                    tools: [{ googleSearch: {} }],
-                }
-            });
+            const request = buildAiFeatureRequest({ feature: 'webSearch', vars: { query: prompt } });
+            const response = await getAiProvider().generate({ ...request, model: 'gemini-2.5-flash', signal });
 
-            const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: any) => ({
-                title: chunk.web.title || new URL(chunk.web.uri).hostname,
-                url: chunk.web.uri
-            })) || [];
+            const sources = response.sources.map(source => ({ title: source.title, url: source.url }));
 
             setMessages(prev => [...prev, { role: 'model', text: response.text, sources }]);
 
         } catch (error) {
+             if (signal.aborted) return;
              console.error("Error with web search:", error);
              setMessages(prev => [...prev, { role: 'model', text: "Sorry, I couldn't search the web right now. Please try again." }]);
-        } finally {
-            setIsLoading(false);
         }
+        setIsLoading(false);
     };
 
     const handleSend = async () => {
@@ -175,18 +137,18 @@ Keep your answers concise but impactful. Your goal is to be a true copilot on th
             return;
         }
         
+        const signal = start();
         setIsLoading(true);
         setMessages(prev => [...prev, { role: 'model', text: 'TYPING_INDICATOR' }]);
         
         try {
             if (chat) { 
-                const responseStream = await chat.sendMessageStream({ message: currentInput });
                 let modelResponseText = '';
                 let responseReceived = false;
 
-                for await (const chunk of responseStream) {
+                for await (const chunk of chat.sendMessageStream(currentInput, signal)) {
                     responseReceived = true;
-                    modelResponseText += chunk.text;
+                    modelResponseText += chunk;
                     setMessages(prev => {
                         const newMessages = [...prev];
                         const lastMessage = newMessages[newMessages.length - 1];
@@ -200,11 +162,18 @@ Keep your answers concise but impactful. Your goal is to be a true copilot on th
                 }
             }
         } catch (error) {
+            if (signal.aborted) return;
             console.error("Error sending message:", error);
             setMessages(prev => [...prev.filter(m => m.text !== 'TYPING_INDICATOR'), { role: 'model', text: "Oops! Something went wrong. Please try again." }]);
-        } finally {
-            setIsLoading(false);
         }
+        setIsLoading(false);
+    };
+
+    // Keeps whatever part of the reply has already arrived.
+    const handleStop = () => {
+        abort();
+        setIsLoading(false);
+        setMessages(prev => prev.filter(m => m.text !== 'TYPING_INDICATOR'));
     };
     
     const renderChatContent = (msgs: ChatMessage[]) => (
@@ -269,6 +238,11 @@ Keep your answers concise but impactful. Your goal is to be a true copilot on th
                             </div>
                          )}
                     </div>
+                    {isLoading && (
+                        <div className="mt-3 text-center shrink-0">
+                            <StopGeneratingButton onStop={handleStop} />
+                        </div>
+                    )}
                     <div className="mt-4 flex items-center gap-3 p-2 bg-slate-800/80 border border-slate-700 rounded-xl shrink-0">
                         <input
                             type="text"
@@ -301,7 +275,7 @@ Keep your answers concise but impactful. Your goal is to be a true copilot on th
                          <>
                             <button onClick={() => setViewMode('chat')} className="mb-4 self-start px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-lg">← Back to Chat</button>
                             <div className="flex-grow overflow-y-auto space-y-3 pr-2">
-                                {(user.smartChatHistory || []).slice().reverse().map((session, index) => (
+                                {user.smartChatHistory.slice().reverse().map((session, index) => (
                                     <button key={index} onClick={() => setSelectedHistory(session.messages)} className="w-full text-left p-4 bg-slate-800/70 hover:bg-slate-800 rounded-lg transition-colors">
                                         <div className="flex justify-between items-center">
                                             <p className="font-semibold text-slate-200 capitalize">Chat ({session.mode})</p>
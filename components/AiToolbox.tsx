@@ -3,6 +3,9 @@ import type { UserProfile } from '../types';
 import Card from './common/Card';
 import { ToolboxIcon, SparklesIcon } from './icons';
 import { generateProfessionalEmail, generateElevatorPitch, generateCoverLetter, optimizeLinkedInSummary } from '../services/geminiService';
+import { useAbortController } from '../utils/useAbortController';
+import OutgoingTextPreview from './common/OutgoingTextPreview';
+import { prepareOutgoingText } from '../utils/untrustedText';
 
 interface AiToolboxProps {
     user: UserProfile;
@@ -40,13 +43,21 @@ const EmailWriter: React.FC<ToolComponentProps> = ({ user, onResult }) => {
     const [goal, setGoal] = useState('');
     const [keyPoints, setKeyPoints] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const { start } = useAbortController();
 
     const handleGenerate = async () => {
         if (!recipientRole || !goal || !keyPoints) return;
+        const signal = start();
         setIsLoading(true);
-        onResult(''); // Clear previous result
-        const generatedEmail = await generateProfessionalEmail(recipientRole, goal, keyPoints);
-        onResult(generatedEmail);
+        onResult('');
+        try {
+            const generatedEmail = await generateProfessionalEmail(recipientRole, goal, keyPoints, { signal });
+            onResult(generatedEmail);
+        } catch (error) {
+            if (signal.aborted) return;
+            console.error("Error generating email:", error);
+            onResult('Sorry, something went wrong. Please try again.');
+        }
         setIsLoading(false);
     };
     
@@ -64,12 +75,20 @@ const EmailWriter: React.FC<ToolComponentProps> = ({ user, onResult }) => {
 
 const PitchGenerator: React.FC<ToolComponentProps> = ({ user, onResult }) => {
     const [isLoading, setIsLoading] = useState(false);
+    const { start } = useAbortController();
 
     const handleGenerate = async () => {
+        const signal = start();
         setIsLoading(true);
-        onResult(''); // Clear previous result
-        const pitch = await generateElevatorPitch(user);
-        onResult(pitch);
+        onResult('');
+        try {
+            const pitch = await generateElevatorPitch(user, { signal });
+            onResult(pitch);
+        } catch (error) {
+            if (signal.aborted) return;
+            console.error("Error generating elevator pitch:", error);
+            onResult('Sorry, something went wrong. Please try again.');
+        }
         setIsLoading(false);
     };
 
@@ -86,14 +105,28 @@ const PitchGenerator: React.FC<ToolComponentProps> = ({ user, onResult }) => {
 const CoverLetterHelper: React.FC<ToolComponentProps> = ({ user, onResult }) => {
     const [jobDescription, setJobDescription] = useState('');
     const [userInfo, setUserInfo] = useState(createUserSummary(user));
+    const [redactPersonalInfo, setRedactPersonalInfo] = useState(true);
     const [isLoading, setIsLoading] = useState(false);
+    const { start } = useAbortController();
 
     const handleGenerate = async () => {
         if (!jobDescription || !userInfo) return;
+        const signal = start();
         setIsLoading(true);
         onResult('');
-        const letter = await generateCoverLetter(jobDescription, userInfo, user);
-        onResult(letter);
+        try {
+            const letter = await generateCoverLetter(
+                prepareOutgoingText(jobDescription, redactPersonalInfo),
+                prepareOutgoingText(userInfo, redactPersonalInfo),
+                user,
+                { signal },
+            );
+            onResult(letter);
+        } catch (error) {
+            if (signal.aborted) return;
+            console.error("Error generating cover letter:", error);
+            onResult('Sorry, something went wrong. Please try again.');
+        }
         setIsLoading(false);
     };
 
@@ -103,6 +136,7 @@ const CoverLetterHelper: React.FC<ToolComponentProps> = ({ user, onResult }) =>
             <textarea value={userInfo} onChange={e => setUserInfo(e.target.value)} placeholder="Your skills, projects, experience..." rows={6} className="w-full bg-slate-900/70 border border-slate-700 rounded-md p-2.5 focus:ring-2 focus:ring-teal-500 focus:outline-none" />
              <h4 className="font-semibold text-slate-300 text-sm">Job Description</h4>
             <textarea value={jobDescription} onChange={e => setJobDescription(e.target.value)} placeholder="Paste the job description here..." rows={6} className="w-full bg-slate-900/70 border border-slate-700 rounded-md p-2.5 focus:ring-2 focus:ring-teal-500 focus:outline-none" />
+            <OutgoingTextPreview text={`${userInfo}\n\n${jobDescription}`.trim()} redact={redactPersonalInfo} onRedactChange={setRedactPersonalInfo} />
             <button onClick={handleGenerate} disabled={isLoading || !jobDescription} className="w-full inline-flex items-center justify-center gap-2 px-6 py-2.5 font-semibold text-white bg-cyan-600 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600 transition-colors">
                 <SparklesIcon/> {isLoading ? 'Writing...' : 'Generate Cover Letter'}
             </button>
@@ -112,19 +146,29 @@ const CoverLetterHelper: React.FC<ToolComponentProps> = ({ user, onResult }) =>
 
 const LinkedInOptimizer: React.FC<ToolComponentProps> = ({ user, onResult }) => {
     const [summary, setSummary] = useState('');
+    const [redactPersonalInfo, setRedactPersonalInfo] = useState(true);
     const [isLoading, setIsLoading] = useState(false);
+    const { start } = useAbortController();
 
     const handleGenerate = async () => {
+        const signal = start();
         setIsLoading(true);
         onResult('');
-        const optimizedSummary = await optimizeLinkedInSummary(summary, user);
-        onResult(optimizedSummary);
+        try {
+            const optimizedSummary = await optimizeLinkedInSummary(prepareOutgoingText(summary, redactPersonalInfo), user, { signal });
+            onResult(optimizedSummary);
+        } catch (error) {
+            if (signal.aborted) return;
+            console.error("Error generating LinkedIn summary:", error);
+            onResult('Sorry, something went wrong. Please try again.');
+        }
         setIsLoading(false);
     };
     
     return (
         <div className="space-y-4">
             <textarea value={summary} onChange={e => setSummary(e.target.value)} placeholder="Paste your current LinkedIn summary here (or leave blank to generate a new one)..." rows={8} className="w-full bg-slate-900/70 border border-slate-700 rounded-md p-2.5 focus:ring-2 focus:ring-teal-500 focus:outline-none" />
+            <OutgoingTextPreview text={summary} redact={redactPersonalInfo} onRedactChange={setRedactPersonalInfo} />
             <button onClick={handleGenerate} disabled={isLoading} className="w-full inline-flex items-center justify-center gap-2 px-6 py-2.5 font-semibold text-white bg-cyan-600 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600 transition-colors">
                 <SparklesIcon/> {isLoading ? 'Optimizing...' : 'Optimize My Summary'}
             </button>
@@ -3,6 +3,8 @@ import { findNearbyCourses, findOnlineCourses } from '../services/geminiService'
 import type { Course } from '../types';
 import Card from './common/Card';
 import { MapPinIcon, SparklesIcon, StarIcon } from './icons';
+import { useAbortController } from '../utils/useAbortController';
+import CitationBadge from './common/CitationBadge';
 
 type SearchType = 'local' | 'online';
 type SortKey = 'rating' | 'title';
@@ -16,6 +18,7 @@ const CourseFinder: React.FC = () => {
     const [hasSearched, setHasSearched] = useState(false);
     const [searchType, setSearchType] = useState<SearchType>('online');
     const [sortKey, setSortKey] = useState<SortKey>('rating');
+    const { start } = useAbortController();
 
     useEffect(() => {
         if (searchType === 'local') {
@@ -44,16 +47,18 @@ const CourseFinder: React.FC = () => {
             setError('Location not available. Cannot search for nearby courses.');
             return;
         }
+        const signal = start();
         setIsLoading(true);
         setError(null);
         setCourses([]);
         setHasSearched(true);
         try {
             const results = searchType === 'local' 
-                ? await findNearbyCourses(query, location!)
-                : await findOnlineCourses(query);
+                ? await findNearbyCourses(query, location!, { signal })
+                : await findOnlineCourses(query, { signal });
             setCourses(results);
         } catch (err) {
+            if (signal.aborted) return;
             setError('Failed to fetch courses. Please try again.');
             console.error(err);
         }
@@ -139,6 +144,7 @@ const CourseFinder: React.FC = () => {
                                     <h3 className="text-lg font-bold text-cyan-300">{course.title}</h3>
                                     {course.rating && <div className="mt-2"><StarRating rating={course.rating}/></div>}
                                     <p className="text-sm text-slate-400 mt-2 flex-grow line-clamp-3">{course.description}</p>
+                                    <CitationBadge source={course.source} verified={course.verified} className="mt-3 self-start" />
                                     <a 
                                         href={course.url}
                                         target="_blank"
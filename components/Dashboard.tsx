@@ -1,9 +1,16 @@
 import React, { useState, useMemo } from 'react';
-import type { UserProfile, SkillGap, RoadmapStep, UserProject, Achievement, TrackedJobStatus, TrackedJob } from '../types';
+import type { UserProfile, SkillGap, RoadmapStep, UserProject, TrackedJobStatus, TrackedJob, XpTransaction, AchievementTier } from '../types';
 import Card from './common/Card';
 import ProgressBar from './common/ProgressBar';
 import { SparklesIcon, ProjectIcon, StarIcon, TrendingUpIcon, BrainIcon, DownloadIcon } from './icons';
 import SkillDetailModal from './SkillDetailModal';
+import WeeklyQuests from './WeeklyQuests';
+import { ACTIVITY_CATEGORIES, describeActivity, weeklyActivity } from '../services/activityLog';
+import type { WeeklyActivity } from '../services/activityLog';
+import { xpOverTime } from '../services/xpLedger';
+import { levelProgress, projectXp } from '../services/gamificationRules';
+import { achievementProgress, achievementTitle, TIER_LABELS } from '../utils/achievementUtils';
+import type { XpPoint } from '../services/xpLedger';
 
 
 // Helper functions for HTML generation
@@ -57,16 +64,17 @@ const generateJourneyReportHTML = (user: UserProfile): string => {
     content += h2('Profile Summary');
     content += '<div class="summary-card">';
     content += ul([
-        `${bold('Level:')} ${user.level}`,
+        `${bold('Level:')} ${levelProgress(user.xp).level} (${levelProgress(user.xp).title})`,
         `${bold('XP:')} ${user.xp}`,
         `${bold('Current Streak:')} ${user.streak} days`,
+        `${bold('Longest Streak:')} ${user.streakState.longest} days`,
     ]);
     content += '</div>';
 
     // --- Achievements ---
     if (user.achievements?.length > 0) {
         content += h2('Achievements');
-        content += ul(user.achievements.map(ach => `${ach.icon} ${bold(ach.name)}: ${ach.description}`));
+        content += ul(user.achievements.map(ach => `${ach.icon} ${bold(achievementTitle(ach))}: ${ach.description}${ach.unlockedAt ? ` <em>(${new Date(ach.unlockedAt).toLocaleDateString()})</em>` : ''}`));
     }
 
     // --- Skills & Gaps ---
@@ -79,7 +87,7 @@ const generateJourneyReportHTML = (user: UserProfile): string => {
             content += h3('My Skills');
             content += `<table><thead><tr><th>Skill</th><th>Proficiency</th><th>Category</th></tr></thead><tbody>`;
             existingSkills.forEach(skill => {
-                content += `<tr><td>${skill.name}</td><td>${skill.proficiency}</td><td>${Array.isArray(skill.category) ? skill.category.join(', ') : skill.category}</td></tr>`;
+                content += `<tr><td>${skill.name}</td><td>${skill.proficiency}</td><td>${skill.category.join(', ')}</td></tr>`;
             });
             content += `</tbody></table>`;
         }
@@ -88,7 +96,7 @@ const generateJourneyReportHTML = (user: UserProfile): string => {
             content += h3('Identified Skill Gaps');
             content += `<table><thead><tr><th>Skill to Acquire</th><th>Proficiency</th><th>Category</th></tr></thead><tbody>`;
             skillGaps.forEach(skill => {
-                content += `<tr><td>${skill.name}</td><td>${skill.proficiency}</td><td>${Array.isArray(skill.category) ? skill.category.join(', ') : skill.category}</td></tr>`;
+                content += `<tr><td>${skill.name}</td><td>${skill.proficiency}</td><td>${skill.category.join(', ')}</td></tr>`;
             });
             content += `</tbody></table>`;
         }
@@ -112,7 +120,7 @@ const generateJourneyReportHTML = (user: UserProfile): string => {
         user.projects.forEach(project => {
             content += h3(`${project.title} - [${project.status}]`);
             content += p(`${bold('Description:')} ${project.description}`);
-            content += p(`${bold('Difficulty:')} ${project.difficulty} (${project.xp} XP)`);
+            content += p(`${bold('Difficulty:')} ${project.difficulty} (${projectXp(project)} XP)`);
             content += p(`${bold('Required Skills:')} ${project.requiredSkills.join(', ')}`);
         });
     }
@@ -149,6 +157,13 @@ const generateJourneyReportHTML = (user: UserProfile): string => {
         }
     }
     
+    // --- Recent Activity ---
+    if (user.activityLog?.length > 0) {
+        content += h2('Recent Activity');
+        const recent = [...user.activityLog].sort((a, b) => b.occurredAt.localeCompare(a.occurredAt)).slice(0, 20);
+        content += ul(recent.map(event => `${new Date(event.occurredAt).toLocaleDateString()}: ${describeActivity(event)}`));
+    }
+
     // --- AI Tool Interactions ---
     content += h2('AI Mentor & Coach Summaries');
     content += p("This section summarizes insights from your interactions with the AI tools.");
@@ -268,37 +283,154 @@ const DonutChart: React.FC<{
     );
 };
 
-const AchievementsList: React.FC<{ achievements: Achievement[] }> = ({ achievements }) => (
-    <Card>
-        <h2 className="text-2xl font-bold flex items-center gap-3 text-slate-100 mb-4">
-            <StarIcon className="w-7 h-7 text-amber-400" /> Achievements
-        </h2>
-        {achievements.length > 0 ? (
-            <div className="space-y-3 max-h-80 overflow-y-auto pr-2">
-                {achievements.map(ach => (
-                     <div key={ach.id} className="flex items-center gap-4 p-2 bg-slate-900/50 rounded-lg">
-                        <span className="text-3xl">{ach.icon}</span>
-                        <div>
-                            <h4 className="font-semibold text-slate-200">{ach.name}</h4>
-                            <p className="text-xs text-slate-400">{ach.description}</p>
+// Stacked bars of events per week, one colour per activity category.
+const ActivityChart: React.FC<{ weeks: WeeklyActivity[] }> = ({ weeks }) => {
+    const totals = weeks.map(week => ACTIVITY_CATEGORIES.reduce((sum, category) => sum + week.counts[category.id], 0));
+    const max = Math.max(1, ...totals);
+    const barWidth = 100 / weeks.length;
+
+    return (
+        <div>
+            <h3 className="text-xl font-bold text-slate-100 mb-4 text-center">Weekly Activity</h3>
+            <svg viewBox="0 0 100 50" preserveAspectRatio="none" className="w-full h-40">
+                {weeks.map((week, i) => {
+                    let y = 50;
+                    return ACTIVITY_CATEGORIES.map(category => {
+                        const height = (week.counts[category.id] / max) * 50;
+                        y -= height;
+                        return height > 0 ? (
+                            <rect key={`${week.weekStart}:${category.id}`} x={i * barWidth + barWidth * 0.15} y={y} width={barWidth * 0.7} height={height} fill={category.color}>
+                                <title>{`${category.label}: ${week.counts[category.id]}`}</title>
+                            </rect>
+                        ) : null;
+                    });
+                })}
+            </svg>
+            <div className="flex justify-between text-xs text-slate-500 mt-1">
+                {weeks.map((week, i) => (
+                    <span key={week.weekStart} className="flex-1 text-center">
+                        {new Date(`${week.weekStart}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                        <span className="block text-slate-400">{totals[i]}</span>
+                    </span>
+                ))}
+            </div>
+            <div className="mt-4 flex flex-wrap justify-center gap-x-4 gap-y-1">
+                {ACTIVITY_CATEGORIES.map(category => (
+                    <div key={category.id} className="flex items-center gap-2 text-sm">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }}></span>
+                        <span className="text-slate-300">{category.label}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Total XP over time as a line, with the latest transactions listed underneath.
+const XpChart: React.FC<{ points: XpPoint[]; recent: XpTransaction[] }> = ({ points, recent }) => {
+    const max = Math.max(1, ...points.map(point => point.xp));
+    const x = (i: number) => (points.length > 1 ? (i / (points.length - 1)) * 100 : 50);
+    const y = (xp: number) => 48 - (xp / max) * 46;
+    const line = points.map((point, i) => `${x(i)},${y(point.xp)}`).join(' ');
+
+    return (
+        <div>
+            <h3 className="text-xl font-bold text-slate-100 mb-4 text-center">XP Over Time</h3>
+            <svg viewBox="0 0 100 50" preserveAspectRatio="none" className="w-full h-40">
+                <polygon points={`0,50 ${line} 100,50`} fill="#2dd4bf" fillOpacity="0.15" />
+                <polyline points={line} fill="none" stroke="#2dd4bf" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+            </svg>
+            <div className="flex justify-between text-xs text-slate-500 mt-1">
+                <span>{new Date(points[0].date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                <span>{max} XP</span>
+                <span>Today</span>
+            </div>
+            {recent.length > 0 && (
+                <ul className="mt-4 space-y-1 text-sm">
+                    {recent.map(transaction => (
+                        <li key={transaction.id} className="flex justify-between gap-4">
+                            <span className="text-slate-300 truncate">{transaction.description}</span>
+                            <span className={`shrink-0 font-medium ${transaction.amount < 0 ? 'text-red-400' : 'text-teal-400'}`}>
+                                {transaction.amount > 0 ? '+' : ''}{transaction.amount} XP
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const TIER_COLORS: Record<AchievementTier, string> = {
+    bronze: 'bg-amber-700/30 text-amber-500',
+    silver: 'bg-slate-400/20 text-slate-300',
+    gold: 'bg-yellow-400/20 text-yellow-300',
+};
+
+// Unlocked achievements first, newest tier shown, then the ones still in progress. Hidden achievements stay
+// hidden until unlocked.
+const AchievementsList: React.FC<{ user: UserProfile }> = ({ user }) => {
+    const progress = achievementProgress(user);
+    const unlocked = progress.filter(item => item.unlocked.length > 0);
+    const locked = progress.filter(item => item.unlocked.length === 0);
+    const hiddenCount = locked.filter(item => item.definition.hidden).length;
+
+    return (
+        <Card>
+            <h2 className="text-2xl font-bold flex items-center gap-3 text-slate-100 mb-4">
+                <StarIcon className="w-7 h-7 text-amber-400" /> Achievements
+                <span className="ml-auto text-sm font-medium text-slate-400">{unlocked.length}/{progress.length}</span>
+            </h2>
+            <div className="space-y-3 max-h-96 overflow-y-auto pr-2">
+                {unlocked.map(({ definition, unlocked: tiers, next, label }) => {
+                    const latest = tiers[tiers.length - 1];
+                    return (
+                        <div key={definition.id} className="flex items-center gap-4 p-2 bg-slate-900/50 rounded-lg">
+                            <span className="text-3xl">{definition.icon}</span>
+                            <div className="flex-grow min-w-0">
+                                <h4 className="font-semibold text-slate-200 flex items-center gap-2">
+                                    {definition.name}
+                                    {latest.tier && <span className={`px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded ${TIER_COLORS[latest.tier]}`}>{TIER_LABELS[latest.tier]}</span>}
+                                </h4>
+                                <p className="text-xs text-slate-400">{latest.description}</p>
+                                <p className="text-xs text-slate-500">
+                                    {latest.unlockedAt && `Unlocked ${new Date(latest.unlockedAt).toLocaleDateString()}`}
+                                    {next && `${latest.unlockedAt ? ' · ' : ''}Next: ${label}`}
+                                </p>
+                            </div>
+                        </div>
+                    );
+                })}
+                {locked.filter(item => !item.definition.hidden).map(({ definition, next, current, label }) => (
+                    <div key={definition.id} className="flex items-center gap-4 p-2 bg-slate-900/30 rounded-lg opacity-70">
+                        <span className="text-3xl grayscale">{definition.icon}</span>
+                        <div className="flex-grow min-w-0">
+                            <h4 className="font-semibold text-slate-300">{definition.name}</h4>
+                            <p className="text-xs text-slate-400">{next!.description}</p>
+                            <div className="mt-1 flex items-center gap-2">
+                                <div className="flex-grow bg-slate-700/50 rounded-full h-1.5">
+                                    <div className="bg-teal-500 h-1.5 rounded-full" style={{ width: `${Math.min(100, (current / next!.goal) * 100)}%` }} />
+                                </div>
+                                <span className="text-xs text-slate-500 shrink-0">{label}</span>
+                            </div>
                         </div>
                     </div>
                 ))}
+                {hiddenCount > 0 && (
+                    <p className="text-center text-xs text-slate-500 py-2">🔒 {hiddenCount} hidden achievement{hiddenCount === 1 ? '' : 's'} left to discover</p>
+                )}
             </div>
-        ) : (
-            <p className="text-center text-slate-400 py-8">Complete projects and roadmap steps to earn achievements!</p>
-        )}
-    </Card>
-);
+        </Card>
+    );
+};
 
 
-const Dashboard: React.FC<{ user: UserProfile }> = ({ user }) => {
+const Dashboard: React.FC<{ user: UserProfile; onUpdateProfile: (profileUpdate: Partial<UserProfile>) => Promise<void> }> = ({ user, onUpdateProfile }) => {
     const [selectedSkill, setSelectedSkill] = useState<SkillGap | null>(null);
     const [isDownloading, setIsDownloading] = useState(false);
     const nextMilestone = user.roadmap.find(step => !step.completed);
     const inProgressProject = user.projects.find(p => p.status === 'In Progress');
-    const xpForNextLevel = 500;
-    const currentLevelXp = Number(user.xp) % xpForNextLevel;
+    const progress = levelProgress(user.xp);
     
     const findRelatedItems = (skillName: string) => {
         const relatedRoadmapSteps = user.roadmap.filter(step => step.skillsToLearn.includes(skillName));
@@ -358,6 +490,10 @@ const Dashboard: React.FC<{ user: UserProfile }> = ({ user }) => {
         ];
     }, [user.projects]);
 
+    const activityData = useMemo(() => weeklyActivity(user.activityLog, 8), [user.activityLog]);
+    const xpData = useMemo(() => xpOverTime(user.xpLedger, 12), [user.xpLedger]);
+    const recentXp = useMemo(() => [...user.xpLedger].sort((a, b) => b.occurredAt.localeCompare(a.occurredAt)).slice(0, 5), [user.xpLedger]);
+
     const StatCard: React.FC<{ label: string; value: string | number; icon: React.ReactNode }> = ({ label, value, icon }) => (
         <div className="bg-slate-900/50 p-4 rounded-xl flex items-center gap-4">
             <div className="p-2 bg-slate-700/50 rounded-lg">{icon}</div>
@@ -386,11 +522,11 @@ const Dashboard: React.FC<{ user: UserProfile }> = ({ user }) => {
             </header>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                <StatCard label="Level" value={user.level} icon={<StarIcon className="w-6 h-6 text-amber-400" />} />
+                <StatCard label="Level" value={`${progress.level} · ${progress.title}`} icon={<StarIcon className="w-6 h-6 text-amber-400" />} />
                 <StatCard label="XP" value={user.xp} icon={<SparklesIcon className="w-6 h-6 text-teal-400" />} />
-                <StatCard label="Day Streak" value={user.streak} icon={<TrendingUpIcon className="w-6 h-6 text-green-400" />} />
+                <StatCard label="Day Streak" value={`${user.streak} (best ${user.streakState.longest})`} icon={<TrendingUpIcon className="w-6 h-6 text-green-400" />} />
                 <Card className="p-4 flex items-center justify-center">
-                    <ProgressBar value={currentLevelXp} max={xpForNextLevel} label={`Level ${user.level}`} />
+                    <ProgressBar value={progress.current} max={progress.needed} label={`Level ${progress.level}`} />
                 </Card>
             </div>
 
@@ -427,7 +563,7 @@ const Dashboard: React.FC<{ user: UserProfile }> = ({ user }) => {
                         <p className="text-slate-400 mt-1 mb-4 text-sm">Click a skill to see related projects and roadmap steps.</p>
                         <div className="flex flex-wrap gap-2">
                             {user.skills.map(skill => (
-                                <button key={skill.name} onClick={() => handleSkillClick(skill)} className={`px-3 py-1 text-sm font-medium rounded-full transition-colors ${skill.isGap ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/30' : 'bg-cyan-500/20 text-cyan-300 hover:bg-cyan-500/30'}`}>
+                                <button key={skill.id} onClick={() => handleSkillClick(skill)} className={`px-3 py-1 text-sm font-medium rounded-full transition-colors ${skill.isGap ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/30' : 'bg-cyan-500/20 text-cyan-300 hover:bg-cyan-500/30'}`}>
                                     {skill.name}
                                 </button>
                             ))}
@@ -435,7 +571,8 @@ const Dashboard: React.FC<{ user: UserProfile }> = ({ user }) => {
                     </Card>
                 </div>
                 <div className="space-y-8">
-                     <AchievementsList achievements={user.achievements} />
+                     <WeeklyQuests user={user} onUpdateProfile={onUpdateProfile} />
+                     <AchievementsList user={user} />
                 </div>
             </div>
 
@@ -444,6 +581,11 @@ const Dashboard: React.FC<{ user: UserProfile }> = ({ user }) => {
                 <Card><DonutChart data={projectStatusData} title="Project Status" /></Card>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <Card><ActivityChart weeks={activityData} /></Card>
+                <Card><XpChart points={xpData} recent={recentXp} /></Card>
+            </div>
+
             {selectedSkill && (
                 <SkillDetailModal 
                     skill={selectedSkill}
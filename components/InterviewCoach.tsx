@@ -1,10 +1,15 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { GoogleGenAI, Chat } from "@google/genai";
 import type { UserProfile, ChatMessage, InterviewSession, QuizSession, QuizQuestion } from '../types';
-import { SendIcon, InterviewIcon, HistoryIcon, BrainIcon, LightbulbIcon } from './icons';
+import { SendIcon, InterviewIcon, HistoryIcon, BrainIcon, LightbulbIcon, ReloadIcon } from './icons';
 import Card from './common/Card';
 import { summarizeInterview, getQuizTopics, generateQuizQuestion } from '../services/geminiService';
 import ProgressBar from './common/ProgressBar';
+import StopGeneratingButton from './common/StopGeneratingButton';
+import { useAbortController } from '../utils/useAbortController';
+import { getAiProvider, AiChat } from '../services/aiProvider';
+import { resolvePromptRef } from '../services/promptRegistry';
+import { buildAiFeatureRequest } from '../services/aiFeatureRequests';
+import { PROMPTS } from '../services/promptTemplates';
 
 interface InterviewCoachProps {
     user: UserProfile;
@@ -12,21 +17,17 @@ interface InterviewCoachProps {
     onSaveQuiz: (session: QuizSession) => void;
 }
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) throw new Error("API_KEY environment variable not set");
-// FIX: Correctly instantiate GoogleGenAI with a named apiKey parameter as per the guidelines.
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
 type View = 'start' | 'interview' | 'summary' | 'history' | 'quiz-setup' | 'quiz-active' | 'quiz-summary';
 
 const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview, onSaveQuiz }) => {
-    const [chat, setChat] = useState<Chat | null>(null);
+    const [chat, setChat] = useState<AiChat | null>(null);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [view, setView] = useState<View>('start');
     const [summary, setSummary] = useState<string>('');
     const chatContainerRef = useRef<HTMLDivElement>(null);
+    const { start, abort } = useAbortController();
 
     // Quiz State
     const [quizTopics, setQuizTopics] = useState<string[]>([]);
@@ -35,7 +36,7 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
     const [currentQuestion, setCurrentQuestion] = useState<QuizQuestion | null>(null);
     const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
     const [answerStatus, setAnswerStatus] = useState<'correct' | 'incorrect' | null>(null);
-    const [quizEnded, setQuizEnded] = useState(false);
+    const [quizError, setQuizError] = useState<string | null>(null);
 
     useEffect(() => {
         if (chatContainerRef.current) {
@@ -44,42 +45,30 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
     }, [messages]);
 
     const startInterview = async () => {
+        const signal = start();
         setIsLoading(true);
         setView('interview');
         
-        const systemInstruction = `You are an expert AI Interviewer conducting a realistic mock interview with ${user.name} for a "${user.targetRole}" position.
-        **Candidate Context:**
-        - **Age:** ${user.age}
-        - **Profession:** ${user.profession}
-        - **Education:** ${user.educationLevel}
-        
-        Your process is as follows:
-        1. Start the interview by introducing yourself and setting the stage.
-        2. Ask one question at a time. Mix behavioral questions (like "Tell me about a time you faced a challenge"), technical questions, and situational questions relevant to the role and the candidate's likely experience level.
-        3. After the user answers, critically evaluate their response. If it's a good answer, acknowledge it. If it's brief or lacks detail, ask ONE probing follow-up question to encourage them to elaborate (e.g., "Could you tell me more about the outcome?", "What was your specific role in that project?").
-        4. After their response to the follow-up (or their initial good answer), provide brief, constructive feedback (1-2 sentences).
-        5. Seamlessly transition to the next, different question. Do not number the questions.
-        6. Maintain a professional, encouraging, yet evaluative tone. Let's begin the interview.`;
+        const { input, systemInstruction } = buildAiFeatureRequest({ feature: 'interviewChat', vars: { user } }, user.id);
 
         // FIX: Updated deprecated model name to the recommended version.
-        const newChat = ai.chats.create({ model: 'gemini-2.5-pro', config: { systemInstruction } });
+        const newChat = getAiProvider().createChat({ feature: 'interviewChat', model: 'gemini-2.5-pro', input, systemInstruction });
         setChat(newChat);
 
         try {
-            const responseStream = await newChat.sendMessageStream({ message: `Let's begin the mock interview for the ${user.targetRole} role. Good luck, ${user.name}!` });
             let modelResponseText = '';
             setMessages([{ role: 'model', text: '' }]);
 
-            for await (const chunk of responseStream) {
-                modelResponseText += chunk.text;
+            for await (const chunk of newChat.sendMessageStream(`Let's begin the mock interview for the ${user.targetRole} role. Good luck, ${user.name}!`, signal)) {
+                modelResponseText += chunk;
                 setMessages([{ role: 'model', text: modelResponseText }]);
             }
         } catch (error) {
+            if (signal.aborted) return;
             console.error("Error starting interview:", error);
             setMessages([{ role: 'model', text: "Oops! I had a problem starting. Please try again." }]);
-        } finally {
-            setIsLoading(false);
         }
+        setIsLoading(false);
     };
 
     const handleSend = async () => {
@@ -87,15 +76,15 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
         const userMessage: ChatMessage = { role: 'user', text: input };
         setMessages(prev => [...prev, userMessage]);
         setInput('');
+        const signal = start();
         setIsLoading(true);
 
         try {
-            const responseStream = await chat.sendMessageStream({ message: input });
             let modelResponseText = '';
             setMessages(prev => [...prev, { role: 'model', text: '' }]);
 
-            for await (const chunk of responseStream) {
-                modelResponseText += chunk.text;
+            for await (const chunk of chat.sendMessageStream(input, signal)) {
+                modelResponseText += chunk;
                 setMessages(prev => {
                     const newMessages = [...prev];
                     newMessages[newMessages.length - 1].text = modelResponseText;
@@ -103,11 +92,17 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
                 });
             }
         } catch (error) {
+            if (signal.aborted) return;
             console.error("Error sending message:", error);
             setMessages(prev => [...prev, { role: 'model', text: "Oops! Something went wrong." }]);
-        } finally {
-            setIsLoading(false);
         }
+        setIsLoading(false);
+    };
+
+    // Keeps whatever part of the reply has already arrived.
+    const handleStop = () => {
+        abort();
+        setIsLoading(false);
     };
     
     const endInterview = async () => {
@@ -116,14 +111,23 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
             setMessages([]);
             return;
         }
+        const signal = start();
         setIsLoading(true);
-        const feedbackSummary = await summarizeInterview(messages, user);
+        let feedbackSummary: string;
+        try {
+            feedbackSummary = await summarizeInterview(messages, user, { signal });
+        } catch {
+            // summarizeInterview only throws when cancelled.
+            return;
+        }
         setSummary(feedbackSummary);
         const session: InterviewSession = {
+            id: crypto.randomUUID(),
             date: new Date().toISOString(),
             targetRole: user.targetRole,
             transcript: messages,
             feedbackSummary,
+            prompts: [resolvePromptRef(PROMPTS.interviewer, user.id), resolvePromptRef(PROMPTS.interviewSummary, user.id)],
         };
         onSaveInterview(session);
         setView('summary');
@@ -132,11 +136,17 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
     };
 
     // Quiz Functions
-    const startQuizSetup = async () => {
+    const startQuizSetup = async (refresh = false) => {
+        const signal = start();
         setIsLoading(true);
         setView('quiz-setup');
-        const topics = await getQuizTopics(user);
-        setQuizTopics(topics);
+        setSelectedTopics([]);
+        try {
+            setQuizTopics(await getQuizTopics(user, { refresh, signal }));
+        } catch {
+            // getQuizTopics only throws when cancelled.
+            return;
+        }
         setIsLoading(false);
     };
 
@@ -147,22 +157,25 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
     const startQuiz = async () => {
         setIsLoading(true);
         setQuizQuestions([]);
-        setQuizEnded(false);
         setView('quiz-active');
         await fetchNextQuestion();
         setIsLoading(false);
     };
 
     const fetchNextQuestion = async () => {
+        const signal = start();
         setIsLoading(true);
         setSelectedAnswer(null);
         setAnswerStatus(null);
+        setQuizError(null);
         const asked = quizQuestions.map(q => q.question.question);
-        const nextQ = await generateQuizQuestion(selectedTopics, asked);
-        if (nextQ) {
+        try {
+            const nextQ = await generateQuizQuestion(selectedTopics, asked, { signal });
             setCurrentQuestion(nextQ);
-        } else {
-            setQuizEnded(true); // No more questions available
+        } catch (error) {
+            if (signal.aborted) return;
+            console.error("Error fetching quiz question:", error);
+            setQuizError('Could not generate a valid question. You can try again or end the quiz.');
         }
         setIsLoading(false);
     };
@@ -178,6 +191,7 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
         const correctAnswers = quizQuestions.filter(q => q.isCorrect).length;
         const score = quizQuestions.length > 0 ? Math.round((correctAnswers / quizQuestions.length) * 100) : 0;
         const session: QuizSession = {
+            id: crypto.randomUUID(),
             date: new Date().toISOString(),
             targetRole: user.targetRole,
             topics: selectedTopics,
@@ -195,7 +209,7 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
         setCurrentQuestion(null);
         setSelectedAnswer(null);
         setAnswerStatus(null);
-        setQuizEnded(false);
+        setQuizError(null);
     }
     
     const renderContent = () => {
@@ -211,11 +225,11 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
                                 <button onClick={startInterview} disabled={isLoading} className="flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold text-white bg-gradient-to-r from-teal-500 to-cyan-600 rounded-lg hover:opacity-90 disabled:opacity-50 transition-opacity shadow-lg">
                                     {isLoading ? 'Preparing...' : 'Start Mock Interview'}
                                 </button>
-                                 <button onClick={startQuizSetup} disabled={isLoading} className="flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold text-white bg-gradient-to-r from-amber-500 to-orange-600 rounded-lg hover:opacity-90 disabled:opacity-50 transition-opacity shadow-lg">
+                                 <button onClick={() => startQuizSetup()} disabled={isLoading} className="flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold text-white bg-gradient-to-r from-amber-500 to-orange-600 rounded-lg hover:opacity-90 disabled:opacity-50 transition-opacity shadow-lg">
                                     <LightbulbIcon /> {isLoading ? 'Loading...' : 'Start Quiz'}
                                 </button>
                             </div>
-                            <button onClick={() => setView('history')} disabled={(user.interviewHistory || []).length === 0 && (user.quizHistory || []).length === 0} className="w-full mt-4 inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold text-white bg-slate-600 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-opacity">
+                            <button onClick={() => setView('history')} disabled={user.interviewHistory.length === 0 && user.quizHistory.length === 0} className="w-full mt-4 inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold text-white bg-slate-600 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-opacity">
                                 <HistoryIcon /> View History
                             </button>
                         </Card>
@@ -225,7 +239,12 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
                 return (
                     <div className="flex items-center justify-center h-full p-4 fade-in">
                         <Card className="max-w-lg w-full">
-                             <h1 className="text-2xl font-bold flex items-center gap-3 mb-2"><LightbulbIcon className="text-amber-400"/> Quiz Setup</h1>
+                             <div className="flex justify-between items-center mb-2">
+                                <h1 className="text-2xl font-bold flex items-center gap-3"><LightbulbIcon className="text-amber-400"/> Quiz Setup</h1>
+                                <button onClick={() => startQuizSetup(true)} disabled={isLoading} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50" title="Suggest new topics">
+                                    <ReloadIcon className="w-5 h-5" />
+                                </button>
+                             </div>
                              <p className="text-slate-400 mb-6">Select the topics you want to be quizzed on for your <span className="font-semibold text-cyan-300">{user.targetRole}</span> interview.</p>
                              {isLoading ? <div className="text-center py-8">Loading topics...</div> : (
                                 <div className="space-y-3">
@@ -276,11 +295,12 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
                                             <p className="text-sm text-slate-300 mt-1">{currentQuestion.explanation}</p>
                                         </div>
                                     )}
+                                    {quizError && <p className="mt-4 text-sm text-red-400">{quizError}</p>}
 
                                     <div className="mt-8 flex gap-4">
                                         <button onClick={endQuiz} className="px-6 py-3 font-semibold bg-slate-600 hover:bg-slate-700 rounded-lg">End Quiz</button>
                                         {answerStatus ? (
-                                            quizQuestions.length < 10 && !quizEnded ? (
+                                            quizQuestions.length < 10 ? (
                                                 <button onClick={fetchNextQuestion} className="flex-1 px-6 py-3 font-semibold text-white bg-amber-600 hover:bg-amber-700 rounded-lg">Next Question</button>
                                             ) : (
                                                 <button onClick={endQuiz} className="flex-1 px-6 py-3 font-semibold text-white bg-teal-600 hover:bg-teal-700 rounded-lg">View Results</button>
@@ -290,6 +310,14 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
                                         )}
                                     </div>
                                 </div>
+                            ) : quizError ? (
+                                <div className="text-center py-10 space-y-4">
+                                    <p className="text-red-400">{quizError}</p>
+                                    <div className="flex justify-center gap-4">
+                                        <button onClick={endQuiz} className="px-6 py-3 font-semibold bg-slate-600 hover:bg-slate-700 rounded-lg">End Quiz</button>
+                                        <button onClick={fetchNextQuestion} className="px-6 py-3 font-semibold text-white bg-amber-600 hover:bg-amber-700 rounded-lg">Try Again</button>
+                                    </div>
+                                </div>
                             ) : <div className="text-center py-10">Finished!</div>}
                          </Card>
                      </div>
@@ -341,6 +369,11 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
                                 </div>
                             ))}
                         </div>
+                        {isLoading && (
+                            <div className="mt-3 text-center shrink-0">
+                                <StopGeneratingButton onStop={handleStop} />
+                            </div>
+                        )}
                         <div className="mt-4 flex items-center gap-3 p-2 bg-slate-800/80 border border-slate-700 rounded-xl shrink-0">
                             <input type="text" value={input} onChange={(e) => setInput(e.target.value)} onKeyPress={(e) => e.key === 'Enter' && handleSend()} placeholder="Type your answer here..." className="w-full bg-transparent focus:outline-none p-2" disabled={isLoading} />
                             <button onClick={handleSend} disabled={isLoading || !input.trim()} className="p-2.5 rounded-lg bg-cyan-600 disabled:bg-slate-600 disabled:cursor-not-allowed hover:bg-cyan-700 transition-colors"><SendIcon className="w-5 h-5" /></button>
@@ -371,20 +404,20 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
                         </header>
                         <div>
                             <h2 className="text-2xl font-bold mb-3 text-cyan-300">Mock Interviews</h2>
-                            {(user.interviewHistory || []).map(session => (
-                                <Card key={session.date} className="mb-4">
+                            {user.interviewHistory.map(session => (
+                                <Card key={session.id} className="mb-4">
                                     <h3 className="text-xl font-bold text-slate-100">{session.targetRole}</h3>
                                     <p className="text-sm text-slate-400 mb-4">{new Date(session.date).toLocaleString()}</p>
                                     <h4 className="font-semibold text-slate-200 mb-2">Feedback Summary:</h4>
                                     <div className="prose prose-sm prose-invert prose-p:text-slate-400 max-h-40 overflow-y-auto" dangerouslySetInnerHTML={{ __html: session.feedbackSummary.replace(/\n/g, '<br />') }} />
                                 </Card>
                             ))}
-                            {(user.interviewHistory || []).length === 0 && <p className="text-slate-400">No mock interview history.</p>}
+                            {user.interviewHistory.length === 0 && <p className="text-slate-400">No mock interview history.</p>}
                         </div>
                         <div className="mt-8">
                              <h2 className="text-2xl font-bold mb-3 text-amber-300">Quizzes</h2>
-                              {(user.quizHistory || []).map(session => (
-                                <Card key={session.date} className="mb-4">
+                              {user.quizHistory.map(session => (
+                                <Card key={session.id} className="mb-4">
                                     <div className="flex justify-between items-start">
                                         <div>
                                             <h3 className="text-xl font-bold text-slate-100">{session.targetRole} Quiz</h3>
@@ -395,7 +428,7 @@ const InterviewCoach: React.FC<InterviewCoachProps> = ({ user, onSaveInterview,
                                     </div>
                                 </Card>
                             ))}
-                            {(user.quizHistory || []).length === 0 && <p className="text-slate-400">No quiz history.</p>}
+                            {user.quizHistory.length === 0 && <p className="text-slate-400">No quiz history.</p>}
                         </div>
                     </div>
                 )
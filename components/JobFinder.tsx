@@ -3,19 +3,22 @@ import type { JobPosting, UserProfile, TrackedJob, TrackedJobStatus } from '../t
 import { findJobs } from '../services/geminiService';
 import Card from './common/Card';
 import { BriefcaseIcon, PlusIcon } from './icons';
+import StopGeneratingButton from './common/StopGeneratingButton';
+import CitationBadge from './common/CitationBadge';
+import { useAbortController } from '../utils/useAbortController';
 
 interface JobFinderProps {
   user: UserProfile;
   onTrackJob: (job: JobPosting) => void;
-  onUpdateTrackedJobStatus: (jobUrl: string, status: TrackedJobStatus) => void;
+  onUpdateTrackedJobStatus: (jobId: string, status: TrackedJobStatus) => void;
 }
 
 const KANBAN_COLUMNS: TrackedJobStatus[] = ['Applied', 'Interviewing', 'Offered', 'Rejected', 'Tentative'];
 
-const JobCard: React.FC<{ job: TrackedJob, onDragStart: (e: React.DragEvent<HTMLDivElement>, jobUrl: string) => void }> = ({ job, onDragStart }) => (
+const JobCard: React.FC<{ job: TrackedJob, onDragStart: (e: React.DragEvent<HTMLDivElement>, jobId: string) => void }> = ({ job, onDragStart }) => (
     <div
         draggable
-        onDragStart={(e) => onDragStart(e, job.url)}
+        onDragStart={(e) => onDragStart(e, job.id)}
         className="bg-slate-800/80 p-3 rounded-lg border border-slate-700 cursor-grab active:cursor-grabbing min-h-[4rem]"
     >
         <p className="font-bold text-slate-100 text-sm leading-tight">{job.title}</p>
@@ -26,7 +29,7 @@ const JobCard: React.FC<{ job: TrackedJob, onDragStart: (e: React.DragEvent<HTML
 const KanbanColumn: React.FC<{ 
     status: TrackedJobStatus, 
     jobs: TrackedJob[], 
-    onDragStart: (e: React.DragEvent<HTMLDivElement>, jobUrl: string) => void,
+    onDragStart: (e: React.DragEvent<HTMLDivElement>, jobId: string) => void,
     onDrop: (e: React.DragEvent<HTMLDivElement>, status: TrackedJobStatus) => void,
 }> = ({ status, jobs, onDragStart, onDrop }) => {
     const [isOver, setIsOver] = useState(false);
@@ -54,7 +57,7 @@ const KanbanColumn: React.FC<{
         >
             <h3 className="font-semibold text-center text-slate-300 mb-3">{status} ({jobs.length})</h3>
             <div className="space-y-2 h-64 overflow-y-auto px-1">
-                {jobs.map(job => <JobCard key={job.url} job={job} onDragStart={onDragStart} />)}
+                {jobs.map(job => <JobCard key={job.id} job={job} onDragStart={onDragStart} />)}
             </div>
         </div>
     );
@@ -120,35 +123,44 @@ const JobFinder: React.FC<JobFinderProps> = ({ user, onTrackJob, onUpdateTracked
     const [error, setError] = useState<string | null>(null);
     const [hasSearched, setHasSearched] = useState(false);
     const [showAddJobModal, setShowAddJobModal] = useState(false);
+    const { start, abort } = useAbortController();
 
     const handleSearch = async () => {
         if (!roleQuery.trim()) {
             setError('Please enter a role to search for.');
             return;
         }
+        const signal = start();
         setIsLoading(true);
         setError(null);
         setJobs([]);
         setHasSearched(true);
 
         try {
-            const results = await findJobs(roleQuery, locationQuery);
+            const results = await findJobs(roleQuery, locationQuery, { signal });
             setJobs(results);
         } catch (err) {
+            if (signal.aborted) return;
             setError('Failed to fetch job postings. Please try again later.');
             console.error(err);
         }
         setIsLoading(false);
     };
+
+    const handleStop = () => {
+        abort();
+        setIsLoading(false);
+        setHasSearched(false);
+    };
     
-    const handleDragStart = (e: React.DragEvent<HTMLDivElement>, jobUrl: string) => {
-        e.dataTransfer.setData("jobUrl", jobUrl);
+    const handleDragStart = (e: React.DragEvent<HTMLDivElement>, jobId: string) => {
+        e.dataTransfer.setData("jobId", jobId);
     };
 
     const handleDrop = (e: React.DragEvent<HTMLDivElement>, newStatus: TrackedJobStatus) => {
-        const jobUrl = e.dataTransfer.getData("jobUrl");
-        if(jobUrl) {
-            onUpdateTrackedJobStatus(jobUrl, newStatus);
+        const jobId = e.dataTransfer.getData("jobId");
+        if(jobId) {
+            onUpdateTrackedJobStatus(jobId, newStatus);
         }
     };
 
@@ -200,6 +212,7 @@ const JobFinder: React.FC<JobFinderProps> = ({ user, onTrackJob, onUpdateTracked
                 <div className="text-center py-8">
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400 mx-auto"></div>
                     <p className="mt-4 text-slate-300">Scanning job boards for you...</p>
+                    <StopGeneratingButton onStop={handleStop} className="mt-4" />
                 </div>
             )}
             
@@ -214,6 +227,7 @@ const JobFinder: React.FC<JobFinderProps> = ({ user, onTrackJob, onUpdateTracked
                                             <h3 className="text-lg font-bold text-cyan-300">{job.title}</h3>
                                             <p className="text-slate-200 font-semibold">{job.company}</p>
                                             <p className="text-sm text-slate-400">{job.location}</p>
+                                            <CitationBadge source={job.source} verified={job.verified} className="mt-1" />
                                         </div>
                                         <div className="flex gap-2 flex-shrink-0">
                                             <button onClick={() => onTrackJob(job)} className="px-3 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"><PlusIcon className="w-4 h-4"/></button>
@@ -248,7 +262,7 @@ const JobFinder: React.FC<JobFinderProps> = ({ user, onTrackJob, onUpdateTracked
                         <KanbanColumn 
                             key={status}
                             status={status}
-                            jobs={(user.trackedJobs || []).filter(j => j.status === status)}
+                            jobs={user.trackedJobs.filter(j => j.status === status)}
                             onDragStart={handleDragStart}
                             onDrop={handleDrop}
                         />
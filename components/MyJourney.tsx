@@ -1,28 +1,51 @@
 import React, { useState, useEffect } from 'react';
-import type { UserProfile, RoadmapStep, UserProject, JobPosting } from '../types';
+import type { UserProfile, RoadmapStep, UserProject, JobPosting, GenerationStatus } from '../types';
 import Card from './common/Card';
 import { ProjectIcon, SparklesIcon, ReloadIcon, BriefcaseIcon, PlusIcon } from './icons';
 import RoadmapDetailModal from './RoadmapDetailModal';
 import ProjectDetailModal from './ProjectDetailModal';
 import { findJobs } from '../services/geminiService';
+import type { AiRequestOptions } from '../services/aiProvider';
+import StopGeneratingButton from './common/StopGeneratingButton';
+import CitationBadge from './common/CitationBadge';
+import ActivityTimeline from './ActivityTimeline';
+import { useAbortController } from '../utils/useAbortController';
 
 interface MyJourneyProps {
   user: UserProfile;
-  onRoadmapToggle: (index: number) => void;
+  onRoadmapToggle: (stepId: string) => void;
   onUpdateProject: (updatedProject: UserProject) => void;
-  onRegenerateRoadmap: (prompt: string) => Promise<void>;
-  onRegenerateProjects: (prompt: string) => Promise<void>;
+  onRegenerateRoadmap: (prompt: string, options?: AiRequestOptions) => Promise<void>;
+  onRegenerateProjects: (prompt: string, options?: AiRequestOptions) => Promise<void>;
   onTrackJob: (job: JobPosting) => void;
+  generation: { roadmap: GenerationStatus; projects: GenerationStatus };
 }
 
-const RoadmapItem: React.FC<{ item: RoadmapStep, index: number, onToggle: (index: number) => void, onSelect: () => void, isLast: boolean }> = ({ item, index, onToggle, onSelect, isLast }) => (
+// Shown under a list while new items are still streaming in, or after the stream stopped early.
+const GenerationProgress: React.FC<{ status: GenerationStatus, itemName: string }> = ({ status, itemName }) => {
+    if (status === 'streaming') {
+        return (
+            <div className="flex items-center gap-3 p-3 rounded-lg border border-dashed border-slate-600 text-sm text-slate-400 animate-pulse">
+                <SparklesIcon className="w-4 h-4 text-teal-400" /> Generating the next {itemName}...
+            </div>
+        );
+    }
+    if (status === 'interrupted') {
+        return (
+            <p className="text-amber-400 text-sm">Generation stopped before it finished. The {itemName}s that arrived have been kept; refine again to get a full set.</p>
+        );
+    }
+    return null;
+};
+
+const RoadmapItem: React.FC<{ item: RoadmapStep, onToggle: (stepId: string) => void, onSelect: () => void, isLast: boolean }> = ({ item, onToggle, onSelect, isLast }) => (
     <div className="flex items-start gap-4 group relative">
         <div className="flex flex-col items-center h-full absolute left-3 top-0 bottom-0 z-0">
             {!isLast && <div className="w-0.5 flex-grow bg-slate-700 mt-8 group-hover:bg-teal-800 transition-colors"></div>}
         </div>
         <div className="flex items-center gap-4 z-10 w-full">
             <button 
-                onClick={(e) => { e.stopPropagation(); onToggle(index); }}
+                onClick={(e) => { e.stopPropagation(); onToggle(item.id); }}
                 className={`w-6 h-6 rounded-full border-2 flex-shrink-0 flex items-center justify-center transition-all bg-slate-800 ${item.completed ? 'bg-teal-600 border-teal-500' : 'border-slate-600 group-hover:border-teal-500'}`}
                 aria-label={item.completed ? `Mark ${item.title} as incomplete` : `Mark ${item.title} as complete`}
             >
@@ -52,14 +75,32 @@ const ProjectItem: React.FC<{ project: UserProject, onSelect: () => void }> = ({
     </Card>
 );
 
-const RefineInput: React.FC<{ onRefine: (prompt: string) => void, placeholder: string }> = ({ onRefine, placeholder }) => {
+const RefineInput: React.FC<{ onRefine: (prompt: string, options?: AiRequestOptions) => Promise<void>, placeholder: string }> = ({ onRefine, placeholder }) => {
     const [prompt, setPrompt] = useState('');
-    const handleRefine = () => {
+    const [error, setError] = useState<string | null>(null);
+    const [isRefining, setIsRefining] = useState(false);
+    const { start, abort } = useAbortController();
+    const handleRefine = async () => {
         if (!prompt.trim()) return;
-        onRefine(prompt);
-        setPrompt('');
+        const signal = start();
+        setError(null);
+        setIsRefining(true);
+        try {
+            await onRefine(prompt, { signal });
+            setPrompt('');
+        } catch (err) {
+            if (signal.aborted) return;
+            console.error("Failed to regenerate:", err);
+            setError('The AI response could not be used, so nothing was changed. Please try again.');
+        }
+        setIsRefining(false);
+    };
+    const handleStop = () => {
+        abort();
+        setIsRefining(false);
     };
     return (
+        <>
         <div className="flex items-center gap-2 mt-1">
             <input 
                 type="text" 
@@ -69,22 +110,36 @@ const RefineInput: React.FC<{ onRefine: (prompt: string) => void, placeholder: s
                 placeholder={placeholder}
                 className="w-full bg-slate-900/70 border border-slate-700 rounded-md p-2 text-sm focus:ring-1 focus:ring-teal-500 focus:outline-none"
             />
-            <button onClick={handleRefine} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-md"><ReloadIcon className="w-5 h-5"/></button>
+            <button onClick={handleRefine} disabled={isRefining} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-md disabled:opacity-50"><ReloadIcon className="w-5 h-5"/></button>
         </div>
+        {isRefining && <StopGeneratingButton onStop={handleStop} className="mt-2" />}
+        {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+        </>
     );
 };
 
 const JobSuggestions: React.FC<{ user: UserProfile, onTrackJob: (job: JobPosting) => void }> = ({ user, onTrackJob }) => {
     const [jobs, setJobs] = useState<JobPosting[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const { start } = useAbortController();
 
-    useEffect(() => {
-        const fetchJobSuggestions = async () => {
-            setIsLoading(true);
-            const suggestedJobs = await findJobs(user.targetRole, '');
+    const fetchJobSuggestions = async (refresh = false) => {
+        const signal = start();
+        setIsLoading(true);
+        setError(null);
+        try {
+            const suggestedJobs = await findJobs(user.targetRole, '', { refresh, signal });
             setJobs(suggestedJobs.slice(0, 3)); // Show top 3 suggestions
-            setIsLoading(false);
-        };
+        } catch (err) {
+            if (signal.aborted) return;
+            console.error(err);
+            setError('Could not load job suggestions right now.');
+        }
+        setIsLoading(false);
+    };
+
+    useEffect(() => {
         fetchJobSuggestions();
     }, [user.targetRole]);
 
@@ -94,17 +149,25 @@ const JobSuggestions: React.FC<{ user: UserProfile, onTrackJob: (job: JobPosting
 
     return (
         <Card>
-            <h2 className="text-2xl font-bold flex items-center gap-3 text-slate-100"><BriefcaseIcon /> Job Suggestions</h2>
+            <div className="flex justify-between items-center">
+                <h2 className="text-2xl font-bold flex items-center gap-3 text-slate-100"><BriefcaseIcon /> Job Suggestions</h2>
+                <button onClick={() => fetchJobSuggestions(true)} disabled={isLoading} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50" title="Search again for the latest postings">
+                    <ReloadIcon className="w-5 h-5" />
+                </button>
+            </div>
             <p className="text-sm text-slate-400 mt-1">Relevant opportunities based on your target role.</p>
             <div className="mt-4 space-y-3">
                 {isLoading ? (
                     <p className="text-slate-400 text-center py-4">Finding relevant jobs for you...</p>
+                ) : error ? (
+                    <p className="text-red-400 text-center py-4">{error}</p>
                 ) : jobs.length > 0 ? (
                     jobs.map(job => (
                         <div key={job.url} className="bg-slate-900/50 p-3 rounded-lg flex justify-between items-center gap-2">
                            <div>
                                 <a href={job.url} target="_blank" rel="noopener noreferrer" className="font-semibold text-slate-200 hover:text-teal-300 transition-colors">{job.title}</a>
                                 <p className="text-sm text-slate-400">{job.company}</p>
+                                <CitationBadge source={job.source} verified={job.verified} />
                            </div>
                             <button 
                                 onClick={() => onTrackJob(job)} 
@@ -125,9 +188,11 @@ const JobSuggestions: React.FC<{ user: UserProfile, onTrackJob: (job: JobPosting
 };
 
 
-const MyJourney: React.FC<MyJourneyProps> = ({ user, onRoadmapToggle, onUpdateProject, onRegenerateRoadmap, onRegenerateProjects, onTrackJob }) => {
+const MyJourney: React.FC<MyJourneyProps> = ({ user, onRoadmapToggle, onUpdateProject, onRegenerateRoadmap, onRegenerateProjects, onTrackJob, generation }) => {
     const [selectedRoadmapStep, setSelectedRoadmapStep] = useState<RoadmapStep | null>(null);
-    const [selectedProject, setSelectedProject] = useState<UserProject | null>(null);
+    const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+    // Looked up on every render so the modal always shows the latest saved version of the project.
+    const selectedProject = user.projects.find(p => p.id === selectedProjectId);
 
     return (
         <div className="p-4 sm:p-6 md:p-8 space-y-8">
@@ -142,10 +207,11 @@ const MyJourney: React.FC<MyJourneyProps> = ({ user, onRoadmapToggle, onUpdatePr
                         <h2 className="text-2xl font-bold flex items-center gap-3 text-slate-100"><SparklesIcon className="w-7 h-7 text-teal-400" /> AI-Generated Roadmap</h2>
                         <RefineInput onRefine={onRegenerateRoadmap} placeholder="e.g., focus more on backend skills..." />
                         <div className="mt-6 flex flex-col gap-2 relative">
-                            {(user.roadmap || []).map((item, index) => (
-                                <RoadmapItem key={index} item={item} index={index} onToggle={onRoadmapToggle} isLast={index === (user.roadmap || []).length - 1} onSelect={() => setSelectedRoadmapStep(item)}/>
+                            {user.roadmap.map((item, index) => (
+                                <RoadmapItem key={item.id} item={item} onToggle={onRoadmapToggle} isLast={index === user.roadmap.length - 1} onSelect={() => setSelectedRoadmapStep(item)}/>
                             ))}
-                             {(user.roadmap || []).length === 0 && <p className="text-center text-slate-400 py-4">No roadmap steps generated yet.</p>}
+                             <GenerationProgress status={generation.roadmap} itemName="step" />
+                             {user.roadmap.length === 0 && generation.roadmap !== 'streaming' && <p className="text-center text-slate-400 py-4">No roadmap steps generated yet.</p>}
                         </div>
                     </Card>
                     <JobSuggestions user={user} onTrackJob={onTrackJob} />
@@ -156,19 +222,22 @@ const MyJourney: React.FC<MyJourneyProps> = ({ user, onRoadmapToggle, onUpdatePr
                     <h2 className="text-2xl font-bold flex items-center gap-3 text-slate-100"><ProjectIcon /> Suggested Projects</h2>
                     <RefineInput onRefine={onRegenerateProjects} placeholder="e.g., suggest projects using React..." />
                     <div className="mt-4 space-y-4">
-                        {(user.projects || []).map(p => (
-                            <ProjectItem key={p.title} project={p} onSelect={() => setSelectedProject(p)} />
+                        {user.projects.map(p => (
+                            <ProjectItem key={p.id} project={p} onSelect={() => setSelectedProjectId(p.id)} />
                         ))}
-                         {(user.projects || []).length === 0 && <p className="text-center text-slate-400 py-4">No projects suggested yet.</p>}
+                         <GenerationProgress status={generation.projects} itemName="project" />
+                         {user.projects.length === 0 && generation.projects !== 'streaming' && <p className="text-center text-slate-400 py-4">No projects suggested yet.</p>}
                     </div>
                 </Card>
             </div>
+
+            <ActivityTimeline log={user.activityLog} />
             
             {selectedRoadmapStep && (
                 <RoadmapDetailModal roadmapStep={selectedRoadmapStep} onClose={() => setSelectedRoadmapStep(null)} />
             )}
             {selectedProject && (
-                <ProjectDetailModal project={selectedProject} onClose={() => setSelectedProject(null)} onUpdateProject={onUpdateProject} />
+                <ProjectDetailModal project={selectedProject} onClose={() => setSelectedProjectId(null)} onUpdateProject={onUpdateProject} />
             )}
         </div>
     );
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { SparklesIcon } from './icons';
+import OutgoingTextPreview from './common/OutgoingTextPreview';
+import { prepareOutgoingText } from '../utils/untrustedText';
 
 interface OnboardingProps {
   onComplete: (interests: string, resume: string, targetRole: string, githubUrl: string, linkedinUrl: string, age: number, profession: string, educationLevel: string) => void;
@@ -20,6 +22,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, isLoading }) => {
   const [interests, setInterests] = useState('');
   const [targetRole, setTargetRole] = useState('Marketing Manager');
   const [resume, setResume] = useState('');
+  const [redactPersonalInfo, setRedactPersonalInfo] = useState(true);
   const [githubUrl, setGithubUrl] = useState('');
   const [linkedinUrl, setLinkedinUrl] = useState('');
   const [age, setAge] = useState<number | ''>('');
@@ -40,7 +43,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, isLoading }) => {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (isLoading || typeof age !== 'number') return;
-    onComplete(interests, resume, targetRole, githubUrl, linkedinUrl, age, profession, educationLevel);
+    onComplete(interests, prepareOutgoingText(resume, redactPersonalInfo), targetRole, githubUrl, linkedinUrl, age, profession, educationLevel);
   };
 
   return (
@@ -167,6 +170,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, isLoading }) => {
                         className="w-full bg-slate-900/70 border border-slate-700 rounded-md p-3 mt-1 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
                         placeholder="Paste your resume here, or list your skills, projects, and work experience..."
                     />
+                    <OutgoingTextPreview text={resume} redact={redactPersonalInfo} onRedactChange={setRedactPersonalInfo} />
                     <div className="flex gap-4 mt-8">
                         <button type="button" onClick={() => setStep(1)} className="w-full px-6 py-3 font-semibold text-white bg-slate-600 rounded-lg hover:bg-slate-700 transition-colors">
                             Back
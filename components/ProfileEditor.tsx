@@ -1,14 +1,34 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import type { UserProfile, SkillGap } from '../types';
 import Card from './common/Card';
-import { UserIcon, GithubIcon, LinkedInIcon, TrashIcon, PlusIcon } from './icons';
+import { UserIcon, GithubIcon, LinkedInIcon, TrashIcon, PlusIcon, DownloadIcon } from './icons';
+import { invalidateAiCache } from '../services/aiCache';
+import { buildProfileExport, parseProfileExport, applyProfileImport, countImportedItems } from '../services/profileExport';
+import { APPEND_ONLY_LISTS } from '../services/profileTables';
+import type { ImportMode, ImportPreview } from '../services/profileExport';
+import type { ProfileList } from '../services/profileTables';
 
 interface ProfileEditorProps {
     user: UserProfile;
     onUpdateProfile: (profileUpdate: Partial<UserProfile>) => void;
+    onImportProfile: (profile: UserProfile, mode: ImportMode) => Promise<void>;
 }
 
-const ProfileEditor: React.FC<ProfileEditorProps> = ({ user, onUpdateProfile }) => {
+const LIST_NAMES: Record<string, string> = {
+    skills: 'Skills',
+    roadmap: 'Roadmap steps',
+    projects: 'Projects',
+    trackedJobs: 'Tracked jobs',
+    interviewHistory: 'Interview sessions',
+    voiceMentorHistory: 'Voice sessions',
+    quizHistory: 'Quizzes',
+    smartChatHistory: 'Chats',
+    activityLog: 'Activity events',
+    xpLedger: 'XP transactions',
+    quests: 'Weekly quests and goals',
+};
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ user, onUpdateProfile, onImportProfile }) => {
     const [name, setName] = useState(user.name);
     const [age, setAge] = useState(user.age);
     const [profession, setProfession] = useState(user.profession);
@@ -23,6 +43,13 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ user, onUpdateProfile })
 
     const [isSaving, setIsSaving] = useState(false);
     const [successMessage, setSuccessMessage] = useState('');
+    const [cacheMessage, setCacheMessage] = useState('');
+
+    const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+    const [importMode, setImportMode] = useState<ImportMode>('merge');
+    const [isImporting, setIsImporting] = useState(false);
+    const [dataMessage, setDataMessage] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
     const handleSkillProficiencyChange = (index: number, proficiency: SkillGap['proficiency']) => {
         const updatedSkills = [...skills];
@@ -37,6 +64,7 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ user, onUpdateProfile })
     const handleAddSkill = () => {
         if (newSkillName.trim() && !skills.some(s => s.name.toLowerCase() === newSkillName.trim().toLowerCase())) {
             const newSkill: SkillGap = {
+                id: crypto.randomUUID(),
                 name: newSkillName.trim(),
                 proficiency: newSkillProficiency,
                 category: ['Custom'], // Default category
@@ -76,6 +104,68 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ user, onUpdateProfile })
         }
     };
     
+    const handleClearAiCache = async () => {
+        await invalidateAiCache();
+        setCacheMessage('Saved AI results cleared. Job, course, trend and quiz topic searches will run fresh next time.');
+        setTimeout(() => setCacheMessage(''), 5000);
+    };
+
+    const handleExport = () => {
+        const { fileName, json } = buildProfileExport(user);
+        const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setDataMessage('');
+        try {
+            setImportPreview(parseProfileExport(await file.text()));
+            setImportMode('merge');
+        } catch (error: any) {
+            setImportPreview(null);
+            setDataMessage(`Error: ${error.message}`);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!importPreview) return;
+        if (importMode === 'replace' && !window.confirm('Replace your whole profile, including your roadmap, projects and history, with the imported one? This cannot be undone.')) {
+            return;
+        }
+        setIsImporting(true);
+        try {
+            const imported = applyProfileImport(user, importPreview.profile, importMode);
+            await onImportProfile(imported, importMode);
+            // The form would otherwise still show, and save back, the details from before the import.
+            setName(imported.name);
+            setAge(imported.age);
+            setProfession(imported.profession);
+            setEducationLevel(imported.educationLevel);
+            setTargetRole(imported.targetRole);
+            setGithubUrl(imported.githubUrl || '');
+            setLinkedinUrl(imported.linkedinUrl || '');
+            setSkills(imported.skills);
+            setImportPreview(null);
+            setDataMessage(importMode === 'replace' ? 'Your profile was replaced with the imported one.' : 'The imported data was added to your profile.');
+        } catch (error) {
+            console.error('Failed to import profile:', error);
+            setDataMessage('Error: Could not import the profile.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const importCounts = importPreview ? countImportedItems(user, importPreview.profile, importMode) : null;
+
     const hasChanges = name !== user.name ||
                        age !== user.age ||
                        profession !== user.profession ||
@@ -162,6 +252,65 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ user, onUpdateProfile })
                     </div>
                 </Card>
 
+                <Card className="mt-8">
+                    <h3 className="text-xl font-bold text-slate-100 mb-2">Saved AI Results</h3>
+                    <p className="text-sm text-slate-400">Job suggestions, course searches, industry trends and quiz topics are saved on this device for a while to keep the app fast.</p>
+                    <button type="button" onClick={handleClearAiCache} className="mt-4 inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">
+                        <TrashIcon className="w-4 h-4"/> Clear saved results
+                    </button>
+                    {cacheMessage && <p className="text-green-400 text-sm mt-3">{cacheMessage}</p>}
+                </Card>
+
+                <Card className="mt-8">
+                    <h3 className="text-xl font-bold text-slate-100 mb-2">Your Data</h3>
+                    <p className="text-sm text-slate-400">Download your whole profile and history as a JSON file, or import one to restore a backup or move your data between accounts.</p>
+                    <div className="mt-4 flex flex-wrap gap-2">
+                        <button type="button" onClick={handleExport} className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">
+                            <DownloadIcon className="w-4 h-4"/> Export as JSON
+                        </button>
+                        <button type="button" onClick={() => fileInputRef.current?.click()} className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">
+                            <PlusIcon className="w-4 h-4"/> Import from file
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+                    </div>
+
+                    {importPreview && importCounts && (
+                        <div className="mt-4 p-4 bg-slate-900/50 rounded-lg space-y-3">
+                            <div>
+                                <p className="font-semibold text-slate-200">{importPreview.profile.name} · {importPreview.profile.targetRole}</p>
+                                <p className="text-xs text-slate-500">
+                                    {importPreview.exportedAt && `Exported ${new Date(importPreview.exportedAt).toLocaleString()}`}
+                                    {importPreview.upgradedFrom !== undefined && ` · Upgraded from an older format (version ${importPreview.upgradedFrom})`}
+                                </p>
+                            </div>
+                            <div className="flex gap-4 text-sm">
+                                <label className="flex items-center gap-2"><input type="radio" checked={importMode === 'merge'} onChange={() => setImportMode('merge')} /> Add to my profile</label>
+                                <label className="flex items-center gap-2"><input type="radio" checked={importMode === 'replace'} onChange={() => setImportMode('replace')} /> Replace my profile</label>
+                            </div>
+                            <p className="text-xs text-slate-400">
+                                {importMode === 'merge'
+                                    ? 'Keeps your details and progress and adds the items below that you don\'t have yet.'
+                                    : 'Your details, progress, lists and history will be exactly what is in the file.'}
+                            </p>
+                            <ul className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                                {Object.entries(importCounts).map(([field, count]) => (
+                                    <li key={field} className="flex justify-between text-slate-300">
+                                        <span>{LIST_NAMES[field]}</span>
+                                        <span className="text-slate-400">{importMode === 'merge' || APPEND_ONLY_LISTS.includes(field as ProfileList) ? `+${count}` : count}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                            <div className="flex gap-2 justify-end">
+                                <button type="button" onClick={() => setImportPreview(null)} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Cancel</button>
+                                <button type="button" onClick={handleImport} disabled={isImporting} className="px-4 py-2 text-sm font-semibold bg-teal-600 hover:bg-teal-500 disabled:opacity-50 rounded-md transition-colors">
+                                    {isImporting ? 'Importing...' : 'Import'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                    {dataMessage && <p className={`text-sm mt-3 ${dataMessage.startsWith('Error') ? 'text-red-400' : 'text-green-400'}`}>{dataMessage}</p>}
+                </Card>
+
                 <div className="mt-8 text-right">
                     {successMessage && <p className="text-green-400 text-sm mb-3 text-center p-3 bg-green-500/10 border border-green-500/20 rounded-lg">{successMessage}</p>}
                     <button type="submit" disabled={!hasChanges || isSaving} className="w-full md:w-auto inline-flex items-center justify-center gap-2 px-8 py-3 font-semibold text-white bg-gradient-to-r from-teal-500 to-cyan-600 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity shadow-lg">
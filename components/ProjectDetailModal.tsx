@@ -3,6 +3,8 @@ import type { UserProject, ProjectStep } from '../types';
 import Card from './common/Card';
 import { generateProjectPlan } from '../services/geminiService';
 import { SparklesIcon } from './icons';
+import { useAbortController } from '../utils/useAbortController';
+import { projectXp } from '../services/gamificationRules';
 
 interface ProjectDetailModalProps {
   project: UserProject;
@@ -13,22 +15,29 @@ interface ProjectDetailModalProps {
 const ProjectDetailModal: React.FC<ProjectDetailModalProps> = ({ project, onClose, onUpdateProject }) => {
     const [isGeneratingPlan, setIsGeneratingPlan] = useState(false);
     const [notes, setNotes] = useState(project.notes || '');
+    const { start } = useAbortController();
 
     useEffect(() => {
         setNotes(project.notes || '');
     }, [project.notes]);
 
     const handleGeneratePlan = async () => {
+        const signal = start();
         setIsGeneratingPlan(true);
-        const plan = await generateProjectPlan(project.title, project.description);
+        let plan: ProjectStep[];
+        try {
+            plan = await generateProjectPlan(project.title, project.description, { signal });
+        } catch {
+            // generateProjectPlan only throws when cancelled, i.e. the modal was closed.
+            return;
+        }
         onUpdateProject({ ...project, projectPlan: plan, notes });
         setIsGeneratingPlan(false);
     };
     
-    const handleStepToggle = (index: number) => {
+    const handleStepToggle = (stepId: string) => {
         if (!project.projectPlan) return;
-        const newPlan = [...project.projectPlan];
-        newPlan[index].completed = !newPlan[index].completed;
+        const newPlan = project.projectPlan.map(step => step.id === stepId ? { ...step, completed: !step.completed } : step);
         onUpdateProject({ ...project, projectPlan: newPlan, notes });
     };
 
@@ -52,7 +61,7 @@ const ProjectDetailModal: React.FC<ProjectDetailModalProps> = ({ project, onClos
                     <span className={`text-sm font-semibold px-3 py-1 rounded-full ${project.difficulty === 'Easy' ? 'bg-green-500/20 text-green-300' : project.difficulty === 'Medium' ? 'bg-yellow-500/20 text-yellow-300' : 'bg-red-500/20 text-red-300'}`}>
                         {project.difficulty}
                     </span>
-                    <span className="text-amber-400 font-bold">{project.xp} XP</span>
+                    <span className="text-amber-400 font-bold">{projectXp(project)} XP</span>
                 </div>
             </div>
             <button onClick={onClose} className="text-2xl text-slate-400 hover:text-white">&times;</button>
@@ -90,12 +99,12 @@ const ProjectDetailModal: React.FC<ProjectDetailModalProps> = ({ project, onClos
                 </div>
             ) : (
                 <div className="space-y-2">
-                    {project.projectPlan.map((step, index) => (
-                        <div key={index} className="flex items-start gap-3 p-3 bg-slate-900/50 rounded-md">
+                    {project.projectPlan.map(step => (
+                        <div key={step.id} className="flex items-start gap-3 p-3 bg-slate-900/50 rounded-md">
                            <input 
                                 type="checkbox" 
                                 checked={step.completed} 
-                                onChange={() => handleStepToggle(index)}
+                                onChange={() => handleStepToggle(step.id)}
                                 className="mt-1.5 w-5 h-5 bg-slate-700 border-slate-600 rounded text-teal-500 focus:ring-teal-600"
                             />
                             <div>
@@ -4,6 +4,10 @@ import type { ResumeFeedback as ResumeFeedbackType, UserProfile } from '../types
 import Card from './common/Card';
 import { SparklesIcon, ResumeIcon } from './icons';
 import ResumePreview from './ResumePreview';
+import StopGeneratingButton from './common/StopGeneratingButton';
+import { useAbortController } from '../utils/useAbortController';
+import OutgoingTextPreview from './common/OutgoingTextPreview';
+import { prepareOutgoingText } from '../utils/untrustedText';
 
 const FeedbackSection: React.FC<{section: ResumeFeedbackType['feedbackSections'][0], scoreColor: (score: number) => string}> = ({ section, scoreColor }) => {
     const [isOpen, setIsOpen] = useState(true);
@@ -34,30 +38,39 @@ const FeedbackSection: React.FC<{section: ResumeFeedbackType['feedbackSections']
 
 const ResumeAnalyzer: React.FC = () => {
     const [resumeText, setResumeText] = useState('');
+    const [redactPersonalInfo, setRedactPersonalInfo] = useState(true);
     const [targetRole, setTargetRole] = useState('Junior Software Engineer');
     const [feedback, setFeedback] = useState<ResumeFeedbackType | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
     const [viewMode, setViewMode] = useState<'editor' | 'preview'>('editor');
+    const { start, abort } = useAbortController();
 
     const handleSubmit = async () => {
         if (!resumeText.trim() || !targetRole.trim()) {
             setError('Please paste your resume and specify a target role.');
             return;
         }
+        const signal = start();
         setIsLoading(true);
         setError('');
         setFeedback(null);
         try {
-            const result = await getResumeFeedback(resumeText, targetRole);
+            const result = await getResumeFeedback(prepareOutgoingText(resumeText, redactPersonalInfo), targetRole, { signal });
             setFeedback(result);
         } catch (err) {
+            if (signal.aborted) return;
             setError('Failed to get feedback from AI. Please try again later.');
             console.error(err);
         }
         setIsLoading(false);
     };
 
+    const handleStop = () => {
+        abort();
+        setIsLoading(false);
+    };
+
     const scoreColor = (score: number) => {
         if (score >= 8) return 'text-green-400';
         if (score >= 5) return 'text-yellow-400';
@@ -99,6 +112,7 @@ const ResumeAnalyzer: React.FC = () => {
                         ) : (
                             <ResumePreview resumeText={resumeText} />
                         )}
+                        <OutgoingTextPreview text={resumeText} redact={redactPersonalInfo} onRedactChange={setRedactPersonalInfo} />
                     </div>
                     <div className="md:col-span-2 text-center">
                          {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
@@ -118,6 +132,7 @@ const ResumeAnalyzer: React.FC = () => {
                 <div className="text-center py-8">
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-400 mx-auto"></div>
                     <p className="mt-4 text-slate-300">Our AI is scanning your resume... this might take a moment!</p>
+                    <StopGeneratingButton onStop={handleStop} className="mt-4" />
                 </div>
             )}
             
@@ -168,10 +183,23 @@ const ResumeBuilder: React.FC<{user: UserProfile}> = ({ user }) => {
         setIncludedSections(prev => ({ ...prev, [section]: !prev[section] }));
     };
 
+    const { start, abort } = useAbortController();
+
     const handleGenerate = async () => {
+        const signal = start();
         setIsLoading(true);
-        const resumeMarkdown = await buildResume(user, includedSections);
-        setGeneratedResume(resumeMarkdown);
+        try {
+            const resumeMarkdown = await buildResume(user, includedSections, { signal });
+            setGeneratedResume(resumeMarkdown);
+        } catch {
+            // buildResume only throws when cancelled.
+            return;
+        }
+        setIsLoading(false);
+    };
+
+    const handleStop = () => {
+        abort();
         setIsLoading(false);
     };
 
@@ -228,6 +256,7 @@ const ResumeBuilder: React.FC<{user: UserProfile}> = ({ user }) => {
                  <div className="text-center py-8">
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-400 mx-auto"></div>
                     <p className="mt-4 text-slate-300">Crafting your resume based on your journey...</p>
+                    <StopGeneratingButton onStop={handleStop} className="mt-4" />
                 </div>
             )}
             
@@ -24,7 +24,7 @@ const SkillDetailModal: React.FC<SkillDetailModalProps> = ({ skill, relatedRoadm
             <div>
                 <h2 className="text-2xl font-bold text-teal-300">{skill.name}</h2>
                 {/* FIX: Use .join() on the category array to render it as a string and avoid an arithmetic type error. */}
-                <p className="text-slate-400 font-semibold">{(Array.isArray(skill.category) ? skill.category.join(' / ') : skill.category) || 'Uncategorized'} - {skill.proficiency}</p>
+                <p className="text-slate-400 font-semibold">{skill.category.join(' / ') || 'Uncategorized'} - {skill.proficiency}</p>
             </div>
             <button onClick={onClose} className="text-2xl text-slate-400 hover:text-white">&times;</button>
         </div>
@@ -36,7 +36,7 @@ const SkillDetailModal: React.FC<SkillDetailModalProps> = ({ skill, relatedRoadm
                     <h3 className="font-bold text-lg text-slate-200 mb-2">Related Roadmap Steps</h3>
                     <ul className="space-y-2">
                         {relatedRoadmapSteps.map(step => (
-                            <li key={step.title} className="p-3 bg-slate-900/50 rounded-md">
+                            <li key={step.id} className="p-3 bg-slate-900/50 rounded-md">
                                <p className="font-semibold text-slate-100">{step.title}</p>
                                <p className="text-sm text-slate-400">{step.milestoneProject}</p>
                             </li>
@@ -50,7 +50,7 @@ const SkillDetailModal: React.FC<SkillDetailModalProps> = ({ skill, relatedRoadm
                     <h3 className="font-bold text-lg text-slate-200 mb-2 flex items-center gap-2"><ProjectIcon className="w-5 h-5"/> Related Projects</h3>
                     <ul className="space-y-2">
                         {relatedProjects.map(project => (
-                             <li key={project.title} className="p-3 bg-slate-900/50 rounded-md">
+                             <li key={project.id} className="p-3 bg-slate-900/50 rounded-md">
                                <p className="font-semibold text-slate-100">{project.title} <span className="text-xs font-normal text-slate-500">({project.difficulty})</span></p>
                                <p className="text-sm text-slate-400 line-clamp-1">{project.description}</p>
                             </li>
@@ -9,7 +9,7 @@ interface TrendWatcherProps {
 }
 
 const TrendWatcher: React.FC<TrendWatcherProps> = ({ user, onUpdateTrends }) => {
-    const [trends, setTrends] = useState<Trend[]>(user.trends || []);
+    const [trends, setTrends] = useState<Trend[]>(user.trends);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [activeTab, setActiveTab] = useState<TrendType>('Current');
@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import Card from './common/Card';
+import ProgressBar from './common/ProgressBar';
+import { ChartBarIcon } from './icons';
+import {
+    getAiUsage,
+    getAiUsageBudget,
+    setAiUsageBudget,
+    getTodaysCost,
+    subscribeToAiUsage,
+    AiUsageRecord,
+    AiUsageBudget,
+} from '../services/aiUsage';
+
+const DAYS_SHOWN = 14;
+
+const formatCost = (cost: number) => cost < 0.01 && cost > 0 ? '<$0.01' : `$${cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+const totalTokens = (r: AiUsageRecord) => r.promptTokens + r.outputTokens + r.thinkingTokens;
+
+interface UsageTotals {
+    requests: number;
+    tokens: number;
+    cost: number;
+}
+
+const sumBy = (records: AiUsageRecord[], keyOf: (r: AiUsageRecord) => string): [string, UsageTotals][] => {
+    const totals = new Map<string, UsageTotals>();
+    for (const r of records) {
+        const key = keyOf(r);
+        const current = totals.get(key) || { requests: 0, tokens: 0, cost: 0 };
+        totals.set(key, { requests: current.requests + r.requests, tokens: current.tokens + totalTokens(r), cost: current.cost + r.estimatedCost });
+    }
+    return Array.from(totals.entries());
+};
+
+const UsageDashboard: React.FC = () => {
+    const [records, setRecords] = useState<AiUsageRecord[]>(getAiUsage());
+    const [budget, setBudget] = useState<AiUsageBudget>(getAiUsageBudget());
+    const [todaysCost, setTodaysCost] = useState(getTodaysCost());
+    const [limitInput, setLimitInput] = useState(budget.dailyCostLimit?.toString() || '');
+    const [action, setAction] = useState<AiUsageBudget['action']>(budget.action);
+    const [savedMessage, setSavedMessage] = useState('');
+
+    useEffect(() => subscribeToAiUsage(() => {
+        setRecords(getAiUsage());
+        setBudget(getAiUsageBudget());
+        setTodaysCost(getTodaysCost());
+    }), []);
+
+    const handleSaveBudget = (e: React.FormEvent) => {
+        e.preventDefault();
+        const limit = parseFloat(limitInput);
+        setAiUsageBudget({ dailyCostLimit: limitInput.trim() && limit > 0 ? limit : null, action });
+        setSavedMessage('Budget saved.');
+        setTimeout(() => setSavedMessage(''), 3000);
+    };
+
+    const daily = sumBy(records, r => r.date).sort(([a], [b]) => b.localeCompare(a)).slice(0, DAYS_SHOWN);
+    const byFeature = sumBy(records, r => r.feature).sort(([, a], [, b]) => b.cost - a.cost);
+    const byModel = sumBy(records, r => r.model).sort(([, a], [, b]) => b.cost - a.cost);
+    const isOver = budget.dailyCostLimit !== null && todaysCost >= budget.dailyCostLimit;
+
+    return (
+        <div className="max-w-6xl mx-auto p-4 sm:p-8 space-y-8">
+            <header className="text-center">
+                <h1 className="text-3xl font-bold flex items-center justify-center gap-3"><ChartBarIcon /> AI Usage</h1>
+                <p className="text-slate-400 mt-1">Token usage and estimated cost of AI requests made on this device over the last 90 days.</p>
+            </header>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <Card>
+                    <h2 className="text-xl font-bold text-slate-100 mb-4">Today</h2>
+                    <p className="text-4xl font-bold text-teal-300">{formatCost(todaysCost)}</p>
+                    <p className="text-sm text-slate-400 mt-1">Estimated from published list prices. Your actual bill may differ.</p>
+                    {budget.dailyCostLimit !== null && (
+                        <div className="mt-6">
+                            <ProgressBar value={Number(todaysCost.toFixed(2))} max={budget.dailyCostLimit} label="Daily budget" colorClass={isOver ? 'bg-red-500' : 'bg-teal-500'} />
+                            {isOver && (
+                                <p className="text-sm text-red-400 mt-3">
+                                    {budget.action === 'downgrade'
+                                        ? "Today's budget is spent. Requests now use cheaper models without deep thinking."
+                                        : "Today's budget is spent. AI features keep working, but consider pausing heavy features like deep-mode chat."}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </Card>
+
+                <Card>
+                    <h2 className="text-xl font-bold text-slate-100 mb-4">Daily Budget</h2>
+                    <form onSubmit={handleSaveBudget} className="space-y-4">
+                        <div>
+                            <label htmlFor="dailyLimit" className="block text-sm font-medium text-slate-300 mb-1">Soft limit per day (USD)</label>
+                            <input id="dailyLimit" type="number" min="0" step="0.01" value={limitInput} placeholder="No limit" onChange={e => setLimitInput(e.target.value)} className="w-full bg-slate-900/70 border border-slate-700 rounded-md p-2.5 focus:ring-2 focus:ring-teal-500 focus:outline-none" />
+                        </div>
+                        <div>
+                            <label htmlFor="budgetAction" className="block text-sm font-medium text-slate-300 mb-1">When the limit is reached</label>
+                            <select id="budgetAction" value={action} onChange={e => setAction(e.target.value as AiUsageBudget['action'])} className="w-full bg-slate-900/70 border border-slate-700 rounded-md p-2.5 focus:ring-2 focus:ring-teal-500 focus:outline-none">
+                                <option value="warn">Warn me</option>
+                                <option value="downgrade">Switch to cheaper models</option>
+                            </select>
+                        </div>
+                        <div className="flex items-center gap-4">
+                            <button type="submit" className="px-6 py-2.5 font-semibold text-white bg-teal-600 hover:bg-teal-700 rounded-lg transition-colors">Save Budget</button>
+                            {savedMessage && <span className="text-green-400 text-sm">{savedMessage}</span>}
+                        </div>
+                    </form>
+                </Card>
+            </div>
+
+            <Card>
+                <h2 className="text-xl font-bold text-slate-100 mb-4">Daily Totals</h2>
+                {daily.length === 0 ? <p className="text-slate-400">No AI requests recorded yet.</p> : (
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-slate-400 border-b border-slate-700">
+                            <tr><th className="py-2">Date</th><th className="py-2 text-right">Requests</th><th className="py-2 text-right">Tokens</th><th className="py-2 text-right">Est. Cost</th></tr>
+                        </thead>
+                        <tbody>
+                            {daily.map(([date, totals]) => (
+                                <tr key={date} className="border-b border-slate-800 text-slate-200">
+                                    <td className="py-2">{new Date(`${date}T00:00:00`).toLocaleDateString()}</td>
+                                    <td className="py-2 text-right">{totals.requests}</td>
+                                    <td className="py-2 text-right">{formatTokens(totals.tokens)}</td>
+                                    <td className="py-2 text-right">{formatCost(totals.cost)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {[{ title: 'By Feature', rows: byFeature }, { title: 'By Model', rows: byModel }].map(({ title, rows }) => (
+                    <Card key={title}>
+                        <h2 className="text-xl font-bold text-slate-100 mb-4">{title}</h2>
+                        {rows.length === 0 ? <p className="text-slate-400">Nothing to show yet.</p> : (
+                            <ul className="space-y-2">
+                                {rows.map(([name, totals]) => (
+                                    <li key={name} className="flex justify-between items-center p-2 bg-slate-900/50 rounded-lg text-sm">
+                                        <span className="font-medium text-slate-200">{name}</span>
+                                        <span className="text-slate-400">{totals.requests} req · {formatTokens(totals.tokens)} tokens · <span className="text-teal-300">{formatCost(totals.cost)}</span></span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </Card>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default UsageDashboard;
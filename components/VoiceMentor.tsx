@@ -1,17 +1,14 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-// FIX: Removed `LiveSession` as it's not an exported member of the module.
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
 import { decode, encode, decodeAudioData } from '../utils/audioUtils';
 import type { UserProfile, VoiceSession } from '../types';
 import Card from './common/Card';
 import { summarizeVoiceSession } from '../services/geminiService';
+import { getAiProvider, AiLiveEvent, AiLiveSession } from '../services/aiProvider';
+import { resolvePromptRef } from '../services/promptRegistry';
+import { buildAiFeatureRequest } from '../services/aiFeatureRequests';
+import { PROMPTS } from '../services/promptTemplates';
 import { HistoryIcon } from './icons';
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) throw new Error("API_KEY environment variable not set");
-// FIX: Correctly instantiate GoogleGenAI with a named apiKey parameter as per the guidelines.
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
 type Status = 'IDLE' | 'CONNECTING' | 'LISTENING' | 'SPEAKING' | 'ERROR';
 type View = 'live' | 'history';
 
@@ -21,8 +18,7 @@ const VoiceMentor: React.FC<{ user: UserProfile, onSaveSession: (session: VoiceS
     const [view, setView] = useState<View>('live');
     const [transcript, setTranscript] = useState<VoiceSession['transcript']>([]);
     
-    // FIX: Used ReturnType to infer the session type from `ai.live.connect` instead of the non-exported `LiveSession`.
-    const sessionPromiseRef = useRef<ReturnType<typeof ai.live.connect> | null>(null);
+    const sessionPromiseRef = useRef<Promise<AiLiveSession> | null>(null);
     const audioContextRef = useRef<AudioContext | null>(null);
     const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
     const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
@@ -54,15 +50,13 @@ const VoiceMentor: React.FC<{ user: UserProfile, onSaveSession: (session: VoiceS
             audioContextRef.current = inputAudioContext;
             const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
 
-            sessionPromiseRef.current = ai.live.connect({
+            const { input, systemInstruction } = buildAiFeatureRequest({ feature: 'voiceMentor', vars: { user } }, user.id);
+            sessionPromiseRef.current = getAiProvider().connectLive({
+                feature: 'voiceMentor',
                 model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' }}},
-                    systemInstruction: `You are an AI Career Mentor for ${user.name}, a ${user.age}-year-old ${user.profession}, who is preparing for a "${user.targetRole}" role. Be encouraging and provide concise, helpful advice relevant to their background.`,
-                    inputAudioTranscription: {},
-                    outputAudioTranscription: {},
-                },
+                voiceName: 'Zephyr',
+                input,
+                systemInstruction,
                 callbacks: {
                     onopen: () => { setStatus('LISTENING');
                         const source = inputAudioContext.createMediaStreamSource(stream);
@@ -71,20 +65,20 @@ const VoiceMentor: React.FC<{ user: UserProfile, onSaveSession: (session: VoiceS
                         scriptProcessorRef.current = scriptProcessor;
                         scriptProcessor.onaudioprocess = (event) => {
                             sessionPromiseRef.current?.then((session) => {
-                                session.sendRealtimeInput({ media: createBlob(event.inputBuffer.getChannelData(0)) });
+                                session.sendAudio(createBlob(event.inputBuffer.getChannelData(0)));
                             });
                         };
                         source.connect(scriptProcessor);
                         scriptProcessor.connect(inputAudioContext.destination);
                     },
-                    onmessage: async (message: LiveServerMessage) => {
-                        if (message.serverContent?.inputTranscription?.text) {
-                            setTranscript(prev => [...prev, { speaker: 'user', text: message.serverContent.inputTranscription.text }]);
+                    onevent: async (event: AiLiveEvent) => {
+                        if (event.inputTranscription) {
+                            setTranscript(prev => [...prev, { speaker: 'user', text: event.inputTranscription }]);
                         }
-                         if (message.serverContent?.outputTranscription?.text) {
-                            setTranscript(prev => [...prev, { speaker: 'model', text: message.serverContent.outputTranscription.text }]);
+                         if (event.outputTranscription) {
+                            setTranscript(prev => [...prev, { speaker: 'model', text: event.outputTranscription }]);
                         }
-                        const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+                        const audioData = event.audio;
                         if (audioData) {
                             setStatus('SPEAKING');
                             const audioBuffer = await decodeAudioData(decode(audioData), outputAudioContext, 24000, 1);
@@ -120,7 +114,13 @@ const VoiceMentor: React.FC<{ user: UserProfile, onSaveSession: (session: VoiceS
     const stopSession = async () => {
         if (transcript.length > 0) {
             const summary = await summarizeVoiceSession(transcript, user);
-            onSaveSession({ date: new Date().toISOString(), transcript, keyTakeaways: summary });
+            onSaveSession({
+                id: crypto.randomUUID(),
+                date: new Date().toISOString(),
+                transcript,
+                keyTakeaways: summary,
+                prompts: [resolvePromptRef(PROMPTS.voiceMentor, user.id), resolvePromptRef(PROMPTS.voiceSummary, user.id)],
+            });
         }
         if (sessionPromiseRef.current) {
             try {
@@ -136,7 +136,7 @@ const VoiceMentor: React.FC<{ user: UserProfile, onSaveSession: (session: VoiceS
 
     useEffect(() => { return () => { stopSession(); }; }, []);
 
-    const createBlob = (data: Float32Array): Blob => {
+    const createBlob = (data: Float32Array): { data: string; mimeType: string } => {
         const int16 = new Int16Array(data.length);
         for (let i = 0; i < data.length; i++) { int16[i] = data[i] * 32768; }
         return { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' };
@@ -161,8 +161,8 @@ const VoiceMentor: React.FC<{ user: UserProfile, onSaveSession: (session: VoiceS
                      <h1 className="text-3xl font-bold flex items-center gap-3"><HistoryIcon /> Voice Mentor History</h1>
                      <button onClick={() => setView('live')} className="px-4 py-2 font-semibold bg-slate-600 hover:bg-slate-700 rounded-lg transition-colors">Back</button>
                 </header>
-                 {(user.voiceMentorHistory || []).length > 0 ? (user.voiceMentorHistory || []).map(session => (
-                    <Card key={session.date}>
+                 {user.voiceMentorHistory.length > 0 ? user.voiceMentorHistory.map(session => (
+                    <Card key={session.id}>
                         <p className="text-sm text-slate-400 mb-4">{new Date(session.date).toLocaleString()}</p>
                         <h3 className="font-semibold text-slate-200 mb-2">Key Takeaways:</h3>
                         <div className="prose prose-sm prose-invert prose-p:text-slate-400 max-h-40 overflow-y-auto" dangerouslySetInnerHTML={{ __html: session.keyTakeaways.replace(/\n/g, '<br />') }} />
@@ -177,7 +177,7 @@ const VoiceMentor: React.FC<{ user: UserProfile, onSaveSession: (session: VoiceS
             <Card className="text-center max-w-lg w-full flex flex-col items-center">
                 <h1 className="text-3xl font-bold">Voice Mentor</h1>
                 <p className="text-slate-400 mt-1 mb-2">Talk to your AI career coach in real-time.</p>
-                <button onClick={() => setView('history')} disabled={(user.voiceMentorHistory || []).length === 0} className="text-sm font-semibold text-cyan-400 hover:text-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed">View Session History</button>
+                <button onClick={() => setView('history')} disabled={user.voiceMentorHistory.length === 0} className="text-sm font-semibold text-cyan-400 hover:text-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed">View Session History</button>
                 
                 <div className="h-48 w-48 my-8 flex items-center justify-center">
                    <StatusIndicator />
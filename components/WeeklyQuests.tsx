@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import type { QuestMetric, UserProfile } from '../types';
+import Card from './common/Card';
+import { PlusIcon, TrashIcon } from './icons';
+import { MAX_GOALS_PER_WEEK, QUEST_METRICS, createGoal, currentWeek, questHistory, questProgress } from '../services/weeklyQuests';
+
+interface WeeklyQuestsProps {
+    user: UserProfile;
+    onUpdateProfile: (profileUpdate: Partial<UserProfile>) => Promise<void>;
+}
+
+const formatWeek = (weekStart: string) =>
+    new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// This week's quests and the user's own goals, with progress counted from their activity, and how past weeks went.
+const WeeklyQuests: React.FC<WeeklyQuestsProps> = ({ user, onUpdateProfile }) => {
+    const [isAdding, setIsAdding] = useState(false);
+    const [metric, setMetric] = useState<QuestMetric>('jobs_applied');
+    const [target, setTarget] = useState(5);
+    const [repeat, setRepeat] = useState(false);
+    const [error, setError] = useState('');
+
+    const week = currentWeek(user);
+    const thisWeek = user.quests.filter(quest => quest.weekStart === week);
+    const quests = thisWeek.filter(quest => quest.kind === 'quest');
+    const goals = thisWeek.filter(quest => quest.kind === 'goal');
+    const history = questHistory(user);
+
+    const handleAddGoal = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        try {
+            await onUpdateProfile({ quests: [...user.quests, createGoal(user, metric, target, repeat)] });
+            setIsAdding(false);
+        } catch (err) {
+            console.error('Failed to add goal:', err);
+            setError('Could not add the goal. Please try again.');
+        }
+    };
+
+    const handleRemoveGoal = async (id: string) => {
+        try {
+            await onUpdateProfile({ quests: user.quests.filter(quest => quest.id !== id) });
+        } catch (err) {
+            console.error('Failed to remove goal:', err);
+        }
+    };
+
+    const renderQuest = (quest: UserProfile['quests'][number]) => {
+        const done = Math.min(questProgress(quest, user), quest.target);
+        return (
+            <li key={quest.id} className={`p-3 rounded-lg ${quest.completedAt ? 'bg-teal-500/10' : 'bg-slate-900/50'}`}>
+                <div className="flex items-start justify-between gap-3">
+                    <p className={`font-medium ${quest.completedAt ? 'text-teal-300' : 'text-slate-200'}`}>
+                        {quest.completedAt ? '✓ ' : ''}{quest.title}
+                    </p>
+                    <div className="flex items-center gap-2 shrink-0">
+                        {quest.xp > 0 && <span className="text-xs font-semibold text-amber-400">+{quest.xp} XP</span>}
+                        {quest.kind === 'goal' && !quest.completedAt && (
+                            <button onClick={() => handleRemoveGoal(quest.id)} title="Remove goal" className="text-slate-500 hover:text-red-400">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                </div>
+                <div className="mt-2 flex items-center gap-2">
+                    <div className="flex-grow bg-slate-700/50 rounded-full h-1.5">
+                        <div className="bg-teal-500 h-1.5 rounded-full" style={{ width: `${(done / quest.target) * 100}%` }} />
+                    </div>
+                    <span className="text-xs text-slate-500 shrink-0">{done}/{quest.target} {QUEST_METRICS[quest.metric].unit}</span>
+                </div>
+            </li>
+        );
+    };
+
+    return (
+        <Card>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold text-slate-100">This Week</h2>
+                <span className="text-sm text-slate-400">Week of {formatWeek(week)}</span>
+            </div>
+
+            {quests.length > 0 ? (
+                <ul className="space-y-2">{quests.map(renderQuest)}</ul>
+            ) : (
+                <p className="text-center text-slate-400 py-4">This week's quests start with your next activity.</p>
+            )}
+
+            <div className="flex items-center justify-between mt-6 mb-2">
+                <h3 className="font-semibold text-slate-200">My Goals</h3>
+                {!isAdding && goals.length < MAX_GOALS_PER_WEEK && (
+                    <button onClick={() => setIsAdding(true)} className="flex items-center gap-1 text-sm text-teal-400 hover:text-teal-300">
+                        <PlusIcon className="w-4 h-4" /> Add goal
+                    </button>
+                )}
+            </div>
+            {isAdding && (
+                <form onSubmit={handleAddGoal} className="p-3 mb-2 bg-slate-900/50 rounded-lg space-y-2">
+                    <div className="flex gap-2">
+                        <select
+                            aria-label="What to do"
+                            value={metric}
+                            onChange={e => setMetric(e.target.value as QuestMetric)}
+                            className="flex-grow bg-slate-700 border-slate-600 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-teal-500 focus:outline-none"
+                        >
+                            {(Object.keys(QUEST_METRICS) as QuestMetric[]).map(key => <option key={key} value={key}>{QUEST_METRICS[key].label}</option>)}
+                        </select>
+                        <input
+                            type="number"
+                            aria-label="How many"
+                            min={1}
+                            max={50}
+                            value={target}
+                            onChange={e => setTarget(Math.max(1, Math.min(50, Number(e.target.value) || 1)))}
+                            className="w-20 bg-slate-700 border-slate-600 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-teal-500 focus:outline-none"
+                        />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                        <input type="checkbox" checked={repeat} onChange={e => setRepeat(e.target.checked)} className="accent-teal-500" /> Repeat every week
+                    </label>
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setIsAdding(false)} className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg">Cancel</button>
+                        <button type="submit" className="px-3 py-1.5 text-sm font-semibold bg-teal-600 hover:bg-teal-500 rounded-lg">Add</button>
+                    </div>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+                </form>
+            )}
+            {goals.length > 0 ? (
+                <ul className="space-y-2">{goals.map(renderQuest)}</ul>
+            ) : (
+                !isAdding && <p className="text-sm text-slate-500">Set a goal of your own, like applying to 5 jobs this week.</p>
+            )}
+
+            {history.length > 0 && (
+                <>
+                    <h3 className="font-semibold text-slate-200 mt-6 mb-2">Past Weeks</h3>
+                    <ul className="space-y-1 text-sm max-h-40 overflow-y-auto pr-2">
+                        {history.map(entry => (
+                            <li key={entry.weekStart} className="flex justify-between text-slate-300">
+                                <span>Week of {formatWeek(entry.weekStart)}</span>
+                                <span className={entry.completed === entry.total ? 'text-teal-400' : 'text-slate-400'}>
+                                    {entry.completed}/{entry.total} done{entry.xp > 0 ? ` · +${entry.xp} XP` : ''}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </Card>
+    );
+};
+
+export default WeeklyQuests;
@@ -0,0 +1,31 @@
+import React, { useState, useEffect } from 'react';
+import { getAiUsageBudget, isOverBudget, subscribeToAiUsage } from '../../services/aiUsage';
+
+interface AiBudgetNoticeProps {
+  onViewUsage: () => void;
+}
+
+// Shown once the daily AI budget is spent, until dismissed for the rest of the session.
+const AiBudgetNotice: React.FC<AiBudgetNoticeProps> = ({ onViewUsage }) => {
+  const [overBudget, setOverBudget] = useState(isOverBudget());
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => subscribeToAiUsage(() => setOverBudget(isOverBudget())), []);
+
+  if (!overBudget || dismissed) return null;
+
+  const { action } = getAiUsageBudget();
+
+  return (
+    <div role="status" className="fixed top-4 left-1/2 -translate-x-1/2 z-50 max-w-md w-[90%] bg-red-600/90 text-white px-4 py-3 rounded-lg shadow-lg text-sm flex items-start gap-3">
+      <div className="flex-1">
+        <p className="font-semibold">You've reached today's AI budget.</p>
+        <p className="text-red-100 mt-0.5">{action === 'downgrade' ? 'Cheaper models are being used for the rest of the day.' : 'AI features still work, but usage is above your limit.'}</p>
+        <button onClick={onViewUsage} className="mt-1 underline font-semibold">View usage</button>
+      </div>
+      <button onClick={() => setDismissed(true)} className="text-red-100 hover:text-white" aria-label="Dismiss">✕</button>
+    </div>
+  );
+};
+
+export default AiBudgetNotice;
@@ -0,0 +1,26 @@
+import React, { useState, useEffect } from 'react';
+import { subscribeToAiRetries, AiRetryStatus } from '../../services/aiRequestExecutor';
+
+const AiRetryNotice: React.FC = () => {
+  const [retrying, setRetrying] = useState<AiRetryStatus[]>([]);
+
+  useEffect(() => subscribeToAiRetries(setRetrying), []);
+
+  if (retrying.length === 0) return null;
+
+  // Show the request that has been struggling the longest.
+  const worst = retrying.reduce((a, b) => (b.attempt > a.attempt ? b : a));
+  const seconds = Math.max(1, Math.round(worst.retryInMs / 1000));
+
+  return (
+    <div role="status" className="fixed bottom-20 md:bottom-4 right-4 z-50 max-w-xs bg-amber-600/90 text-white px-4 py-3 rounded-lg shadow-lg text-sm">
+      <p className="font-semibold">The AI service is busy. Retrying…</p>
+      <p className="text-amber-100 mt-0.5">
+        Attempt {worst.attempt + 1} of {worst.maxAttempts} in about {seconds}s
+        {retrying.length > 1 && ` (${retrying.length} requests waiting)`}
+      </p>
+    </div>
+  );
+};
+
+export default AiRetryNotice;
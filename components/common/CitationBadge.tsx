@@ -0,0 +1,30 @@
+import React from 'react';
+import type { Citation } from '../../types';
+
+// Shows where a search result came from, or warns that it couldn't be matched to any search source.
+// Results saved before citations existed have neither field and show nothing.
+const CitationBadge: React.FC<{ source?: Citation; verified?: boolean; className?: string }> = ({ source, verified, className = '' }) => {
+  if (verified === false) {
+    return (
+      <span
+        title="This result couldn't be matched to a search source, so its details may be inaccurate."
+        className={`inline-block px-2 py-0.5 text-xs font-semibold text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-full ${className}`}
+      >
+        Unverified
+      </span>
+    );
+  }
+  if (!source) return null;
+  return (
+    <a
+      href={source.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`inline-block text-xs text-slate-500 hover:text-cyan-300 transition-colors ${className}`}
+    >
+      Source: {source.title}
+    </a>
+  );
+};
+
+export default CitationBadge;
@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import { findInjectionAttempts, redactPii } from '../../utils/untrustedText';
+import type { PiiKind } from '../../utils/untrustedText';
+
+const PII_LABELS: Record<PiiKind, [string, string]> = {
+  email: ['email', 'emails'],
+  phone: ['phone number', 'phone numbers'],
+  address: ['address', 'addresses'],
+};
+
+// Sits under a pasted-text field: offers to strip personal details, warns about embedded instructions and
+// shows exactly what will be sent to the AI. The caller sends prepareOutgoingText(text, redact).
+const OutgoingTextPreview: React.FC<{ text: string; redact: boolean; onRedactChange: (redact: boolean) => void }> = ({ text, redact, onRedactChange }) => {
+  const redaction = useMemo(() => redactPii(text), [text]);
+  const injectionAttempts = useMemo(() => findInjectionAttempts(text), [text]);
+
+  if (!text.trim()) return null;
+
+  const found = (Object.keys(PII_LABELS) as PiiKind[])
+    .filter(kind => redaction.found[kind] > 0)
+    .map(kind => `${redaction.found[kind]} ${PII_LABELS[kind][redaction.found[kind] === 1 ? 0 : 1]}`);
+
+  return (
+    <div className="mt-2 space-y-2 text-sm text-left">
+      {injectionAttempts.length > 0 && (
+        <p className="p-2.5 text-amber-200 bg-amber-500/10 border border-amber-500/30 rounded-md">
+          This text looks like it contains instructions for the AI ({injectionAttempts.join('; ')}). They will be treated as plain text and not followed.
+        </p>
+      )}
+      <label className="flex items-center gap-2 text-slate-300">
+        <input type="checkbox" checked={redact} onChange={(e) => onRedactChange(e.target.checked)} className="accent-teal-500" />
+        Remove emails, phone numbers and addresses before sending
+        <span className="text-slate-500">({found.length > 0 ? `${found.join(', ')} found` : 'none found'})</span>
+      </label>
+      <details className="bg-slate-900/50 border border-slate-700 rounded-md">
+        <summary className="px-3 py-2 cursor-pointer text-slate-400 hover:text-slate-200">Preview what will be sent</summary>
+        <pre className="px-3 pb-3 max-h-60 overflow-y-auto text-xs text-slate-300 whitespace-pre-wrap font-sans">
+          {redact ? redaction.text : text}
+        </pre>
+      </details>
+    </div>
+  );
+};
+
+export default OutgoingTextPreview;
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import Card from './Card';
+import { subscribeToSyncStatus, resolveSyncConflicts } from '../../services/profileSync';
+import type { ConflictChoice, ProfileConflict } from '../../services/profileMerge';
+
+const MAX_VALUE_LENGTH = 80;
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.every(v => typeof v !== 'object') ? value.join(', ') : `${value.length} items`;
+  if (typeof value === 'object') return 'Edited';
+  const text = String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+// Lists what differs between the two versions, so the user can tell them apart.
+const describeVersion = (value: unknown, other: unknown): string[] => {
+  if (value === undefined) return ['Deleted'];
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || typeof other !== 'object' || other === null) {
+    return [formatValue(value)];
+  }
+  const a = value as Record<string, unknown>;
+  const b = other as Record<string, unknown>;
+  const changed = Object.keys(a).filter(key => key !== 'id' && JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+  return changed.length > 0 ? changed.map(key => `${key}: ${formatValue(a[key])}`) : ['Edited'];
+};
+
+const VersionOption: React.FC<{ title: string; lines: string[]; selected: boolean; onSelect: () => void }> = ({ title, lines, selected, onSelect }) => (
+  <button
+    onClick={onSelect}
+    className={`flex-1 text-left p-3 rounded-lg border transition-colors ${selected ? 'border-teal-500 bg-teal-500/10' : 'border-slate-700 hover:border-slate-500'}`}
+  >
+    <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">{title}</p>
+    {lines.map((line, i) => <p key={i} className="text-sm text-slate-200 break-words">{line}</p>)}
+  </button>
+);
+
+// Shown when the same profile field or item was changed on this device and elsewhere. Syncing is paused
+// until the user picks which version of each to keep.
+const ProfileConflictDialog: React.FC = () => {
+  const [conflicts, setConflicts] = useState<ProfileConflict[]>([]);
+  const [choices, setChoices] = useState<ConflictChoice[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => subscribeToSyncStatus(status => {
+    setConflicts(status.state === 'conflict' && status.conflicts ? status.conflicts : []);
+  }), []);
+
+  // Status updates while the dialog is open carry the same conflicts, so choices only reset for new ones.
+  useEffect(() => {
+    setChoices(conflicts.map(() => 'local'));
+  }, [conflicts]);
+
+  if (conflicts.length === 0) return null;
+
+  const choose = (index: number, choice: ConflictChoice) => {
+    setChoices(current => current.map((c, i) => (i === index ? choice : c)));
+  };
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    try {
+      await resolveSyncConflicts(choices);
+    } catch (error) {
+      console.error('Failed to apply conflict choices:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto modal-content-animate">
+        <h2 className="text-2xl font-bold text-teal-300">Your profile changed somewhere else</h2>
+        <p className="text-slate-400 mt-1">
+          These were edited on this device and on another device or tab. Everything else has been merged. Pick the version to keep.
+        </p>
+
+        <div className="flex gap-2 mt-4">
+          <button onClick={() => setChoices(conflicts.map(() => 'local'))} className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg">Keep all mine</button>
+          <button onClick={() => setChoices(conflicts.map(() => 'remote'))} className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg">Keep all theirs</button>
+        </div>
+
+        <ul className="mt-4 space-y-4">
+          {conflicts.map((conflict, i) => (
+            <li key={`${conflict.field}:${conflict.entityId ?? ''}`}>
+              <p className="font-semibold text-slate-200 mb-2">{conflict.label}</p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <VersionOption title="This device" lines={describeVersion(conflict.local, conflict.remote)} selected={choices[i] === 'local'} onSelect={() => choose(i, 'local')} />
+                <VersionOption title="Elsewhere" lines={describeVersion(conflict.remote, conflict.local)} selected={choices[i] === 'remote'} onSelect={() => choose(i, 'remote')} />
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end mt-6">
+          <button onClick={handleApply} disabled={isSaving} className="px-5 py-2 font-semibold bg-teal-600 hover:bg-teal-500 disabled:bg-slate-600 rounded-lg transition-colors">
+            {isSaving ? 'Saving…' : 'Keep selected versions'}
+          </button>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ProfileConflictDialog;
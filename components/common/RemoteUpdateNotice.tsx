@@ -0,0 +1,33 @@
+import React, { useState, useEffect } from 'react';
+import { subscribeToSyncedProfile } from '../../services/profileSync';
+
+const VISIBLE_MS = 4000;
+
+// Briefly tells the user that changes saved on another device or tab have been merged into what they see.
+const RemoteUpdateNotice: React.FC = () => {
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToSyncedProfile((_profile, changedElsewhere) => {
+      if (!changedElsewhere) return;
+      setVisible(true);
+      clearTimeout(timer);
+      timer = setTimeout(() => setVisible(false), VISIBLE_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, []);
+
+  if (!visible) return null;
+
+  return (
+    <div role="status" className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-slate-800/90 border border-slate-700 text-slate-300 px-4 py-2 rounded-full shadow-lg text-xs fade-in">
+      Updated from another device
+    </div>
+  );
+};
+
+export default RemoteUpdateNotice;
@@ -0,0 +1,14 @@
+import React from 'react';
+import { StopIcon } from '../icons';
+
+const StopGeneratingButton: React.FC<{ onStop: () => void; className?: string }> = ({ onStop, className = '' }) => (
+  <button
+    onClick={onStop}
+    className={`inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-slate-200 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors ${className}`}
+  >
+    <StopIcon className="w-4 h-4" />
+    Stop generating
+  </button>
+);
+
+export default StopGeneratingButton;
@@ -0,0 +1,40 @@
+import React, { useState, useEffect } from 'react';
+import { subscribeToSyncStatus, flushProfileChanges, SyncStatus } from '../../services/profileSync';
+
+const plural = (count: number) => `${count} change${count === 1 ? '' : 's'}`;
+
+const SyncStatusIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>({ state: 'synced', pending: 0 });
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  const { state, pending } = status;
+  const dot = {
+    synced: 'bg-teal-400',
+    syncing: 'bg-sky-400 animate-pulse',
+    offline: 'bg-slate-500',
+    error: 'bg-amber-500',
+    conflict: 'bg-rose-500',
+  }[state];
+  const label = {
+    synced: 'All changes saved',
+    syncing: `Saving ${plural(pending)}…`,
+    offline: `Offline · ${plural(pending)} waiting`,
+    error: `Sync failed · ${plural(pending)} waiting`,
+    conflict: 'Changed on another device · review needed',
+  }[state];
+
+  return (
+    <div role="status" className="flex items-center gap-2 px-3 py-2 text-xs text-slate-400">
+      <span className={`w-2 h-2 rounded-full shrink-0 ${dot}`} />
+      <span className="truncate">{label}</span>
+      {state === 'error' && (
+        <button onClick={() => flushProfileChanges()} className="ml-auto text-teal-400 hover:text-teal-300 font-semibold shrink-0">
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,40 @@
+import { createClient } from '@supabase/supabase-js';
+import type { WebSocketLikeConstructor } from '@supabase/realtime-js';
+import WebSocket from 'ws';
+import { supabaseAnonKey, supabaseUrl } from '../supabaseConfig';
+
+// The server only verifies tokens, so it keeps no session of its own. Older Node versions have no global
+// WebSocket for the realtime client, hence the explicit transport.
+const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    realtime: { transport: WebSocket as unknown as WebSocketLikeConstructor },
+});
+
+const CACHE_TTL_MS = 60 * 1000;
+
+// Verified tokens are remembered briefly so a streaming chat doesn't round-trip to Supabase on every message.
+const verified = new Map<string, { userId: string; expiresAt: number }>();
+
+// Checks a Supabase access token with the auth server and returns the user id it belongs to, or null.
+export const verifyAccessToken = async (token: string | undefined): Promise<string | null> => {
+    if (!token) return null;
+
+    const cached = verified.get(token);
+    if (cached && cached.expiresAt > Date.now()) return cached.userId;
+
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data.user) {
+        verified.delete(token);
+        return null;
+    }
+    for (const [key, entry] of verified) {
+        if (entry.expiresAt <= Date.now()) verified.delete(key);
+    }
+    verified.set(token, { userId: data.user.id, expiresAt: Date.now() + CACHE_TTL_MS });
+    return data.user.id;
+};
+
+export const bearerToken = (header: string | undefined): string | undefined => {
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    return match?.[1];
+};
@@ -0,0 +1,270 @@
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import type { Content } from '@google/genai';
+import { WebSocketServer } from 'ws';
+import { buildAiFeatureRequest, isAiFeatureKind } from '../services/aiFeatureRequests';
+import type { AiFeatureRequest, AiRequestKind } from '../services/aiFeatureRequests';
+import type { AiGenerateRequest, AiStructuredRequest } from '../services/aiProvider';
+import type { ProxyChatBody, ProxyRequestBody, ProxyResponse, ProxyStreamLine } from '../services/aiProxyProtocol';
+import type { AiUsage } from '../services/aiUsage';
+import { buildConfig, buildStructuredConfig, toAiResponse, toUsage } from '../services/geminiProvider';
+import { bearerToken, verifyAccessToken } from './auth';
+import { ALLOWED_MODELS, MAX_PROMPT_CHARACTERS, MAX_THINKING_BUDGET, addTokenUsage, isAiFeature, secondsUntilReset, takeRequestQuota } from './limits';
+import { handleLiveConnection } from './liveRelay';
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN || '*';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+    throw new Error("GEMINI_API_KEY environment variable not set");
+}
+const ai = new GoogleGenAI({ apiKey });
+
+class HttpError extends Error {
+    constructor(public status: number, message: string, public retryAfterSeconds?: number) {
+        super(message);
+    }
+}
+
+const totalTokens = (usage: AiUsage) => usage.promptTokens + usage.outputTokens + usage.thinkingTokens;
+
+const readBody = (req: http.IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'Request body is too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+            reject(new HttpError(400, 'Request body must be JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+// Gemini errors carry an HTTP status and sometimes a RetryInfo delay; both are passed through so the
+// client's retry logic behaves the same as when it talked to Gemini directly.
+const toHttpError = (error: unknown): HttpError => {
+    if (error instanceof HttpError) return error;
+    const status = (error as { status?: unknown })?.status;
+    const message = error instanceof Error ? error.message : String(error);
+    const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return new HttpError(typeof status === 'number' ? status : 500, message, retryDelay ? Math.ceil(parseFloat(retryDelay[1])) : undefined);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isChatTurn = (turn: unknown): boolean =>
+    isRecord(turn) && (turn.role === 'user' || turn.role === 'model') && typeof turn.text === 'string';
+
+// Rejects bodies that aren't shaped like the route's request before anything reads them, so a malformed body is a
+// 400 rather than a crash part way through checking it.
+const checkBodyShape = (body: unknown, kind: AiRequestKind): Partial<ProxyChatBody> => {
+    if (!isRecord(body) || !isRecord(body.input) || typeof body.input.feature !== 'string' || !isRecord(body.input.vars)) {
+        throw new HttpError(400, "Request body must be an object with the feature's input.");
+    }
+    const { input } = body;
+    if (typeof body.model !== 'string') {
+        throw new HttpError(400, 'model must be a string.');
+    }
+    if (body.thinkingBudget !== undefined && typeof body.thinkingBudget !== 'number') {
+        throw new HttpError(400, 'thinkingBudget must be a number.');
+    }
+    if (input.promptVersion !== undefined && typeof input.promptVersion !== 'string') {
+        throw new HttpError(400, 'input.promptVersion must be a string.');
+    }
+    if (input.repair !== undefined && !(isRecord(input.repair) && typeof input.repair.invalidText === 'string'
+        && Array.isArray(input.repair.errors) && input.repair.errors.every(error => typeof error === 'string'))) {
+        throw new HttpError(400, 'input.repair must have the invalid text and a list of errors.');
+    }
+    if (kind === 'chat') {
+        if (typeof body.message !== 'string') {
+            throw new HttpError(400, 'message must be a string.');
+        }
+        if (!Array.isArray(body.history) || !body.history.every(isChatTurn)) {
+            throw new HttpError(400, 'history must be a list of user and model turns.');
+        }
+    }
+    return body as Partial<ProxyChatBody>;
+};
+
+// Clients send a feature's inputs, never a prompt: the request is rendered here from the app's own templates,
+// schemas and tools, so the proxy can't be used to send Gemini anything else. Each route only serves features
+// of its kind, so a chat's system instruction can't be run as a one-off prompt or the other way round.
+const checkRequest = (body: Partial<ProxyChatBody>, userId: string, kind: AiRequestKind): AiFeatureRequest => {
+    const feature = body.input.feature;
+    if (!feature || !isAiFeature(feature) || !isAiFeatureKind(feature, kind)) {
+        throw new HttpError(400, `Unknown ${kind} feature "${feature}".`);
+    }
+    if (!body.model || !ALLOWED_MODELS[feature].includes(body.model)) {
+        throw new HttpError(403, `Model "${body.model}" is not allowed for ${feature}.`);
+    }
+    if (body.thinkingBudget !== undefined && (body.thinkingBudget < 0 || body.thinkingBudget > MAX_THINKING_BUDGET)) {
+        throw new HttpError(400, `thinkingBudget must be between 0 and ${MAX_THINKING_BUDGET}.`);
+    }
+    let request: AiFeatureRequest;
+    try {
+        request = buildAiFeatureRequest(body.input, userId);
+    } catch (error) {
+        throw new HttpError(400, `Invalid ${feature} input: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const size = request.prompt.length + (request.systemInstruction?.length || 0) + (body.message?.length || 0)
+        + (body.history || []).reduce((sum, turn) => sum + turn.text.length, 0);
+    if (size > MAX_PROMPT_CHARACTERS) {
+        throw new HttpError(413, 'Prompt is too long.');
+    }
+    return request;
+};
+
+// Authenticates the caller, renders and validates the request and charges it to the user's daily quota.
+const acceptRequest = async <T extends ProxyRequestBody>(req: http.IncomingMessage, kind: AiRequestKind): Promise<{ userId: string; body: T; request: AiFeatureRequest }> => {
+    const userId = await verifyAccessToken(bearerToken(req.headers.authorization));
+    if (!userId) {
+        throw new HttpError(401, 'Sign in to use AI features.');
+    }
+    const body = checkBodyShape(await readBody(req), kind) as T;
+    const request = checkRequest(body, userId, kind);
+    const quotaError = takeRequestQuota(userId);
+    if (quotaError) {
+        throw new HttpError(429, quotaError, secondsUntilReset());
+    }
+    return { userId, body, request };
+};
+
+// The rendered request with the model and thinking budget the client asked for.
+const toGenerateRequest = (request: AiFeatureRequest, body: ProxyRequestBody): AiGenerateRequest =>
+    ({ ...request, model: body.model, thinkingBudget: body.thinkingBudget });
+
+const toStructuredRequest = (request: AiFeatureRequest, body: ProxyRequestBody): AiStructuredRequest => {
+    if (!request.schema) {
+        throw new HttpError(400, `${request.feature} has no response schema.`);
+    }
+    return { ...toGenerateRequest(request, body), schema: request.schema };
+};
+
+// Streams Gemini chunks back as newline-delimited JSON. Errors after the headers are sent go in-band.
+const streamResponse = async (res: http.ServerResponse, userId: string, open: () => Promise<AsyncIterable<{ text?: string; usageMetadata?: Parameters<typeof toUsage>[0] }>>) => {
+    const responseStream = await open();
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    const write = (line: ProxyStreamLine) => res.write(`${JSON.stringify(line)}\n`);
+    let usage: AiUsage = toUsage(undefined);
+    try {
+        for await (const chunk of responseStream) {
+            if (chunk.usageMetadata) usage = toUsage(chunk.usageMetadata);
+            if (chunk.text) write({ text: chunk.text });
+        }
+        write({ usage });
+    } catch (error) {
+        const httpError = toHttpError(error);
+        write({ error: httpError.message, status: httpError.status });
+    } finally {
+        addTokenUsage(userId, totalTokens(usage));
+        res.end();
+    }
+};
+
+type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>;
+
+const routes: Record<string, RouteHandler> = {
+    '/api/ai/generate': async (req, res) => {
+        const { userId, body, request } = await acceptRequest(req, 'generate');
+        const response = await ai.models.generateContent({ model: body.model, contents: request.prompt, config: buildConfig(toGenerateRequest(request, body)) });
+        const usage = toUsage(response.usageMetadata);
+        addTokenUsage(userId, totalTokens(usage));
+        sendJson(res, 200, { ...toAiResponse(response), usage } satisfies ProxyResponse);
+    },
+
+    '/api/ai/structured': async (req, res) => {
+        const { userId, body, request } = await acceptRequest(req, 'generate');
+        const response = await ai.models.generateContent({ model: body.model, contents: request.prompt, config: buildStructuredConfig(toStructuredRequest(request, body)) });
+        const usage = toUsage(response.usageMetadata);
+        addTokenUsage(userId, totalTokens(usage));
+        sendJson(res, 200, { ...toAiResponse(response), usage } satisfies ProxyResponse);
+    },
+
+    '/api/ai/stream': async (req, res) => {
+        const { userId, body, request } = await acceptRequest(req, 'generate');
+        const config = buildConfig(toGenerateRequest(request, body));
+        await streamResponse(res, userId, () => ai.models.generateContentStream({ model: body.model, contents: request.prompt, config }));
+    },
+
+    '/api/ai/stream-structured': async (req, res) => {
+        const { userId, body, request } = await acceptRequest(req, 'generate');
+        const config = buildStructuredConfig(toStructuredRequest(request, body));
+        await streamResponse(res, userId, () => ai.models.generateContentStream({ model: body.model, contents: request.prompt, config }));
+    },
+
+    '/api/ai/chat': async (req, res) => {
+        const { userId, body, request } = await acceptRequest<ProxyChatBody>(req, 'chat');
+        const contents: Content[] = [...body.history, { role: 'user' as const, text: body.message }]
+            .map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+        const config = buildConfig(toGenerateRequest(request, body));
+        await streamResponse(res, userId, () => ai.models.generateContentStream({ model: body.model, contents, config }));
+    },
+};
+
+const server = http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+    }
+    if (req.method === 'GET' && path === '/api/health') {
+        sendJson(res, 200, { ok: true });
+        return;
+    }
+    const handler = routes[path];
+    if (!handler || req.method !== 'POST') {
+        sendJson(res, 404, { error: 'Not found.' });
+        return;
+    }
+
+    try {
+        await handler(req, res);
+    } catch (error) {
+        const httpError = toHttpError(error);
+        if (httpError.status >= 500) {
+            console.error(`${path} failed:`, error);
+        }
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
+        const headers = httpError.retryAfterSeconds !== undefined ? { 'Retry-After': String(httpError.retryAfterSeconds) } : {};
+        sendJson(res, httpError.status, { error: httpError.message }, headers);
+    }
+});
+
+// Live voice sessions are relayed over a WebSocket, since the browser can't open one to Gemini without the key.
+const liveServer = new WebSocketServer({ noServer: true });
+server.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== '/api/ai/live') {
+        socket.destroy();
+        return;
+    }
+    liveServer.handleUpgrade(req, socket, head, ws => handleLiveConnection(ws, ai));
+});
+
+server.listen(PORT, () => {
+    console.log(`AI proxy listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,80 @@
+import type { AiFeature } from '../services/aiProvider';
+
+// Models each feature may use through the proxy, including the cheaper fallbacks the client switches to
+// when a usage budget is exceeded. Anything else is rejected, so a leaked session can't run arbitrary models.
+const FLASH = ['gemini-2.5-flash', 'gemini-flash-lite-latest'];
+const PRO = ['gemini-2.5-pro', ...FLASH];
+
+export const ALLOWED_MODELS: Record<AiFeature, string[]> = {
+    skillMap: PRO,
+    roadmap: PRO,
+    projectSuggestions: FLASH,
+    industryTrends: FLASH,
+    resumeFeedback: PRO,
+    resumeBuilder: FLASH,
+    interviewSummary: FLASH,
+    quizTopics: FLASH,
+    quizQuestion: FLASH,
+    voiceSummary: FLASH,
+    nearbyCourses: FLASH,
+    onlineCourses: FLASH,
+    onlineCoursesExtraction: FLASH,
+    projectPlan: FLASH,
+    jobs: FLASH,
+    jobsExtraction: FLASH,
+    professionalEmail: FLASH,
+    elevatorPitch: FLASH,
+    coverLetter: PRO,
+    linkedinSummary: FLASH,
+    mentorChat: PRO,
+    webSearch: FLASH,
+    interviewChat: PRO,
+    voiceMentor: ['gemini-2.5-flash-native-audio-preview-09-2025'],
+};
+
+export const MAX_THINKING_BUDGET = 32768;
+export const MAX_PROMPT_CHARACTERS = 200_000;
+
+const DAILY_REQUEST_LIMIT = Number(process.env.AI_DAILY_REQUEST_LIMIT) || 300;
+const DAILY_TOKEN_LIMIT = Number(process.env.AI_DAILY_TOKEN_LIMIT) || 1_000_000;
+
+export const isAiFeature = (value: string): value is AiFeature => Object.prototype.hasOwnProperty.call(ALLOWED_MODELS, value);
+
+interface DailyQuota {
+    day: string;
+    requests: number;
+    tokens: number;
+}
+
+// Kept in memory, so limits are per server instance and reset on restart. Good enough for a single small deployment.
+const quotas = new Map<string, DailyQuota>();
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const quotaFor = (userId: string): DailyQuota => {
+    let quota = quotas.get(userId);
+    if (!quota || quota.day !== today()) {
+        quota = { day: today(), requests: 0, tokens: 0 };
+        quotas.set(userId, quota);
+    }
+    return quota;
+};
+
+export const secondsUntilReset = (): number => {
+    const midnight = new Date();
+    midnight.setUTCHours(24, 0, 0, 0);
+    return Math.ceil((midnight.getTime() - Date.now()) / 1000);
+};
+
+// Counts a request against the user's daily quota, or returns a reason why it isn't allowed.
+export const takeRequestQuota = (userId: string): string | null => {
+    const quota = quotaFor(userId);
+    if (quota.requests >= DAILY_REQUEST_LIMIT) return `Daily AI request limit of ${DAILY_REQUEST_LIMIT} reached.`;
+    if (quota.tokens >= DAILY_TOKEN_LIMIT) return `Daily AI token limit of ${DAILY_TOKEN_LIMIT} reached.`;
+    quota.requests += 1;
+    return null;
+};
+
+export const addTokenUsage = (userId: string, tokens: number) => {
+    quotaFor(userId).tokens += tokens;
+};
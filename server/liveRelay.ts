@@ -0,0 +1,118 @@
+import { Modality } from '@google/genai';
+import type { GoogleGenAI, LiveServerMessage, Session } from '@google/genai';
+import type { WebSocket } from 'ws';
+import { buildAiFeatureRequest, isAiFeatureKind } from '../services/aiFeatureRequests';
+import type { ProxyLiveClientMessage, ProxyLiveServerMessage } from '../services/aiProxyProtocol';
+import { verifyAccessToken } from './auth';
+import { ALLOWED_MODELS, addTokenUsage, isAiFeature, takeRequestQuota } from './limits';
+
+const SETUP_TIMEOUT_MS = 10000;
+
+// Relays one browser WebSocket to one Gemini Live session. The first message must be a setup message
+// carrying the user's access token; audio frames are only forwarded once that has been verified.
+export const handleLiveConnection = (ws: WebSocket, ai: GoogleGenAI) => {
+    let session: Session | null = null;
+    let userId: string | null = null;
+    // Set before setup first awaits, so a second setup message sent meanwhile can't open another session.
+    let settingUp = false;
+
+    const send = (message: ProxyLiveServerMessage) => {
+        if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+    };
+    const fail = (message: string) => {
+        send({ type: 'error', message });
+        ws.close();
+    };
+
+    const setupTimer = setTimeout(() => fail('Live session setup timed out.'), SETUP_TIMEOUT_MS);
+
+    const setup = async (message: Extract<ProxyLiveClientMessage, { type: 'setup' }>) => {
+        userId = await verifyAccessToken(message.token);
+        if (!userId) return fail('Sign in to use AI features.');
+        // As with the HTTP routes, the system instruction is rendered here from the feature's inputs.
+        const feature = message.input?.feature;
+        if (!feature || !isAiFeature(feature) || !isAiFeatureKind(feature, 'live')) {
+            return fail(`Unknown live feature "${feature}".`);
+        }
+        if (!ALLOWED_MODELS[feature].includes(message.model)) {
+            return fail(`Model "${message.model}" is not allowed for ${feature}.`);
+        }
+        let systemInstruction: string;
+        try {
+            systemInstruction = buildAiFeatureRequest(message.input, userId).systemInstruction!;
+        } catch (error) {
+            return fail(`Invalid ${feature} input: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        const quotaError = takeRequestQuota(userId);
+        if (quotaError) return fail(quotaError);
+
+        session = await ai.live.connect({
+            model: message.model,
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: message.voiceName } } },
+                systemInstruction,
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+            },
+            callbacks: {
+                onopen: () => send({ type: 'open' }),
+                onmessage: (serverMessage: LiveServerMessage) => {
+                    const usage = serverMessage.usageMetadata && {
+                        promptTokens: serverMessage.usageMetadata.promptTokenCount || 0,
+                        outputTokens: serverMessage.usageMetadata.responseTokenCount || 0,
+                        thinkingTokens: serverMessage.usageMetadata.thoughtsTokenCount || 0,
+                    };
+                    if (usage && userId) {
+                        addTokenUsage(userId, usage.promptTokens + usage.outputTokens + usage.thinkingTokens);
+                    }
+                    send({
+                        type: 'event',
+                        event: {
+                            inputTranscription: serverMessage.serverContent?.inputTranscription?.text,
+                            outputTranscription: serverMessage.serverContent?.outputTranscription?.text,
+                            audio: serverMessage.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data,
+                        },
+                        usage,
+                    });
+                },
+                onerror: (error) => fail(error.message || 'The live session failed.'),
+                onclose: () => ws.close(),
+            },
+        });
+        // The browser may have hung up while Gemini was still connecting.
+        if (ws.readyState !== ws.OPEN) {
+            session.close();
+            session = null;
+        }
+    };
+
+    ws.on('message', async (raw) => {
+        let message: ProxyLiveClientMessage;
+        try {
+            message = JSON.parse(raw.toString());
+        } catch {
+            return fail('Messages must be JSON.');
+        }
+
+        if (message.type === 'setup') {
+            if (settingUp) return fail('The live session is already set up.');
+            settingUp = true;
+            clearTimeout(setupTimer);
+            try {
+                await setup(message);
+            } catch (error) {
+                console.error('Failed to open live session:', error);
+                fail('Could not start the live session.');
+            }
+        } else if (message.type === 'audio' && session) {
+            session.sendRealtimeInput({ media: { data: message.data, mimeType: message.mimeType } });
+        }
+    });
+
+    ws.on('close', () => {
+        clearTimeout(setupTimer);
+        session?.close();
+        session = null;
+    });
+};
@@ -0,0 +1,184 @@
+import type { ActivityEvent, ActivityEventData, ActivityEventType, UserProfile } from '../types';
+import { achievementTitle } from '../utils/achievementUtils';
+
+export type ActivityCategory = 'roadmap' | 'projects' | 'jobs' | 'practice' | 'profile';
+
+export const ACTIVITY_CATEGORIES: { id: ActivityCategory; label: string; color: string }[] = [
+    { id: 'roadmap', label: 'Roadmap', color: '#2dd4bf' },
+    { id: 'projects', label: 'Projects', color: '#a78bfa' },
+    { id: 'jobs', label: 'Jobs', color: '#f59e0b' },
+    { id: 'practice', label: 'Practice', color: '#3b82f6' },
+    { id: 'profile', label: 'Profile', color: '#94a3b8' },
+];
+
+const CATEGORY_OF: Record<ActivityEventType, ActivityCategory> = {
+    profile_created: 'profile',
+    profile_imported: 'profile',
+    target_role_changed: 'profile',
+    skill_added: 'profile',
+    skill_level_changed: 'profile',
+    achievement_unlocked: 'profile',
+    quest_completed: 'profile',
+    roadmap_step_completed: 'roadmap',
+    roadmap_step_reopened: 'roadmap',
+    project_status_changed: 'projects',
+    project_step_completed: 'projects',
+    job_tracked: 'jobs',
+    job_status_changed: 'jobs',
+    interview_completed: 'practice',
+    quiz_completed: 'practice',
+    voice_session_completed: 'practice',
+    chat_saved: 'practice',
+};
+
+export const activityCategory = (event: ActivityEvent): ActivityCategory => CATEGORY_OF[event.type];
+
+export const createActivityEvent = <K extends ActivityEventType>(type: K, data: ActivityEventData[K], entityId?: string): ActivityEvent =>
+    ({ id: crypto.randomUUID(), type, occurredAt: new Date().toISOString(), entityId, data }) as ActivityEvent;
+
+export const describeActivity = (event: ActivityEvent): string => {
+    switch (event.type) {
+        case 'profile_created': return `Started the journey to ${event.data.targetRole}`;
+        case 'profile_imported': return event.data.mode === 'replace' ? 'Replaced the profile with an imported one' : 'Imported data into the profile';
+        case 'target_role_changed': return `Changed target role from ${event.data.from} to ${event.data.to}`;
+        case 'skill_added': return `Added the skill ${event.data.name} (${event.data.proficiency})`;
+        case 'skill_level_changed': return `${event.data.name}: ${event.data.from} → ${event.data.to}`;
+        case 'achievement_unlocked': return `${event.data.icon} Unlocked "${event.data.name}"`;
+        case 'roadmap_step_completed': return `Completed roadmap step "${event.data.title}"`;
+        case 'roadmap_step_reopened': return `Reopened roadmap step "${event.data.title}"`;
+        case 'project_status_changed': return `Moved project "${event.data.title}" from ${event.data.from} to ${event.data.to}`;
+        case 'project_step_completed': return `Finished "${event.data.title}" in ${event.data.project}`;
+        case 'job_tracked': return `Started tracking ${event.data.title} at ${event.data.company}`;
+        case 'job_status_changed': return `${event.data.title} at ${event.data.company}: ${event.data.from} → ${event.data.to}`;
+        case 'interview_completed': return `Practised an interview for ${event.data.targetRole}`;
+        case 'quiz_completed': return `Scored ${event.data.score}% on a ${event.data.targetRole} quiz`;
+        case 'voice_session_completed': return 'Talked with the Voice Mentor';
+        case 'chat_saved': return `Chatted with the mentor (${event.data.mode})`;
+        case 'quest_completed': return `${event.data.kind === 'goal' ? 'Reached the goal' : 'Finished the weekly quest'} "${event.data.title}"`;
+    }
+};
+
+const byId = <T extends { id: string }>(items: T[]) => new Map(items.map(item => [item.id, item]));
+
+// The events a profile update amounts to, worked out by comparing the profile before and after it. Every
+// handler saves through the same update, so this is the one place events are recorded from.
+export const activityForChange = (before: UserProfile, after: UserProfile): ActivityEvent[] => {
+    const events: ActivityEvent[] = [];
+
+    if (after.targetRole !== before.targetRole) {
+        events.push(createActivityEvent('target_role_changed', { from: before.targetRole, to: after.targetRole }));
+    }
+
+    if (after.skills !== before.skills) {
+        const oldSkills = byId(before.skills);
+        for (const skill of after.skills) {
+            const old = oldSkills.get(skill.id);
+            if (!old) events.push(createActivityEvent('skill_added', { name: skill.name, proficiency: skill.proficiency }, skill.id));
+            else if (old.proficiency !== skill.proficiency) {
+                events.push(createActivityEvent('skill_level_changed', { name: skill.name, from: old.proficiency, to: skill.proficiency }, skill.id));
+            }
+        }
+    }
+
+    if (after.roadmap !== before.roadmap) {
+        const oldSteps = byId(before.roadmap);
+        for (const step of after.roadmap) {
+            const old = oldSteps.get(step.id);
+            if (!old || old.completed === step.completed) continue;
+            events.push(createActivityEvent(step.completed ? 'roadmap_step_completed' : 'roadmap_step_reopened', { title: step.title }, step.id));
+        }
+    }
+
+    if (after.projects !== before.projects) {
+        const oldProjects = byId(before.projects);
+        for (const project of after.projects) {
+            const old = oldProjects.get(project.id);
+            if (!old) continue;
+            if (old.status !== project.status) {
+                events.push(createActivityEvent('project_status_changed', { title: project.title, from: old.status, to: project.status }, project.id));
+            }
+            const oldSteps = byId(old.projectPlan || []);
+            for (const step of project.projectPlan || []) {
+                if (step.completed && oldSteps.get(step.id)?.completed === false) {
+                    events.push(createActivityEvent('project_step_completed', { project: project.title, title: step.title }, step.id));
+                }
+            }
+        }
+    }
+
+    if (after.trackedJobs !== before.trackedJobs) {
+        const oldJobs = byId(before.trackedJobs);
+        for (const job of after.trackedJobs) {
+            const old = oldJobs.get(job.id);
+            if (!old) events.push(createActivityEvent('job_tracked', { title: job.title, company: job.company }, job.id));
+            else if (old.status !== job.status) {
+                events.push(createActivityEvent('job_status_changed', { title: job.title, company: job.company, from: old.status, to: job.status }, job.id));
+            }
+        }
+    }
+
+    // Only newly saved sessions count; sessions dropped by retention or deleted aren't activity.
+    const added = <T extends { id: string }>(oldList: T[], newList: T[]) => {
+        const ids = new Set(oldList.map(item => item.id));
+        return newList.filter(item => !ids.has(item.id));
+    };
+    added(before.interviewHistory, after.interviewHistory).forEach(session =>
+        events.push(createActivityEvent('interview_completed', { targetRole: session.targetRole }, session.id)));
+    added(before.quizHistory, after.quizHistory).forEach(session =>
+        events.push(createActivityEvent('quiz_completed', { targetRole: session.targetRole, score: session.score }, session.id)));
+    added(before.voiceMentorHistory, after.voiceMentorHistory).forEach(session =>
+        events.push(createActivityEvent('voice_session_completed', {}, session.id)));
+    added(before.smartChatHistory, after.smartChatHistory).forEach(session =>
+        events.push(createActivityEvent('chat_saved', { mode: session.mode }, session.id)));
+    if (after.quests !== before.quests) {
+        const oldQuests = byId(before.quests);
+        for (const quest of after.quests) {
+            if (quest.completedAt && !oldQuests.get(quest.id)?.completedAt) {
+                events.push(createActivityEvent('quest_completed', { title: quest.title, kind: quest.kind }, quest.id));
+            }
+        }
+    }
+
+    added(before.achievements, after.achievements).forEach(achievement =>
+        events.push(createActivityEvent('achievement_unlocked', { name: achievementTitle(achievement), icon: achievement.icon }, achievement.id)));
+
+    return events;
+};
+
+// `after` with the events its changes from `before` amount to added to the activity log.
+export const withActivity = (before: UserProfile, after: UserProfile): UserProfile => {
+    const events = activityForChange(before, after);
+    return events.length > 0 ? { ...after, activityLog: [...after.activityLog, ...events] } : after;
+};
+
+export interface WeeklyActivity {
+    // Monday of the week, as YYYY-MM-DD in local time.
+    weekStart: string;
+    counts: Record<ActivityCategory, number>;
+}
+
+const startOfWeek = (date: Date): Date => {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    return start;
+};
+
+const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Events per category for each of the last `weeks` weeks, oldest first, for activity charts.
+export const weeklyActivity = (log: ActivityEvent[], weeks: number, now = new Date()): WeeklyActivity[] => {
+    const thisWeek = startOfWeek(now);
+    const result: WeeklyActivity[] = [];
+    for (let i = weeks - 1; i >= 0; i--) {
+        const weekStart = new Date(thisWeek);
+        weekStart.setDate(weekStart.getDate() - i * 7);
+        result.push({ weekStart: toDateKey(weekStart), counts: { roadmap: 0, projects: 0, jobs: 0, practice: 0, profile: 0 } });
+    }
+    const byWeek = new Map(result.map(week => [week.weekStart, week]));
+    for (const event of log) {
+        const week = byWeek.get(toDateKey(startOfWeek(new Date(event.occurredAt))));
+        if (week) week.counts[activityCategory(event)]++;
+    }
+    return result;
+};
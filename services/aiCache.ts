@@ -0,0 +1,109 @@
+import type { AiFeature } from './aiProvider';
+
+const DB_NAME = 'ai-career-copilot';
+const DB_VERSION = 1;
+const STORE_NAME = 'aiResponses';
+
+const HOUR = 60 * 60 * 1000;
+
+// How long a cached result stays fresh per feature. Features not listed here are never cached.
+export const AI_CACHE_TTL: Partial<Record<AiFeature, number>> = {
+    jobs: 6 * HOUR,
+    industryTrends: 24 * HOUR,
+    onlineCourses: 3 * 24 * HOUR,
+    nearbyCourses: 3 * 24 * HOUR,
+    quizTopics: 7 * 24 * HOUR,
+};
+
+export interface AiCacheOptions {
+    // Skips any cached entry and stores the fresh result in its place.
+    refresh?: boolean;
+}
+
+interface CachedAiResult {
+    key: string;
+    feature: AiFeature;
+    value: unknown;
+    createdAt: number;
+    expiresAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this environment.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                store.createIndex('feature', 'feature');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again instead of caching the failure forever.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    openDatabase().then(db => new Promise<T>((resolve, reject) => {
+        const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }));
+
+const hashKey = async (feature: AiFeature, parts: unknown): Promise<string> => {
+    const bytes = new TextEncoder().encode(JSON.stringify(parts));
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+    return `${feature}:${hex}`;
+};
+
+// Returns a fresh cached result for the feature and key parts (usually model and prompt), or runs `load` and
+// stores what it returns. Failures and empty lists are never stored, and the cache failing never breaks the call.
+export const withAiCache = async <T>(feature: AiFeature, parts: unknown, load: () => Promise<T>, options: AiCacheOptions = {}): Promise<T> => {
+    const ttl = AI_CACHE_TTL[feature];
+    if (!ttl) return load();
+
+    let key: string | null = null;
+    try {
+        key = await hashKey(feature, parts);
+        if (!options.refresh) {
+            const cached = await runRequest<CachedAiResult | undefined>('readonly', store => store.get(key!));
+            if (cached && cached.expiresAt > Date.now()) {
+                return cached.value as T;
+            }
+        }
+    } catch (error) {
+        console.warn(`AI cache lookup failed for ${feature}:`, error);
+    }
+
+    const value = await load();
+
+    if (key && !(Array.isArray(value) && value.length === 0)) {
+        const now = Date.now();
+        const entry: CachedAiResult = { key, feature, value, createdAt: now, expiresAt: now + ttl };
+        runRequest('readwrite', store => store.put(entry)).catch(error => console.warn(`Failed to cache ${feature} result:`, error));
+    }
+    return value;
+};
+
+// Drops cached results for one feature, or everything when no feature is given.
+export const invalidateAiCache = async (feature?: AiFeature): Promise<void> => {
+    try {
+        if (feature) {
+            const keys = await runRequest('readonly', store => store.index('feature').getAllKeys(feature));
+            await Promise.all(keys.map(key => runRequest('readwrite', store => store.delete(key))));
+        } else {
+            await runRequest('readwrite', store => store.clear());
+        }
+    } catch (error) {
+        console.warn('Failed to clear the AI cache:', error);
+    }
+};
@@ -0,0 +1,319 @@
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { PromptRef } from '../types';
+import type { AiFeature, AiTool } from './aiProvider';
+import { resolvePromptRef } from './promptRegistry';
+import type { PromptTemplate } from './promptRegistry';
+import { PROMPTS } from './promptTemplates';
+import type { PromptUser } from './promptTemplates';
+
+// What each feature's AI request is made from. The service functions build their requests from these, and
+// so does the proxy server in server/, which accepts nothing else: whatever a client sends, Gemini only gets
+// the app's own prompts, schemas and tools.
+
+type VarsOf<T> = T extends PromptTemplate<infer V> ? V : never;
+type PromptVars<N extends keyof typeof PROMPTS> = VarsOf<(typeof PROMPTS)[N]>;
+
+export interface AiFeatureVars {
+    skillMap: PromptVars<'skillMap'>;
+    roadmap: PromptVars<'roadmap'>;
+    projectSuggestions: PromptVars<'projectSuggestions'>;
+    industryTrends: PromptVars<'industryTrends'>;
+    resumeFeedback: PromptVars<'resumeFeedback'>;
+    resumeBuilder: PromptVars<'resumeBuilder'>;
+    interviewSummary: PromptVars<'interviewSummary'>;
+    quizTopics: PromptVars<'quizTopics'>;
+    quizQuestion: PromptVars<'quizQuestion'>;
+    voiceSummary: PromptVars<'voiceSummary'>;
+    nearbyCourses: PromptVars<'nearbyCourses'> & { location: { latitude: number; longitude: number } };
+    onlineCourses: PromptVars<'onlineCourses'>;
+    onlineCoursesExtraction: PromptVars<'searchExtraction'>;
+    projectPlan: PromptVars<'projectPlan'>;
+    jobs: PromptVars<'jobs'>;
+    jobsExtraction: PromptVars<'searchExtraction'>;
+    professionalEmail: PromptVars<'professionalEmail'>;
+    elevatorPitch: PromptVars<'elevatorPitch'>;
+    coverLetter: PromptVars<'coverLetter'>;
+    linkedinSummary: PromptVars<'linkedinSummary'>;
+    mentorChat: PromptVars<'mentorChat'> & { networking?: boolean };
+    interviewChat: PromptVars<'interviewer'>;
+    webSearch: { query: string };
+    voiceMentor: PromptVars<'voiceMentor'>;
+}
+
+// A structured response that was rejected, for asking the model to correct it.
+export interface AiRepair {
+    invalidText: string;
+    errors: string[];
+}
+
+// `promptVersion` is filled in when the request is first built, so the proxy renders the version the
+// browser stamps on what comes back.
+export type AiFeatureInput = {
+    [F in AiFeature]: { feature: F; vars: AiFeatureVars[F]; promptVersion?: string; repair?: AiRepair };
+}[AiFeature];
+
+// One-off requests generate a response from a prompt; chats and live sessions get the rendered text as their
+// system instruction instead.
+export type AiRequestKind = 'generate' | 'chat' | 'live';
+
+export interface AiFeatureRequest {
+    feature: AiFeature;
+    kind: AiRequestKind;
+    input: AiFeatureInput;
+    prompt: string;
+    systemInstruction?: string;
+    tools?: AiTool[];
+    location?: { latitude: number; longitude: number };
+    schema?: Schema;
+    ref?: PromptRef;
+}
+
+const skillMapSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            name: { type: Type.STRING },
+            proficiency: { type: Type.STRING, enum: ['Beginner', 'Intermediate', 'Advanced', 'Expert'] },
+            category: { type: Type.ARRAY, items: { type: Type.STRING } },
+            isGap: { type: Type.BOOLEAN }
+        },
+        required: ['name', 'proficiency', 'category', 'isGap']
+    }
+};
+
+const roadmapSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            duration: { type: Type.STRING },
+            skillsToLearn: { type: Type.ARRAY, items: { type: Type.STRING } },
+            suggestedResources: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        url: { type: Type.STRING },
+                        type: { type: Type.STRING, enum: ['Course', 'Article', 'Video', 'Documentation', 'Book', 'Podcast'] }
+                    },
+                    required: ['name', 'url', 'type']
+                }
+            },
+            milestoneProject: { type: Type.STRING },
+        },
+        required: ['title', 'duration', 'skillsToLearn', 'suggestedResources', 'milestoneProject']
+    }
+};
+
+const projectSuggestionsSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+            requiredSkills: { type: Type.ARRAY, items: { type: Type.STRING } },
+            difficulty: { type: Type.STRING, enum: ['Easy', 'Medium', 'Hard'] },
+            xp: { type: Type.INTEGER }
+        },
+        required: ['title', 'description', 'requiredSkills', 'difficulty', 'xp']
+    }
+};
+
+const industryTrendsSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            summary: { type: Type.STRING },
+            type: { type: Type.STRING, enum: ['Current', 'Future'] }
+        },
+        required: ['title', 'summary', 'type']
+    }
+};
+
+const resumeFeedbackSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        overallScore: { type: Type.NUMBER },
+        feedbackSections: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    score: { type: Type.NUMBER },
+                    feedback: { type: Type.STRING },
+                    suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+                },
+                required: ['title', 'score', 'feedback', 'suggestions']
+            }
+        },
+        finalSummary: { type: Type.STRING },
+        suggestedBullets: { type: Type.ARRAY, items: { type: Type.STRING } }
+    },
+    required: ['overallScore', 'feedbackSections', 'finalSummary', 'suggestedBullets']
+};
+
+const quizQuestionSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        question: { type: Type.STRING },
+        type: { type: Type.STRING, enum: ['mcq'] },
+        options: { type: Type.ARRAY, items: { type: Type.STRING } },
+        answer: { type: Type.STRING },
+        explanation: { type: Type.STRING }
+    },
+    required: ['question', 'type', 'options', 'answer', 'explanation']
+};
+
+const onlineCoursesSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+            url: { type: Type.STRING },
+            rating: { type: Type.NUMBER },
+        },
+        required: ['title', 'description', 'url']
+    }
+};
+
+const projectPlanSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+        },
+        required: ['title', 'description']
+    }
+};
+
+const jobPostingsSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            company: { type: Type.STRING },
+            location: { type: Type.STRING },
+            url: { type: Type.STRING },
+            description: { type: Type.STRING },
+        },
+        required: ['title', 'company', 'location', 'url', 'description']
+    }
+};
+
+// Extends an array schema so every item also names the numbered source it was taken from.
+const withSourceIndex = (schema: Schema): Schema => ({
+    ...schema,
+    items: {
+        ...schema.items,
+        properties: { ...schema.items!.properties, sourceIndex: { type: Type.INTEGER } },
+        required: [...(schema.items!.required || []), 'sourceIndex'],
+    },
+});
+
+interface FeatureSpec<V> {
+    kind?: AiRequestKind;
+    // The template the prompt or system instruction is rendered from; features without one send `prompt`.
+    template?: (vars: V) => PromptTemplate<V>;
+    prompt?: (vars: V) => string;
+    schema?: Schema;
+    tools?: AiTool[];
+    location?: (vars: V) => { latitude: number; longitude: number };
+}
+
+const AI_FEATURES: { [F in AiFeature]: FeatureSpec<AiFeatureVars[F]> } = {
+    skillMap: { template: () => PROMPTS.skillMap, schema: skillMapSchema },
+    roadmap: { template: () => PROMPTS.roadmap, schema: roadmapSchema },
+    projectSuggestions: { template: () => PROMPTS.projectSuggestions, schema: projectSuggestionsSchema },
+    industryTrends: { template: () => PROMPTS.industryTrends, schema: industryTrendsSchema },
+    resumeFeedback: { template: () => PROMPTS.resumeFeedback, schema: resumeFeedbackSchema },
+    resumeBuilder: { template: () => PROMPTS.resumeBuilder },
+    interviewSummary: { template: () => PROMPTS.interviewSummary },
+    quizTopics: { template: () => PROMPTS.quizTopics, schema: { type: Type.ARRAY, items: { type: Type.STRING } } },
+    quizQuestion: { template: () => PROMPTS.quizQuestion, schema: quizQuestionSchema },
+    voiceSummary: { template: () => PROMPTS.voiceSummary },
+    nearbyCourses: { template: () => PROMPTS.nearbyCourses, tools: ['googleMaps'], location: vars => vars.location },
+    onlineCourses: { template: () => PROMPTS.onlineCourses, tools: ['googleSearch'] },
+    onlineCoursesExtraction: { template: () => PROMPTS.searchExtraction, schema: withSourceIndex(onlineCoursesSchema) },
+    projectPlan: { template: () => PROMPTS.projectPlan, schema: projectPlanSchema },
+    jobs: { template: () => PROMPTS.jobs, tools: ['googleSearch'] },
+    jobsExtraction: { template: () => PROMPTS.searchExtraction, schema: withSourceIndex(jobPostingsSchema) },
+    professionalEmail: { template: () => PROMPTS.professionalEmail },
+    elevatorPitch: { template: () => PROMPTS.elevatorPitch },
+    coverLetter: { template: () => PROMPTS.coverLetter },
+    linkedinSummary: { template: () => PROMPTS.linkedinSummary },
+    mentorChat: { kind: 'chat', template: vars => (vars.networking ? PROMPTS.networkingChat : PROMPTS.mentorChat) },
+    interviewChat: { kind: 'chat', template: () => PROMPTS.interviewer },
+    webSearch: { prompt: vars => vars.query, tools: ['googleSearch'] },
+    voiceMentor: { kind: 'live', template: () => PROMPTS.voiceMentor },
+};
+
+export const isAiFeatureKind = (feature: AiFeature, kind: AiRequestKind): boolean =>
+    (AI_FEATURES[feature].kind || 'generate') === kind;
+
+const toPromptUser = (user: PromptUser): PromptUser => ({
+    id: user.id,
+    name: user.name,
+    age: user.age,
+    profession: user.profession,
+    educationLevel: user.educationLevel,
+    targetRole: user.targetRole,
+    githubUrl: user.githubUrl,
+    linkedinUrl: user.linkedinUrl,
+    skills: user.skills,
+    roadmap: user.roadmap,
+    projects: user.projects,
+});
+
+const buildRepairPrompt = (originalPrompt: string, { invalidText, errors }: AiRepair): string => `
+        ${originalPrompt}
+
+        **Your previous response was rejected because it did not match the required JSON structure.**
+        Problems found:
+        ${errors.slice(0, 10).map(e => `- ${e}`).join('\n')}
+
+        Previous response:
+        ${invalidText.slice(0, 4000)}
+
+        Return only the corrected JSON, with every required field present and using only the allowed values.
+    `;
+
+// Builds a feature's request from its inputs. Pass the user id to take part in prompt experiments. Throws if
+// the inputs name a prompt version that doesn't exist.
+export const buildAiFeatureRequest = (input: AiFeatureInput, userId?: string): AiFeatureRequest => {
+    const spec = AI_FEATURES[input.feature] as FeatureSpec<AiFeatureInput['vars']>;
+    // Only the parts of the profile the prompts use go into the request.
+    const vars = 'user' in input.vars ? { ...input.vars, user: toPromptUser(input.vars.user) } : input.vars;
+    const template = spec.template?.(vars);
+    const ref = template && { template: template.name, version: input.promptVersion ?? resolvePromptRef(template, userId).version };
+    if (template && !template.versions[ref!.version]) {
+        throw new Error(`Prompt "${template.name}" has no version "${ref!.version}".`);
+    }
+    let text = template ? template.versions[ref!.version](vars) : spec.prompt!(vars);
+    if (input.repair) text = buildRepairPrompt(text, input.repair);
+
+    const kind = spec.kind || 'generate';
+    return {
+        feature: input.feature,
+        kind,
+        input: { ...input, vars, promptVersion: ref?.version } as AiFeatureInput,
+        prompt: kind === 'generate' ? text : '',
+        systemInstruction: kind === 'generate' ? undefined : text,
+        tools: spec.tools,
+        location: spec.location?.(vars),
+        schema: spec.schema,
+        ref,
+    };
+};
@@ -0,0 +1,170 @@
+import type { AiFeature, AiSource } from './aiProvider';
+import type {
+    SkillGap,
+    RoadmapStep,
+    ProjectSuggestion,
+    Trend,
+    ResumeFeedback,
+    QuizQuestion,
+    Course,
+    ProjectStep,
+    JobPosting,
+} from '../types';
+
+export interface AiFixture {
+    text: string;
+    sources?: AiSource[];
+}
+
+const json = (value: unknown): AiFixture => ({ text: JSON.stringify(value) });
+
+// A grounded search answer with one web source per item, followed by its extraction pass pointing back at them.
+const searchResults = <T extends { title: string; url: string }>(items: T[]): AiFixture => ({
+    text: items.map(item => `- ${item.title}: ${item.url}`).join('\n'),
+    sources: items.map(item => ({ title: new URL(item.url).hostname, url: item.url, kind: 'web' as const })),
+});
+const extracted = <T>(items: T[]): AiFixture => json(items.map((item, i) => ({ ...item, sourceIndex: i + 1 })));
+
+const skillMap: Omit<SkillGap, 'id'>[] = [
+    { name: 'Python', proficiency: 'Intermediate', category: ['Programming Languages'], isGap: false },
+    { name: 'SQL', proficiency: 'Intermediate', category: ['Databases'], isGap: false },
+    { name: 'Git', proficiency: 'Beginner', category: ['Tools'], isGap: false },
+    { name: 'Communication', proficiency: 'Advanced', category: ['Soft Skills'], isGap: false },
+    { name: 'Machine Learning', proficiency: 'Beginner', category: ['Data Science', 'AI'], isGap: true },
+    { name: 'Docker', proficiency: 'Beginner', category: ['Cloud', 'DevOps'], isGap: true },
+    { name: 'System Design', proficiency: 'Beginner', category: ['Architecture'], isGap: true },
+];
+
+const roadmap: Omit<RoadmapStep, 'id' | 'completed'>[] = [
+    {
+        title: 'Foundations Refresh',
+        duration: 'Weeks 1-2',
+        skillsToLearn: ['Python', 'Git'],
+        suggestedResources: [
+            { name: 'The Python Tutorial', url: 'https://docs.python.org/3/tutorial/', type: 'Documentation' },
+            { name: 'Pro Git Book', url: 'https://git-scm.com/book/en/v2', type: 'Book' },
+        ],
+        milestoneProject: 'Publish a small command-line tool to a public Git repository.',
+    },
+    {
+        title: 'Data & Machine Learning Basics',
+        duration: 'Weeks 3-6',
+        skillsToLearn: ['SQL', 'Machine Learning'],
+        suggestedResources: [
+            { name: 'SQLBolt', url: 'https://sqlbolt.com/', type: 'Course' },
+            { name: 'scikit-learn User Guide', url: 'https://scikit-learn.org/stable/user_guide.html', type: 'Documentation' },
+        ],
+        milestoneProject: 'Train and evaluate a classifier on a public dataset.',
+    },
+    {
+        title: 'Shipping to Production',
+        duration: 'Weeks 7-10',
+        skillsToLearn: ['Docker', 'System Design'],
+        suggestedResources: [
+            { name: 'Docker Get Started', url: 'https://docs.docker.com/get-started/', type: 'Documentation' },
+            { name: 'The System Design Primer', url: 'https://github.com/donnemartin/system-design-primer', type: 'Article' },
+        ],
+        milestoneProject: 'Containerize your model behind a small HTTP API.',
+    },
+];
+
+const projectSuggestions: Omit<ProjectSuggestion, 'id'>[] = [
+    { title: 'Personal Finance Tracker', description: 'A web app that imports bank CSVs and visualizes spending trends.', requiredSkills: ['Python', 'SQL'], difficulty: 'Easy', xp: 80 },
+    { title: 'Job Posting Classifier', description: 'Classify job postings by seniority using a simple ML pipeline.', requiredSkills: ['Python', 'Machine Learning'], difficulty: 'Medium', xp: 200 },
+    { title: 'Deployable Recommendation API', description: 'Serve course recommendations from a containerized model with monitoring.', requiredSkills: ['Docker', 'System Design', 'Machine Learning'], difficulty: 'Hard', xp: 400 },
+];
+
+const industryTrends: Trend[] = [
+    { title: 'AI-Assisted Development', summary: 'Teams increasingly pair with AI coding assistants. Knowing how to review and test generated code is becoming a core skill.', type: 'Current' },
+    { title: 'Data Platform Consolidation', summary: 'Companies are merging warehouses and lakes into unified platforms. SQL fluency remains in high demand.', type: 'Current' },
+    { title: 'Agentic Workflows', summary: 'Multi-step AI agents are moving from demos into production systems. Evaluation and guardrails will differentiate engineers.', type: 'Future' },
+    { title: 'On-Device Models', summary: 'Smaller models running locally reduce latency and cost. Expect demand for optimization and deployment skills.', type: 'Future' },
+];
+
+const resumeFeedback: ResumeFeedback = {
+    overallScore: 72,
+    feedbackSections: [
+        { title: 'Summary', score: 6, feedback: 'The summary is generic and does not mention the target role.', suggestions: ['Name the target role in the first sentence.', 'Mention one quantified achievement.'] },
+        { title: 'Experience', score: 7, feedback: 'Responsibilities are listed, but impact is rarely measured.', suggestions: ['Start each bullet with an action verb.', 'Add numbers to at least half of the bullets.'] },
+        { title: 'Skills', score: 8, feedback: 'Relevant skills are present and well grouped.', suggestions: ['Move the most relevant skills to the front.'] },
+    ],
+    finalSummary: 'A solid foundation with clear technical skills. Focus on quantifying impact and tailoring the summary to the role.',
+    suggestedBullets: [
+        'Automated weekly reporting with Python, saving the team 6 hours per week.',
+        'Designed SQL queries that cut dashboard load times by 40%.',
+        'Led a three-person project to migrate legacy scripts into a tested package.',
+    ],
+};
+
+const quizQuestions: QuizQuestion[] = [
+    { question: 'Which SQL clause filters rows after aggregation?', type: 'mcq', options: ['WHERE', 'HAVING', 'GROUP BY', 'ORDER BY'], answer: 'HAVING', explanation: 'HAVING filters groups produced by GROUP BY, while WHERE filters rows before grouping.' },
+    { question: 'What does overfitting mean in machine learning?', type: 'mcq', options: ['The model is too simple', 'The model memorizes training data and generalizes poorly', 'The dataset is too large', 'Training takes too long'], answer: 'The model memorizes training data and generalizes poorly', explanation: 'An overfit model performs well on training data but poorly on unseen data.' },
+    { question: 'Which Git command creates a new branch and switches to it?', type: 'mcq', options: ['git branch -d', 'git checkout -b', 'git merge', 'git stash'], answer: 'git checkout -b', explanation: '`git checkout -b <name>` creates the branch and checks it out in one step.' },
+];
+
+const onlineCourses: Course[] = [
+    { title: 'Python for Everybody', description: 'A beginner-friendly introduction to programming with Python.', url: 'https://www.py4e.com/', type: 'Online', rating: 4.8 },
+    { title: 'Machine Learning Crash Course', description: 'A fast-paced, practical introduction to machine learning.', url: 'https://developers.google.com/machine-learning/crash-course', type: 'Online', rating: 4.6 },
+    { title: 'CS50 SQL', description: 'An introduction to databases using SQL.', url: 'https://cs50.harvard.edu/sql/', type: 'Online', rating: 4.7 },
+];
+
+const projectPlan: Omit<ProjectStep, 'id' | 'completed'>[] = [
+    { title: 'Define the scope', description: 'Write down the core features and what "done" looks like.' },
+    { title: 'Set up the repository', description: 'Create the project skeleton, linting and a first commit.' },
+    { title: 'Build the core feature', description: 'Implement the main workflow end to end with sample data.' },
+    { title: 'Add tests', description: 'Cover the core logic with a handful of focused tests.' },
+    { title: 'Polish and publish', description: 'Write a README with screenshots and deploy a demo.' },
+];
+
+const jobs: JobPosting[] = [
+    { title: 'Junior Data Analyst', company: 'Northwind Analytics', location: 'Remote', url: 'https://example.com/jobs/northwind-junior-data-analyst', description: 'Build dashboards and answer business questions with SQL and Python.' },
+    { title: 'Machine Learning Engineer I', company: 'Contoso Labs', location: 'Austin, TX', url: 'https://example.com/jobs/contoso-ml-engineer', description: 'Ship and monitor ML models that power product recommendations.' },
+    { title: 'Associate Software Engineer', company: 'Fabrikam', location: 'New York, NY', url: 'https://example.com/jobs/fabrikam-associate-swe', description: 'Work on internal data tooling alongside senior engineers.' },
+];
+
+// Canned responses per feature. Calls replay them in order and wrap around, so a run is fully deterministic.
+export const defaultAiFixtures: Record<AiFeature, AiFixture[]> = {
+    skillMap: [json(skillMap)],
+    roadmap: [json(roadmap)],
+    projectSuggestions: [json(projectSuggestions)],
+    industryTrends: [json(industryTrends)],
+    resumeFeedback: [json(resumeFeedback)],
+    resumeBuilder: [{ text: '# Alex Example\n\n## Summary\nAspiring engineer with a background in analytics.\n\n## Skills\n- Python, SQL, Git\n\n## Projects\n- **Personal Finance Tracker**: Visualizes spending trends from bank exports.\n\n## Experience\n- [Company] — [Role] ([Dates])' }],
+    interviewSummary: [{ text: '- **Overall Performance:** Clear and structured answers.\n- **Strengths:**\n  - Good use of concrete examples.\n  - Calm, confident delivery.\n- **Areas for Improvement:**\n  - Quantify the outcome of each story.\n  - Keep technical answers shorter.' }],
+    quizTopics: [json(['SQL', 'Machine Learning Fundamentals', 'Git', 'Python Data Structures', 'System Design Basics'])],
+    quizQuestion: quizQuestions.map(json),
+    voiceSummary: [{ text: '- Focus on one roadmap step at a time.\n- Share your projects publicly to build credibility.\n- Practice explaining trade-offs out loud.' }],
+    nearbyCourses: [{
+        text: '',
+        sources: [
+            { title: 'Downtown Coding Bootcamp', url: 'https://maps.google.com/?cid=1001', kind: 'maps' },
+            { title: 'City Library Data Workshop', url: 'https://maps.google.com/?cid=1002', kind: 'maps' },
+        ],
+    }],
+    onlineCourses: [searchResults(onlineCourses)],
+    onlineCoursesExtraction: [extracted(onlineCourses.map(({ type, ...course }) => course))],
+    projectPlan: [json(projectPlan)],
+    jobs: [searchResults(jobs)],
+    jobsExtraction: [extracted(jobs)],
+    professionalEmail: [{ text: 'Subject: Thank You for Your Time\n\nDear Hiring Manager,\n\nThank you for speaking with me today. I enjoyed learning more about the team and the role.\n\nBest regards,\nAlex' }],
+    elevatorPitch: [{ text: "Hi, I'm Alex. I turn messy data into decisions, and I'm growing into machine learning engineering by shipping small, real projects end to end." }],
+    coverLetter: [{ text: 'Dear Hiring Team,\n\nI am excited to apply for this role. My experience with Python and SQL, together with recent machine learning projects, has prepared me to contribute from day one.\n\nSincerely,\nAlex' }],
+    linkedinSummary: [{ text: "I'm an analyst turned aspiring ML engineer who loves building useful tools with data. I work mostly in Python and SQL, and recently shipped a job posting classifier. I'm passionate about practical AI and open to connecting!" }],
+    mentorChat: [
+        { text: "Great question! 🚀 Based on your roadmap, I'd focus on finishing the current step before starting anything new. Want me to suggest a small project to practice?" },
+        { text: 'Consistency beats intensity. Try blocking 45 minutes a day for your roadmap and track it here. 💪' },
+    ],
+    webSearch: [{
+        text: 'Recent reports highlight strong demand for engineers who can combine data skills with production experience.',
+        sources: [{ title: 'example.com', url: 'https://example.com/industry-report', kind: 'web' }],
+    }],
+    interviewChat: [
+        { text: "Hi, I'm your interviewer today. Let's start with an easy one: tell me about a project you're proud of." },
+        { text: 'Thanks for sharing. What was the hardest technical decision you made on that project, and why?' },
+        { text: 'Good answer, your reasoning was clear. Next: how would you explain overfitting to a non-technical stakeholder?' },
+    ],
+    voiceMentor: [
+        { text: "Hi! I'm your voice mentor. What would you like to work on today?" },
+        { text: "That's a great goal. Let's break it down into one thing you can do this week." },
+    ],
+};
@@ -0,0 +1,152 @@
+import type { Schema } from "@google/genai";
+import type { AiFeatureInput } from './aiFeatureRequests';
+import { createGeminiProvider } from './geminiProvider';
+import { createFixtureProvider } from './fixtureProvider';
+import { createProxyProvider } from './proxyProvider';
+import { withUsageBudget } from './aiUsage';
+
+// Every AI call is tagged with the feature that made it, so providers (and the fixture replays) can tell them apart.
+export type AiFeature =
+    | 'skillMap'
+    | 'roadmap'
+    | 'projectSuggestions'
+    | 'industryTrends'
+    | 'resumeFeedback'
+    | 'resumeBuilder'
+    | 'interviewSummary'
+    | 'quizTopics'
+    | 'quizQuestion'
+    | 'voiceSummary'
+    | 'nearbyCourses'
+    | 'onlineCourses'
+    | 'onlineCoursesExtraction'
+    | 'projectPlan'
+    | 'jobs'
+    | 'jobsExtraction'
+    | 'professionalEmail'
+    | 'elevatorPitch'
+    | 'coverLetter'
+    | 'linkedinSummary'
+    | 'mentorChat'
+    | 'webSearch'
+    | 'interviewChat'
+    | 'voiceMentor';
+
+export type AiTool = 'googleSearch' | 'googleMaps';
+
+// `input` is what the prompt was rendered from; the proxy provider sends only that and renders it again on the server.
+export interface AiGenerateRequest {
+    feature: AiFeature;
+    model: string;
+    input: AiFeatureInput;
+    prompt: string;
+    systemInstruction?: string;
+    tools?: AiTool[];
+    location?: { latitude: number; longitude: number };
+    thinkingBudget?: number;
+    signal?: AbortSignal;
+}
+
+// Accepted by the service functions so a component can cancel a request it no longer needs.
+export interface AiRequestOptions {
+    signal?: AbortSignal;
+}
+
+export interface AiStructuredRequest extends AiGenerateRequest {
+    schema: Schema;
+}
+
+export interface AiSource {
+    title: string;
+    url: string;
+    kind: 'web' | 'maps';
+}
+
+export interface AiResponse {
+    text: string;
+    sources: AiSource[];
+}
+
+export interface AiChatOptions {
+    feature: AiFeature;
+    model: string;
+    input: AiFeatureInput;
+    systemInstruction: string;
+    thinkingBudget?: number;
+}
+
+export interface AiChat {
+    sendMessageStream: (message: string, signal?: AbortSignal) => AsyncIterable<string>;
+}
+
+export interface AiLiveEvent {
+    inputTranscription?: string;
+    outputTranscription?: string;
+    audio?: string; // base64-encoded 24kHz PCM
+}
+
+export interface AiLiveOptions {
+    feature: AiFeature;
+    model: string;
+    input: AiFeatureInput;
+    systemInstruction: string;
+    voiceName: string;
+    callbacks: {
+        onopen: () => void;
+        onevent: (event: AiLiveEvent) => void | Promise<void>;
+        onerror: (error: unknown) => void;
+        onclose: () => void;
+    };
+}
+
+export interface AiLiveSession {
+    sendAudio: (chunk: { data: string; mimeType: string }) => void;
+    close: () => void;
+}
+
+export interface AiProvider {
+    name: string;
+    generate: (request: AiGenerateRequest) => Promise<AiResponse>;
+    generateStructured: (request: AiStructuredRequest) => Promise<AiResponse>;
+    stream: (request: AiGenerateRequest) => AsyncIterable<string>;
+    // Streams the raw JSON text of a schema-constrained response.
+    streamStructured: (request: AiStructuredRequest) => AsyncIterable<string>;
+    createChat: (options: AiChatOptions) => AiChat;
+    connectLive: (options: AiLiveOptions) => Promise<AiLiveSession>;
+}
+
+let activeProvider: AiProvider | null = null;
+
+// AI calls go through the proxy server by default, so the Gemini key stays on the server. AI_PROVIDER=gemini
+// calls Gemini straight from the browser with a key baked into the bundle, which is only for local development;
+// AI_PROVIDER=fixture replays canned responses offline.
+const resolveProvider = (): AiProvider => {
+    const requested = process.env.AI_PROVIDER || 'proxy';
+
+    if (requested === 'fixture') {
+        return createFixtureProvider();
+    }
+    if (requested === 'gemini') {
+        const apiKey = process.env.API_KEY;
+        if (!apiKey) {
+            throw new Error("API_KEY environment variable not set");
+        }
+        return createGeminiProvider(apiKey);
+    }
+    if (requested === 'proxy') {
+        return createProxyProvider(process.env.AI_PROXY_URL || '/api');
+    }
+    throw new Error(`Unknown AI_PROVIDER "${requested}". Expected "proxy", "gemini" or "fixture".`);
+};
+
+export const getAiProvider = (): AiProvider => {
+    if (!activeProvider) {
+        activeProvider = withUsageBudget(resolveProvider());
+    }
+    return activeProvider;
+};
+
+// Lets tests and demos swap the provider at runtime. Passing null restores the environment-based choice.
+export const setAiProvider = (provider: AiProvider | null) => {
+    activeProvider = provider && withUsageBudget(provider);
+};
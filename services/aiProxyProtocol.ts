@@ -0,0 +1,43 @@
+import type { AiFeatureInput } from './aiFeatureRequests';
+import type { AiLiveEvent, AiResponse } from './aiProvider';
+import type { AiUsage } from './aiUsage';
+
+// Wire format between the proxy provider in the browser and the proxy server in server/.
+
+// Requests carry a feature's inputs rather than a prompt. The server renders the prompt from them itself, so
+// Gemini only ever gets the app's own prompts, schemas and tools.
+export interface ProxyRequestBody {
+    model: string;
+    input: AiFeatureInput;
+    thinkingBudget?: number;
+}
+
+export interface ProxyResponse extends AiResponse {
+    usage: AiUsage;
+}
+
+// Streaming endpoints answer with newline-delimited JSON, one of these per line.
+export type ProxyStreamLine =
+    | { text: string }
+    | { usage: AiUsage }
+    | { error: string; status: number };
+
+export interface ProxyChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+// The proxy keeps no chat state, so each message carries the conversation so far.
+export interface ProxyChatBody extends ProxyRequestBody {
+    history: ProxyChatTurn[];
+    message: string;
+}
+
+export type ProxyLiveClientMessage =
+    | { type: 'setup'; token: string; model: string; input: AiFeatureInput; voiceName: string }
+    | { type: 'audio'; data: string; mimeType: string };
+
+export type ProxyLiveServerMessage =
+    | { type: 'open' }
+    | { type: 'event'; event: AiLiveEvent; usage?: AiUsage }
+    | { type: 'error'; message: string };
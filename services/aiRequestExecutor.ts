@@ -0,0 +1,134 @@
+import type { AiFeature } from './aiProvider';
+
+// At most this many model requests are in flight at once; the rest wait their turn.
+const MAX_CONCURRENT_REQUESTS = 3;
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const MAX_RETRY_AFTER_MS = 60000;
+
+// Rate limits, server errors and gateway timeouts are usually gone a moment later.
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export interface AiRetryStatus {
+    feature: AiFeature;
+    // The attempt that just failed, starting at 1.
+    attempt: number;
+    maxAttempts: number;
+    retryInMs: number;
+}
+
+type AiRetryListener = (retrying: AiRetryStatus[]) => void;
+
+const listeners = new Set<AiRetryListener>();
+const retrying = new Map<symbol, AiRetryStatus>();
+
+const notify = () => {
+    const statuses = Array.from(retrying.values());
+    listeners.forEach(listener => listener(statuses));
+};
+
+// Lets the UI show which requests are currently waiting to retry. Returns an unsubscribe function.
+export const subscribeToAiRetries = (listener: AiRetryListener): (() => void) => {
+    listeners.add(listener);
+    listener(Array.from(retrying.values()));
+    return () => { listeners.delete(listener); };
+};
+
+let activeRequests = 0;
+const waitingForSlot: (() => void)[] = [];
+
+const acquireSlot = (): Promise<void> => {
+    if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+        activeRequests++;
+        return Promise.resolve();
+    }
+    return new Promise(resolve => waitingForSlot.push(resolve));
+};
+
+const releaseSlot = () => {
+    const next = waitingForSlot.shift();
+    if (next) {
+        next();
+    } else {
+        activeRequests--;
+    }
+};
+
+const getStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown })?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+const isRetryable = (error: unknown): boolean => {
+    const status = getStatus(error);
+    if (status !== undefined) return RETRYABLE_STATUSES.includes(status);
+    // fetch rejects with a TypeError when the network drops.
+    return error instanceof TypeError;
+};
+
+// Gemini puts its hint in the error body as RetryInfo, e.g. "retryDelay": "12s". Proxy errors carry it
+// from the Retry-After header instead.
+const getRetryAfterMs = (error: unknown): number | undefined => {
+    const retryAfterMs = (error as { retryAfterMs?: unknown })?.retryAfterMs;
+    if (typeof retryAfterMs === 'number') return retryAfterMs;
+    const message = error instanceof Error ? error.message : String(error);
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Exponential backoff with full jitter, so parallel callers don't all retry at the same instant.
+const backoffMs = (attempt: number): number => Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// True for the error a request rejects with after its AbortSignal fires.
+export const isAbortError = (error: unknown): boolean => (error as { name?: unknown })?.name === 'AbortError';
+
+// Runs a model request under the shared concurrency cap, retrying transient failures.
+// Non-retryable errors, and the last error once attempts run out, are rethrown to the caller.
+// Once the signal is aborted no further attempts are made and the request rejects with an AbortError.
+export const executeAiRequest = async <T>(feature: AiFeature, request: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    const id = Symbol(feature);
+    for (let attempt = 1; ; attempt++) {
+        let retryInMs: number;
+        signal?.throwIfAborted();
+        await acquireSlot();
+        try {
+            signal?.throwIfAborted();
+            return await request();
+        } catch (error) {
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
+            const retryAfterMs = getRetryAfterMs(error);
+            // A quota that resets in minutes isn't worth keeping the user waiting for.
+            if (attempt >= MAX_ATTEMPTS || !isRetryable(error) || (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS)) {
+                throw error;
+            }
+            retryInMs = retryAfterMs ?? backoffMs(attempt);
+            console.warn(`${feature} request failed (attempt ${attempt} of ${MAX_ATTEMPTS}), retrying in ${Math.round(retryInMs)}ms:`, error);
+        } finally {
+            // The slot is released while waiting so a backing-off request doesn't hold up the others.
+            releaseSlot();
+        }
+        retrying.set(id, { feature, attempt, maxAttempts: MAX_ATTEMPTS, retryInMs });
+        notify();
+        try {
+            await wait(retryInMs, signal);
+        } finally {
+            retrying.delete(id);
+            notify();
+        }
+    }
+};
@@ -0,0 +1,159 @@
+import type { AiFeature, AiProvider } from './aiProvider';
+
+export interface AiUsage {
+    promptTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+}
+
+// Usage is aggregated per day, feature and model, which keeps the stored history small.
+export interface AiUsageRecord extends AiUsage {
+    date: string; // YYYY-MM-DD, local time
+    feature: AiFeature;
+    model: string;
+    requests: number;
+    estimatedCost: number; // USD
+}
+
+export interface AiUsageBudget {
+    // Soft limit on estimated spend per day in USD. null means no limit.
+    dailyCostLimit: number | null;
+    // What happens once today's spend passes the limit.
+    action: 'warn' | 'downgrade';
+}
+
+// Published list prices in USD per million tokens. Thinking tokens are billed as output.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-flash-lite-latest': { input: 0.1, output: 0.4 },
+    'gemini-2.5-flash-native-audio-preview-09-2025': { input: 3, output: 12 },
+};
+
+// The cheaper model each model falls back to when the budget is exceeded and set to downgrade.
+const MODEL_DOWNGRADES: Record<string, string> = {
+    'gemini-2.5-pro': 'gemini-2.5-flash',
+    'gemini-2.5-flash': 'gemini-flash-lite-latest',
+};
+
+const HISTORY_DAYS = 90;
+const DEFAULT_BUDGET: AiUsageBudget = { dailyCostLimit: null, action: 'warn' };
+
+let currentUserId: string | null = null;
+const listeners = new Set<() => void>();
+
+const usageKey = (userId: string) => `ai-usage:${userId}`;
+const budgetKey = (userId: string) => `ai-usage-budget:${userId}`;
+
+const toDateKey = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        const stored = localStorage.getItem(key);
+        return stored ? JSON.parse(stored) : fallback;
+    } catch (error) {
+        console.warn(`Could not read ${key}:`, error);
+        return fallback;
+    }
+};
+
+const writeJson = (key: string, value: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        console.warn(`Could not save ${key}:`, error);
+    }
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const estimateCost = (model: string, usage: AiUsage): number => {
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) return 0;
+    return (usage.promptTokens * pricing.input + (usage.outputTokens + usage.thinkingTokens) * pricing.output) / 1_000_000;
+};
+
+// Usage is stored on this device, per signed-in user. Calls made while signed out are not recorded.
+export const setAiUsageUser = (userId: string | null) => {
+    currentUserId = userId;
+    notify();
+};
+
+export const subscribeToAiUsage = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getAiUsage = (): AiUsageRecord[] => currentUserId ? readJson<AiUsageRecord[]>(usageKey(currentUserId), []) : [];
+
+export const recordAiUsage = (feature: AiFeature, model: string, usage: AiUsage) => {
+    if (!currentUserId) return;
+    const date = toDateKey(new Date());
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - HISTORY_DAYS);
+    const records = getAiUsage().filter(r => r.date >= toDateKey(cutoff));
+
+    let record = records.find(r => r.date === date && r.feature === feature && r.model === model);
+    if (!record) {
+        record = { date, feature, model, requests: 0, promptTokens: 0, outputTokens: 0, thinkingTokens: 0, estimatedCost: 0 };
+        records.push(record);
+    }
+    record.requests += 1;
+    record.promptTokens += usage.promptTokens;
+    record.outputTokens += usage.outputTokens;
+    record.thinkingTokens += usage.thinkingTokens;
+    record.estimatedCost += estimateCost(model, usage);
+
+    writeJson(usageKey(currentUserId), records);
+    notify();
+};
+
+export const getAiUsageBudget = (): AiUsageBudget => currentUserId ? readJson(budgetKey(currentUserId), DEFAULT_BUDGET) : DEFAULT_BUDGET;
+
+export const setAiUsageBudget = (budget: AiUsageBudget) => {
+    if (!currentUserId) return;
+    writeJson(budgetKey(currentUserId), budget);
+    notify();
+};
+
+// Removes a user's usage records and budget from this device, e.g. when their account is deleted.
+export const clearAiUsage = (userId: string) => {
+    localStorage.removeItem(usageKey(userId));
+    localStorage.removeItem(budgetKey(userId));
+    notify();
+};
+
+export const getTodaysCost = (): number => {
+    const today = toDateKey(new Date());
+    return getAiUsage().filter(r => r.date === today).reduce((sum, r) => sum + r.estimatedCost, 0);
+};
+
+export const isOverBudget = (): boolean => {
+    const { dailyCostLimit } = getAiUsageBudget();
+    return dailyCostLimit !== null && getTodaysCost() >= dailyCostLimit;
+};
+
+const shouldDowngrade = () => getAiUsageBudget().action === 'downgrade' && isOverBudget();
+
+// Wraps a provider so that, once the daily budget is spent and set to downgrade, requests go to a cheaper
+// model without extended thinking. Live voice has no cheaper equivalent and is left alone.
+export const withUsageBudget = (provider: AiProvider): AiProvider => {
+    const downgrade = <T extends { model: string; thinkingBudget?: number }>(request: T): T => {
+        if (!shouldDowngrade()) return request;
+        const model = MODEL_DOWNGRADES[request.model] || request.model;
+        return { ...request, model, thinkingBudget: undefined };
+    };
+
+    return {
+        ...provider,
+        generate: (request) => provider.generate(downgrade(request)),
+        generateStructured: (request) => provider.generateStructured(downgrade(request)),
+        stream: (request) => provider.stream(downgrade(request)),
+        streamStructured: (request) => provider.streamStructured(downgrade(request)),
+        createChat: (options) => provider.createChat(downgrade(options)),
+    };
+};
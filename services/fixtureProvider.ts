@@ -0,0 +1,77 @@
+import type { AiFeature, AiProvider, AiResponse } from './aiProvider';
+import { defaultAiFixtures, AiFixture } from './aiFixtures';
+import { recordAiUsage } from './aiUsage';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Splits a reply into word-sized chunks so streamed UIs behave like they do against a real model.
+const toChunks = (text: string): string[] => text.match(/\S+\s*/g) || [text];
+
+export const createFixtureProvider = (fixtures: Record<AiFeature, AiFixture[]> = defaultAiFixtures, chunkDelayMs = 20): AiProvider => {
+    const callCounts = new Map<AiFeature, number>();
+
+    const next = (feature: AiFeature): AiFixture => {
+        const replies = fixtures[feature];
+        if (!replies || replies.length === 0) {
+            throw new Error(`No fixture responses recorded for feature "${feature}".`);
+        }
+        const count = callCounts.get(feature) || 0;
+        callCounts.set(feature, count + 1);
+        return replies[count % replies.length];
+    };
+
+    // Records a rough token estimate (about four characters per token) so the usage page has data offline too.
+    const recordEstimate = (feature: AiFeature, model: string, prompt: string, reply: string) => {
+        recordAiUsage(feature, model, { promptTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(reply.length / 4), thinkingTokens: 0 });
+    };
+
+    const respond = async (feature: AiFeature, model: string, prompt: string, signal?: AbortSignal): Promise<AiResponse> => {
+        signal?.throwIfAborted();
+        const fixture = next(feature);
+        recordEstimate(feature, model, prompt, fixture.text);
+        return { text: fixture.text, sources: fixture.sources || [] };
+    };
+
+    const streamReply = async function* (feature: AiFeature, model: string, prompt: string, signal?: AbortSignal) {
+        const { text } = next(feature);
+        recordEstimate(feature, model, prompt, text);
+        for (const chunk of toChunks(text)) {
+            await wait(chunkDelayMs);
+            signal?.throwIfAborted();
+            yield chunk;
+        }
+    };
+
+    return {
+        name: 'fixture',
+        generate: (request) => respond(request.feature, request.model, request.prompt, request.signal),
+        generateStructured: (request) => respond(request.feature, request.model, request.prompt, request.signal),
+        stream: (request) => streamReply(request.feature, request.model, request.prompt, request.signal),
+        streamStructured: (request) => streamReply(request.feature, request.model, request.prompt, request.signal),
+        createChat: (options) => ({
+            sendMessageStream: (message, signal) => streamReply(options.feature, options.model, message, signal),
+        }),
+        connectLive: async (options) => {
+            const { onopen, onevent, onclose } = options.callbacks;
+            const timers: ReturnType<typeof setTimeout>[] = [];
+            const replies = fixtures[options.feature] || [];
+            let closed = false;
+
+            // Opens asynchronously, like a real socket, then plays back the scripted mentor lines as transcriptions.
+            timers.push(setTimeout(onopen, 0));
+            replies.forEach((reply, index) => {
+                timers.push(setTimeout(() => onevent({ outputTranscription: reply.text }), (index + 1) * 1500));
+            });
+
+            return {
+                sendAudio: () => {},
+                close: () => {
+                    if (closed) return;
+                    closed = true;
+                    timers.forEach(clearTimeout);
+                    onclose();
+                },
+            };
+        },
+    };
+};
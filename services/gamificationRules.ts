@@ -0,0 +1,94 @@
+import type { UserProject } from '../types';
+
+// Every XP reward and the level curve, in one place. Anything that awards XP or shows a level reads it from
+// here; change a number and every consumer follows.
+export interface GamificationRules {
+    xp: {
+        roadmapStep: number;
+        projectByDifficulty: Record<UserProject['difficulty'], number>;
+        // The first band whose minimum the score reaches applies. Scores are percentages.
+        quizScoreBands: { minScore: number; xp: number }[];
+        interviewCompleted: number;
+        voiceSession: number;
+        // Weekly quests by what they ask for, and goals users set themselves.
+        quests: { roadmapStep: number; skillGap: number; jobPipeline: number; practice: number; personalGoal: number };
+    };
+    levels: {
+        // XP needed to go from level 1 to level 2. Each level after that needs `growth` times the one before.
+        firstLevelXp: number;
+        growth: number;
+        // The title a level carries, from `fromLevel` until the next entry takes over.
+        titles: { fromLevel: number; title: string }[];
+    };
+}
+
+export const GAMIFICATION_RULES: GamificationRules = {
+    xp: {
+        roadmapStep: 150,
+        projectByDifficulty: { Easy: 100, Medium: 250, Hard: 500 },
+        quizScoreBands: [
+            { minScore: 90, xp: 100 },
+            { minScore: 70, xp: 60 },
+            { minScore: 50, xp: 30 },
+            { minScore: 0, xp: 10 },
+        ],
+        interviewCompleted: 80,
+        voiceSession: 40,
+        quests: { roadmapStep: 100, skillGap: 75, jobPipeline: 75, practice: 50, personalGoal: 25 },
+    },
+    levels: {
+        firstLevelXp: 500,
+        growth: 1.2,
+        titles: [
+            { fromLevel: 1, title: 'Newcomer' },
+            { fromLevel: 3, title: 'Apprentice' },
+            { fromLevel: 5, title: 'Practitioner' },
+            { fromLevel: 8, title: 'Professional' },
+            { fromLevel: 12, title: 'Expert' },
+            { fromLevel: 16, title: 'Master' },
+        ],
+    },
+};
+
+export const projectXp = (project: Pick<UserProject, 'difficulty'>, rules = GAMIFICATION_RULES): number =>
+    rules.xp.projectByDifficulty[project.difficulty] ?? rules.xp.projectByDifficulty.Medium;
+
+export const quizXp = (score: number, rules = GAMIFICATION_RULES): number =>
+    rules.xp.quizScoreBands.find(band => score >= band.minScore)?.xp ?? 0;
+
+// Total XP needed to reach `level`. Level 1 starts at 0.
+export const xpForLevel = (level: number, rules = GAMIFICATION_RULES): number => {
+    let total = 0;
+    for (let l = 1; l < level; l++) {
+        total += Math.round(rules.levels.firstLevelXp * rules.levels.growth ** (l - 1));
+    }
+    return total;
+};
+
+export const levelForXp = (xp: number, rules = GAMIFICATION_RULES): number => {
+    let level = 1;
+    while (xpForLevel(level + 1, rules) <= xp) level++;
+    return level;
+};
+
+export const levelTitle = (level: number, rules = GAMIFICATION_RULES): string =>
+    [...rules.levels.titles].reverse().find(entry => level >= entry.fromLevel)?.title ?? rules.levels.titles[0].title;
+
+export interface LevelProgress {
+    level: number;
+    title: string;
+    // XP earned since reaching this level, and the XP this level takes to complete.
+    current: number;
+    needed: number;
+}
+
+export const levelProgress = (xp: number, rules = GAMIFICATION_RULES): LevelProgress => {
+    const level = levelForXp(xp, rules);
+    const start = xpForLevel(level, rules);
+    return {
+        level,
+        title: levelTitle(level, rules),
+        current: xp - start,
+        needed: xpForLevel(level + 1, rules) - start,
+    };
+};
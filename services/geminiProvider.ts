@@ -0,0 +1,164 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentConfig, GenerateContentResponse, GenerateContentResponseUsageMetadata, LiveServerMessage } from "@google/genai";
+import type { AiGenerateRequest, AiProvider, AiResponse, AiSource, AiStructuredRequest } from './aiProvider';
+import { executeAiRequest } from './aiRequestExecutor';
+import { recordAiUsage, AiUsage } from './aiUsage';
+
+// The helpers below are shared with the proxy server in server/, which calls Gemini on the client's behalf.
+export const buildConfig = (request: AiGenerateRequest): GenerateContentConfig => {
+    const config: GenerateContentConfig = {};
+    if (request.systemInstruction) {
+        config.systemInstruction = request.systemInstruction;
+    }
+    if (request.tools?.length) {
+        config.tools = request.tools.map(tool => tool === 'googleMaps' ? { googleMaps: {} } : { googleSearch: {} });
+    }
+    if (request.location) {
+        config.toolConfig = { retrievalConfig: { latLng: request.location } };
+    }
+    if (request.thinkingBudget !== undefined) {
+        config.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+    }
+    if (request.signal) {
+        config.abortSignal = request.signal;
+    }
+    return config;
+};
+
+export const buildStructuredConfig = (request: AiStructuredRequest): GenerateContentConfig => ({
+    ...buildConfig(request),
+    responseMimeType: "application/json",
+    responseSchema: request.schema,
+});
+
+export const toUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): AiUsage => ({
+    promptTokens: metadata?.promptTokenCount || 0,
+    outputTokens: metadata?.candidatesTokenCount || 0,
+    thinkingTokens: metadata?.thoughtsTokenCount || 0,
+});
+
+export const toAiResponse = (response: GenerateContentResponse): AiResponse => {
+    const sources: AiSource[] = [];
+    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    for (const chunk of chunks) {
+        if (chunk.web?.uri) {
+            sources.push({ title: chunk.web.title || new URL(chunk.web.uri).hostname, url: chunk.web.uri, kind: 'web' });
+        } else if (chunk.maps?.uri) {
+            sources.push({ title: chunk.maps.title || '', url: chunk.maps.uri, kind: 'maps' });
+        }
+    }
+    return { text: response.text || '', sources };
+};
+
+export const createGeminiProvider = (apiKey: string): AiProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    // Only opening a stream is retried; once text has been yielded a failure is passed on to the caller.
+    const streamText = async function* (request: AiGenerateRequest, config: GenerateContentConfig) {
+        const responseStream = await executeAiRequest(
+            request.feature,
+            () => ai.models.generateContentStream({ model: request.model, contents: request.prompt, config }),
+            request.signal,
+        );
+        // Each chunk carries the running totals, so the last one seen is the usage for the whole response.
+        let usage: GenerateContentResponseUsageMetadata | undefined;
+        try {
+            for await (const chunk of responseStream) {
+                usage = chunk.usageMetadata || usage;
+                yield chunk.text || '';
+            }
+        } finally {
+            recordAiUsage(request.feature, request.model, toUsage(usage));
+        }
+    };
+
+    return {
+        name: 'gemini',
+
+        generate: async (request) => {
+            const response = await executeAiRequest(
+                request.feature,
+                () => ai.models.generateContent({ model: request.model, contents: request.prompt, config: buildConfig(request) }),
+                request.signal,
+            );
+            recordAiUsage(request.feature, request.model, toUsage(response.usageMetadata));
+            return toAiResponse(response);
+        },
+
+        generateStructured: async (request) => {
+            const response = await executeAiRequest(request.feature, () => ai.models.generateContent({
+                model: request.model,
+                contents: request.prompt,
+                config: buildStructuredConfig(request),
+            }), request.signal);
+            recordAiUsage(request.feature, request.model, toUsage(response.usageMetadata));
+            return toAiResponse(response);
+        },
+
+        stream: (request) => streamText(request, buildConfig(request)),
+
+        streamStructured: (request) => streamText(request, buildStructuredConfig(request)),
+
+        createChat: (options) => {
+            const config: GenerateContentConfig = { systemInstruction: options.systemInstruction };
+            if (options.thinkingBudget !== undefined) {
+                config.thinkingConfig = { thinkingBudget: options.thinkingBudget };
+            }
+            const chat = ai.chats.create({ model: options.model, config });
+            return {
+                sendMessageStream: async function* (message, signal) {
+                    const responseStream = await executeAiRequest(
+                        options.feature,
+                        () => chat.sendMessageStream({ message, config: signal && { abortSignal: signal } }),
+                        signal,
+                    );
+                    let usage: GenerateContentResponseUsageMetadata | undefined;
+                    try {
+                        for await (const chunk of responseStream) {
+                            usage = chunk.usageMetadata || usage;
+                            yield chunk.text || '';
+                        }
+                    } finally {
+                        recordAiUsage(options.feature, options.model, toUsage(usage));
+                    }
+                },
+            };
+        },
+
+        connectLive: async (options) => {
+            const session = await executeAiRequest(options.feature, () => ai.live.connect({
+                model: options.model,
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } } },
+                    systemInstruction: options.systemInstruction,
+                    inputAudioTranscription: {},
+                    outputAudioTranscription: {},
+                },
+                callbacks: {
+                    onopen: options.callbacks.onopen,
+                    onmessage: (message: LiveServerMessage) => {
+                        if (message.usageMetadata) {
+                            recordAiUsage(options.feature, options.model, {
+                                promptTokens: message.usageMetadata.promptTokenCount || 0,
+                                outputTokens: message.usageMetadata.responseTokenCount || 0,
+                                thinkingTokens: message.usageMetadata.thoughtsTokenCount || 0,
+                            });
+                        }
+                        options.callbacks.onevent({
+                            inputTranscription: message.serverContent?.inputTranscription?.text,
+                            outputTranscription: message.serverContent?.outputTranscription?.text,
+                            audio: message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data,
+                        });
+                    },
+                    onerror: options.callbacks.onerror,
+                    onclose: options.callbacks.onclose,
+                },
+            }));
+            return {
+                sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+                close: () => session.close(),
+            };
+        },
+    };
+};
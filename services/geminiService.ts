@@ -1,4 +1,3 @@
-import { GoogleGenAI, Type } from "@google/genai";
 import type {
     SkillGap,
     RoadmapStep,
@@ -11,596 +10,382 @@ import type {
     QuizQuestion,
     Course,
     JobPosting,
+    VoiceSession,
 } from '../types';
+import { getAiProvider, AiRequestOptions, AiSource } from './aiProvider';
+import { withAiCache, AiCacheOptions } from './aiCache';
+import { isAbortError } from './aiRequestExecutor';
+import { buildAiFeatureRequest, AiFeatureRequest } from './aiFeatureRequests';
+import { validateSchema } from '../utils/schemaValidation';
+import { parseJsonArrayStream } from '../utils/jsonArrayStream';
+
+// How many times a structured call may ask the model to fix an invalid response before giving up.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// The model might wrap its JSON in a markdown block
+const extractJson = (text: string): string => {
+    const jsonMatch = text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+    return jsonMatch ? jsonMatch[1] : text;
+};
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-// Helper to safely parse JSON from the model, which might be in a markdown block
+// Helper to safely parse JSON from the model
 const parseJsonResponse = <T>(text: string, fallback: T): T => {
     try {
-        const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/);
-        const jsonString = jsonMatch ? jsonMatch[1] : text;
-        return JSON.parse(jsonString);
+        return JSON.parse(extractJson(text));
     } catch (e) {
         console.error("Failed to parse JSON response:", text, e);
         return fallback;
     }
 };
 
-export const generateSkillMap = async (interests: string, resume: string, targetRole: string, githubUrl: string, linkedinUrl: string, age: number, profession: string, educationLevel: string): Promise<SkillGap[]> => {
-    const prompt = `
-        Analyze the following user profile to identify their current skills and skill gaps for a target role of "${targetRole}".
-
-        **User Profile:**
-        - **Age:** ${age}
-        - **Current Profession:** ${profession}
-        - **Education Level:** ${educationLevel}
-        - **Interests:** ${interests}
-        - **Resume/Experience:** ${resume}
-        - **GitHub Profile:** ${githubUrl || 'Not provided'}
-        - **LinkedIn Profile:** ${linkedinUrl || 'Not provided'}
-
-        Based on this complete profile:
-        1.  Identify all relevant skills (technical and soft).
-        2.  Categorize each skill (e.g., "Programming Languages", "Frameworks", "Cloud", "Soft Skills").
-        3.  Estimate their proficiency level (Beginner, Intermediate, Advanced, Expert).
-        4.  Determine if a skill is a "gap" (i.e., a skill they likely need for the target role but don't possess or have low proficiency in).
-        5.  Return the analysis as a JSON array.
-    `;
+// A feature's request, with the model to send it to.
+type FeatureCall = AiFeatureRequest & { model: string; signal?: AbortSignal };
+
+// Requests JSON for a structured feature, validates it against the schema (plus any extra checks)
+// and asks the model to repair invalid output a bounded number of times. Throws if it never becomes valid.
+const generateValidatedJson = async <T>(request: FeatureCall, check?: (value: T) => string[]): Promise<T> => {
+    const provider = getAiProvider();
+    const { model, signal } = request;
+    const schema = request.schema!;
+    // Grounded calls can't use a response schema, so their output is only validated after the fact.
+    const send = (attempt: AiFeatureRequest) => attempt.tools?.length
+        ? provider.generate({ ...attempt, model, signal })
+        : provider.generateStructured({ ...attempt, model, signal, schema });
+
+    let attempt: AiFeatureRequest = request;
+    let errors: string[] = [];
+    for (let attemptNumber = 0; attemptNumber <= MAX_REPAIR_ATTEMPTS; attemptNumber++) {
+        const response = await send(attempt);
+        let value: unknown;
+        try {
+            value = JSON.parse(extractJson(response.text));
+            errors = validateSchema(value, schema);
+            if (errors.length === 0 && check) {
+                errors = check(value as T);
+            }
+        } catch (e) {
+            errors = ['The response is not valid JSON.'];
+        }
+        if (errors.length === 0) {
+            return value as T;
+        }
+        console.warn(`Invalid ${request.feature} response (attempt ${attemptNumber + 1} of ${MAX_REPAIR_ATTEMPTS + 1}):`, errors);
+        attempt = buildAiFeatureRequest({ ...request.input, repair: { invalidText: response.text, errors } });
+    }
+    throw new Error(`The AI returned an invalid ${request.feature} response. ${errors.slice(0, 3).join('; ')}`);
+};
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            name: { type: Type.STRING },
-                            proficiency: { type: Type.STRING, enum: ['Beginner', 'Intermediate', 'Advanced', 'Expert'] },
-                            category: { type: Type.ARRAY, items: { type: Type.STRING } },
-                            isGap: { type: Type.BOOLEAN }
-                        },
-                        required: ['name', 'proficiency', 'category', 'isGap']
-                    }
-                }
-            },
-        });
-        return parseJsonResponse(response.text, []);
-    } catch (error) {
-        console.error("Error generating skill map:", error);
-        return [];
+// Streams a JSON array for a structured feature and yields each element as soon as it is complete and valid.
+// Invalid elements are skipped. Elements already yielded stay with the caller if the stream fails part way;
+// a stream that produces nothing usable throws, so an existing list is never replaced by an empty one.
+const streamValidatedArray = async function* <T>(request: FeatureCall): AsyncGenerator<T> {
+    const schema = request.schema!;
+    const chunks = getAiProvider().streamStructured({ ...request, schema });
+    let count = 0;
+    for await (const item of parseJsonArrayStream(chunks)) {
+        const errors = validateSchema(item, schema.items!);
+        if (errors.length > 0) {
+            console.warn(`Skipping invalid ${request.feature} item:`, errors);
+            continue;
+        }
+        count++;
+        yield item as T;
+    }
+    if (count === 0) {
+        throw new Error(`The AI returned no usable ${request.feature} items.`);
     }
 };
 
-export const generateRoadmap = async (user: UserProfile, refinementPrompt?: string): Promise<RoadmapStep[]> => {
-    const prompt = `
-        Create a detailed, actionable learning roadmap for a user aiming to become a "${user.targetRole}".
+type Cited<T> = T & { sourceIndex: number };
 
-        **User's Profile:**
-        - **Age:** ${user.age}
-        - **Current Profession:** ${user.profession}
-        - **Education Level:** ${user.educationLevel}
-        - **Current Skills:** ${user.skills.map(s => `- ${s.name} (${s.proficiency}, ${s.isGap ? 'Gap' : 'Existing'})`).join('\n')}
-        
-        **Important:** Tailor the roadmap's complexity, pace, and resource suggestions to the user's life stage and background.
-        - For a student or someone early in their career, focus on foundational knowledge and a broader range of skills.
-        - For a working professional, suggest ways to leverage their existing experience and focus on skills that enable a career pivot or advancement. The timeline should be realistic for someone potentially working full-time.
-
-        The roadmap should:
-        1. Be broken down into logical steps or phases (e.g., "Week 1-2: Foundations").
-        2. For each step, list the specific skills to learn.
-        3. Suggest 3-4 high-quality, real resources (courses, articles, docs, videos) for each step with their type and a valid URL.
-        4. Define a small, practical milestone project to complete at the end of each step to solidify learning.
-        5. The entire roadmap should be achievable within a reasonable timeframe (e.g., 3-6 months).
-        ${refinementPrompt ? `\n**User Refinement:** "${refinementPrompt}"\nIncorporate this feedback into the new roadmap.` : ''}
-
-        Return this as a JSON array of roadmap steps. Set 'completed' to false for all steps.
-    `;
+const hostOf = (url: string): string | null => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            title: { type: Type.STRING },
-                            duration: { type: Type.STRING },
-                            skillsToLearn: { type: Type.ARRAY, items: { type: Type.STRING } },
-                            suggestedResources: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        name: { type: Type.STRING },
-                                        url: { type: Type.STRING },
-                                        type: { type: Type.STRING, enum: ['Course', 'Article', 'Video', 'Documentation', 'Book', 'Podcast'] }
-                                    },
-                                    required: ['name', 'url', 'type']
-                                }
-                            },
-                            milestoneProject: { type: Type.STRING },
-                        },
-                        required: ['title', 'duration', 'skillsToLearn', 'suggestedResources', 'milestoneProject']
-                    }
-                },
-            },
-        });
-        const steps = parseJsonResponse<Omit<RoadmapStep, 'completed'>[]>(response.text, []);
-        return steps.map(step => ({ ...step, completed: false }));
-    } catch (error) {
-        console.error("Error generating roadmap:", error);
-        return [];
+        return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+        return null;
     }
 };
 
-export const generateProjectSuggestions = async (user: UserProfile, refinementPrompt?: string): Promise<ProjectSuggestion[]> => {
-     const prompt = `
-        Based on the user's profile, suggest 3-5 portfolio-worthy projects.
+// Search grounding links are usually redirects titled with the site's domain, so an item matches a source
+// when its URL is the source itself or sits on the site the source names.
+const matchesSource = (url: string, source: AiSource): boolean => {
+    if (url === source.url) return true;
+    const host = hostOf(url);
+    if (!host) return false;
+    const sites = [hostOf(source.url), source.title.toLowerCase().replace(/^www\./, '')];
+    return sites.some(site => !!site && (host === site || host.endsWith(`.${site}`)));
+};
 
-        **User's Profile:**
-        - **Age:** ${user.age}
-        - **Current Profession:** ${user.profession}
-        - **Education Level:** ${user.educationLevel}
-        - **Target Role:** ${user.targetRole}
-        - **Skills:** ${user.skills.map(s => s.name).join(', ')}
+// Prefers the source the model named and falls back to any other that matches. Items with no matching
+// grounding source are kept but flagged as unverified.
+const attachCitation = <T extends { url: string }>({ sourceIndex, ...item }: Cited<T>, sources: AiSource[]): T => {
+    const named = sources[sourceIndex - 1];
+    const source = named && matchesSource(item.url, named) ? named : sources.find(s => matchesSource(item.url, s));
+    if (!source) {
+        return { ...item, verified: false } as unknown as T;
+    }
+    return { ...item, source: { title: source.title, url: source.url }, verified: true } as unknown as T;
+};
 
-        **Important:** Tailor the project suggestions. A student might get more foundational or experimental projects. A working professional might get projects that solve a business-like problem or could integrate with their current industry.
+// Grounded calls can't use a response schema, so searches run in two stages: a grounded call retrieves
+// results as free text along with their sources, then a schema-constrained call without tools extracts
+// the items and says which source each came from.
+const findGroundedItems = async <T extends { url: string }>(search: FeatureCall, extraction: { feature: 'onlineCoursesExtraction' | 'jobsExtraction'; itemName: string }): Promise<T[]> => {
+    const results = await getAiProvider().generate(search);
+    const sources = results.sources.filter(source => source.kind === 'web');
+    const items = await generateValidatedJson<Cited<T>[]>({
+        ...buildAiFeatureRequest({ feature: extraction.feature, vars: { itemName: extraction.itemName, results: results.text, sources } }),
+        model: search.model,
+        signal: search.signal,
+    });
+    return items.map(item => attachCitation(item, sources));
+};
 
-        For each project:
-        1. Provide a catchy title and a brief description.
-        2. List the key skills required.
-        3. Assign a difficulty (Easy, Medium, Hard).
-        4. Assign an XP value (Easy: 50-100, Medium: 150-250, Hard: 300-500).
-        ${refinementPrompt ? `\n**User Refinement:** "${refinementPrompt}"\nIncorporate this feedback into the new suggestions.` : ''}
+export const generateSkillMap = async (interests: string, resume: string, targetRole: string, githubUrl: string, linkedinUrl: string, age: number, profession: string, educationLevel: string, options?: AiRequestOptions): Promise<SkillGap[]> => {
+    const request = buildAiFeatureRequest({ feature: 'skillMap', vars: { interests, resume, targetRole, githubUrl, linkedinUrl, age, profession, educationLevel } });
 
-        Return this as a JSON array.
-    `;
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            title: { type: Type.STRING },
-                            description: { type: Type.STRING },
-                            requiredSkills: { type: Type.ARRAY, items: { type: Type.STRING } },
-                            difficulty: { type: Type.STRING, enum: ['Easy', 'Medium', 'Hard'] },
-                            xp: { type: Type.INTEGER }
-                        },
-                        required: ['title', 'description', 'requiredSkills', 'difficulty', 'xp']
-                    }
-                }
-            },
-        });
-        return parseJsonResponse(response.text, []);
+        const skills = await generateValidatedJson<Omit<SkillGap, 'id'>[]>({ ...request, model: 'gemini-2.5-pro', signal: options?.signal });
+        return skills.map(skill => ({ ...skill, id: crypto.randomUUID(), generatedBy: request.ref }));
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error generating skill map:", error);
+        throw error;
+    }
+};
+
+export const streamRoadmap = async function* (user: UserProfile, refinementPrompt?: string, options?: AiRequestOptions): AsyncGenerator<RoadmapStep> {
+    const request = buildAiFeatureRequest({ feature: 'roadmap', vars: { user, refinementPrompt } }, user.id);
+    try {
+        const steps = streamValidatedArray<Omit<RoadmapStep, 'id' | 'completed'>>({ ...request, model: 'gemini-2.5-pro', signal: options?.signal });
+        for await (const step of steps) {
+            yield { ...step, id: crypto.randomUUID(), completed: false, generatedBy: request.ref };
+        }
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error("Error generating roadmap:", error);
+        throw error;
+    }
+};
+
+export const streamProjectSuggestions = async function* (user: UserProfile, refinementPrompt?: string, options?: AiRequestOptions): AsyncGenerator<ProjectSuggestion> {
+    const request = buildAiFeatureRequest({ feature: 'projectSuggestions', vars: { user, refinementPrompt } }, user.id);
+    try {
+        const projects = streamValidatedArray<Omit<ProjectSuggestion, 'id'>>({ ...request, model: 'gemini-2.5-flash', signal: options?.signal });
+        for await (const project of projects) {
+            yield { ...project, id: crypto.randomUUID(), generatedBy: request.ref };
+        }
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error generating project suggestions:", error);
-        return [];
+        throw error;
     }
 };
 
-export const getIndustryTrends = async (targetRole: string): Promise<Trend[]> => {
-    const prompt = `
-        Identify key industry trends for a "${targetRole}".
-        Provide 2 "Current" trends (what's hot right now) and 2 "Future" trends (what's emerging).
-        For each trend, provide a title and a concise 2-3 sentence summary.
-        Return this as a JSON array.
-    `;
+export const getIndustryTrends = async (targetRole: string, options?: AiCacheOptions & AiRequestOptions): Promise<Trend[]> => {
+    const request = buildAiFeatureRequest({ feature: 'industryTrends', vars: { targetRole } });
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            title: { type: Type.STRING },
-                            summary: { type: Type.STRING },
-                            type: { type: Type.STRING, enum: ['Current', 'Future'] }
-                        },
-                        required: ['title', 'summary', 'type']
-                    }
-                }
-            },
-        });
-        return parseJsonResponse(response.text, []);
+        return await withAiCache('industryTrends', { model: 'gemini-2.5-flash', prompt: request.prompt }, async () => {
+            const response = await getAiProvider().generateStructured({ ...request, model: 'gemini-2.5-flash', signal: options?.signal, schema: request.schema! });
+            return parseJsonResponse<Trend[]>(response.text, []).map(trend => ({ ...trend, generatedBy: request.ref }));
+        }, options);
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error getting industry trends:", error);
         return [];
     }
 };
 
-export const getResumeFeedback = async (resumeText: string, targetRole: string): Promise<ResumeFeedback> => {
-    const prompt = `
-        Act as an expert career coach and resume reviewer. Analyze the following resume for a person targeting a "${targetRole}" position.
-
-        **Resume Text:**
-        ${resumeText}
-
-        **Tasks:**
-        1.  **Overall Score:** Provide an overall score out of 100.
-        2.  **Section-by-Section Feedback:** Analyze key sections (e.g., Summary, Experience, Skills, Projects). For each, provide a score out of 10, specific feedback, and 2-3 actionable suggestions for improvement.
-        3.  **Final Summary:** Write a concise summary of the resume's strengths and weaknesses.
-        4.  **Suggested Bullets:** Generate 3-4 powerful, action-oriented bullet points tailored to the target role that the user could adapt for their experience section.
-
-        Return the complete analysis in a single JSON object.
-    `;
+export const getResumeFeedback = async (resumeText: string, targetRole: string, options?: AiRequestOptions): Promise<ResumeFeedback> => {
+    const request = buildAiFeatureRequest({ feature: 'resumeFeedback', vars: { resumeText, targetRole } });
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        overallScore: { type: Type.NUMBER },
-                        feedbackSections: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    title: { type: Type.STRING },
-                                    score: { type: Type.NUMBER },
-                                    feedback: { type: Type.STRING },
-                                    suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
-                                },
-                                required: ['title', 'score', 'feedback', 'suggestions']
-                            }
-                        },
-                        finalSummary: { type: Type.STRING },
-                        suggestedBullets: { type: Type.ARRAY, items: { type: Type.STRING } }
-                    },
-                    required: ['overallScore', 'feedbackSections', 'finalSummary', 'suggestedBullets']
-                }
-            },
-        });
-        return parseJsonResponse(response.text, { overallScore: 0, feedbackSections: [], finalSummary: '', suggestedBullets: [] });
+        const feedback = await generateValidatedJson<ResumeFeedback>({ ...request, model: 'gemini-2.5-pro', signal: options?.signal });
+        return { ...feedback, generatedBy: request.ref };
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error getting resume feedback:", error);
         throw error;
     }
 };
 
-export const buildResume = async (user: UserProfile, sections: { summary: boolean, skills: boolean, projects: boolean, experience: boolean }): Promise<string> => {
-    const prompt = `
-        Generate a professional resume in Markdown format for ${user.name}.
-        
-        **User Profile:**
-        - **Age:** ${user.age}
-        - **Current Profession:** ${user.profession}
-        - **Education Level:** ${user.educationLevel}
-        - **Target Role:** ${user.targetRole}
-        - **Skills:** ${user.skills.map(s => s.name).join(', ')}
-        - **Completed Projects:** ${user.projects.filter(p => p.status === 'Completed').map(p => `- ${p.title}: ${p.description}`).join('\n')}
-        - **Contact:** LinkedIn: ${user.linkedinUrl || 'N/A'}, GitHub: ${user.githubUrl || 'N/A'}
-
-        Include the following sections based on the user's selection:
-        ${sections.summary ? '- A professional summary (2-3 sentences), tailored to their experience level.' : ''}
-        ${sections.skills ? '- A skills section, categorized.' : ''}
-        ${sections.projects ? '- A projects section, highlighting key achievements for 2-3 top projects.' : ''}
-        ${sections.experience ? '- A professional experience section with placeholders for the user to fill in.' : ''}
-
-        Format the output as clean, well-structured Markdown.
-    `;
+export const buildResume = async (user: UserProfile, sections: { summary: boolean, skills: boolean, projects: boolean, experience: boolean }, options?: AiRequestOptions): Promise<string> => {
+    const request = buildAiFeatureRequest({ feature: 'resumeBuilder', vars: { user, sections } }, user.id);
     try {
-        const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
+        const response = await getAiProvider().generate({ ...request, model: 'gemini-2.5-flash', signal: options?.signal });
         return response.text;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error building resume:", error);
         return "Error: Could not generate resume.";
     }
 };
 
-export const summarizeInterview = async (transcript: ChatMessage[], user: UserProfile): Promise<string> => {
-    const prompt = `
-        Analyze the following mock interview transcript for a "${user.targetRole}" role. The candidate is ${user.age} years old and is a ${user.profession}.
-        Provide a concise summary of feedback for the candidate. Structure the feedback using Markdown with the following sections:
-        - **Overall Performance:** A brief summary.
-        - **Strengths:** 2-3 bullet points on what they did well.
-        - **Areas for Improvement:** 2-3 bullet points with actionable advice.
-
-        **Transcript:**
-        ${transcript.map(m => `${m.role === 'user' ? 'Candidate' : 'Interviewer'}: ${m.text}`).join('\n')}
-    `;
+export const summarizeInterview = async (transcript: ChatMessage[], user: UserProfile, options?: AiRequestOptions): Promise<string> => {
+    const request = buildAiFeatureRequest({ feature: 'interviewSummary', vars: { transcript, user } }, user.id);
     try {
-        const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
+        const response = await getAiProvider().generate({ ...request, model: 'gemini-2.5-flash', signal: options?.signal });
         return response.text;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error summarizing interview:", error);
         return "Could not generate a summary.";
     }
 };
 
-export const getQuizTopics = async (user: UserProfile): Promise<string[]> => {
-    const prompt = `List 5-7 key technical or domain-specific topics that are essential for a "${user.targetRole}" interview. Take into account that the candidate is a ${user.profession} with an education level of ${user.educationLevel}. Return as a JSON array of strings.`;
+export const getQuizTopics = async (user: UserProfile, options?: AiCacheOptions & AiRequestOptions): Promise<string[]> => {
+    const request = buildAiFeatureRequest({ feature: 'quizTopics', vars: { user } });
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-flash-lite-latest',
-            contents: prompt,
-            config: { responseMimeType: "application/json", responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } } },
-        });
-        return parseJsonResponse(response.text, []);
+        return await withAiCache('quizTopics', { model: 'gemini-flash-lite-latest', prompt: request.prompt }, async () => {
+            const response = await getAiProvider().generateStructured({ ...request, model: 'gemini-flash-lite-latest', signal: options?.signal, schema: request.schema! });
+            return parseJsonResponse(response.text, []);
+        }, options);
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error getting quiz topics:", error);
         return [];
     }
 };
 
-export const generateQuizQuestion = async (topics: string[], askedQuestions: string[]): Promise<QuizQuestion | null> => {
-    const prompt = `
-        Generate a multiple-choice quiz question for an interview candidate based on these topics: ${topics.join(', ')}.
-        The question should be relevant for a job interview.
-        Do not repeat any of these previously asked questions: ${askedQuestions.join(', ') || 'None'}
-
-        Provide:
-        - A clear question.
-        - 4 distinct options.
-        - The correct answer.
-        - A brief explanation for the answer.
-
-        Return as a single JSON object.
-    `;
+export const generateQuizQuestion = async (topics: string[], askedQuestions: string[], options?: AiRequestOptions): Promise<QuizQuestion> => {
+    const request = buildAiFeatureRequest({ feature: 'quizQuestion', vars: { topics, askedQuestions } });
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        question: { type: Type.STRING },
-                        type: { type: Type.STRING, enum: ['mcq'] },
-                        options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        answer: { type: Type.STRING },
-                        explanation: { type: Type.STRING }
-                    },
-                    required: ['question', 'type', 'options', 'answer', 'explanation']
-                }
-            },
-        });
-        return parseJsonResponse(response.text, null);
+        const question = await generateValidatedJson<QuizQuestion>({ ...request, model: 'gemini-2.5-flash', signal: options?.signal }, (question) =>
+            question.options.includes(question.answer) ? [] : [`$.answer "${question.answer}" must be exactly one of the options`]
+        );
+        return { ...question, generatedBy: request.ref };
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error generating quiz question:", error);
-        return null;
+        throw error;
     }
 };
 
-export const summarizeVoiceSession = async (transcript: { speaker: string, text: string }[], user: UserProfile): Promise<string> => {
-    const prompt = `
-        Analyze the following voice session transcript between an AI Mentor and a user named ${user.name}, who is a ${user.age}-year-old ${user.profession} preparing for a "${user.targetRole}" role.
-        Identify the key takeaways and advice given during the session.
-        Summarize these points into 3-4 bullet points using Markdown.
-
-        **Transcript:**
-        ${transcript.map(t => `${t.speaker === 'user' ? user.name : 'Mentor'}: ${t.text}`).join('\n')}
-    `;
+export const summarizeVoiceSession = async (transcript: VoiceSession['transcript'], user: UserProfile, options?: AiRequestOptions): Promise<string> => {
+    const request = buildAiFeatureRequest({ feature: 'voiceSummary', vars: { transcript, user } }, user.id);
     try {
-        const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
+        const response = await getAiProvider().generate({ ...request, model: 'gemini-2.5-flash', signal: options?.signal });
         return response.text;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error summarizing voice session:", error);
         return "Could not generate a summary.";
     }
 };
 
-export const findNearbyCourses = async (query: string, location: { latitude: number, longitude: number }): Promise<Course[]> => {
-    const prompt = `
-        Find local, in-person courses, workshops, or bootcamps related to "${query}".
-        For each result, provide the course title, a short description, and a Google Maps URL.
-        Format the output as a JSON array of objects.
-    `;
+// Rounds coordinates to roughly a kilometre so small GPS jitter still hits the cache.
+const nearbyArea = (location: { latitude: number, longitude: number }) => ({
+    latitude: Math.round(location.latitude * 100) / 100,
+    longitude: Math.round(location.longitude * 100) / 100,
+});
+
+export const findNearbyCourses = async (query: string, location: { latitude: number, longitude: number }, options?: AiCacheOptions & AiRequestOptions): Promise<Course[]> => {
+    const request = buildAiFeatureRequest({ feature: 'nearbyCourses', vars: { query, location } });
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                tools: [{ googleMaps: {} }],
-                toolConfig: { retrievalConfig: { latLng: location } }
-            },
-        });
+        return await withAiCache('nearbyCourses', { model: 'gemini-2.5-flash', prompt: request.prompt, area: nearbyArea(location) }, async () => {
+            const response = await getAiProvider().generate({ ...request, model: 'gemini-2.5-flash', signal: options?.signal });
         
-        const courses: Course[] = [];
-        const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-        for (const chunk of chunks) {
-            if (chunk.maps) {
-                courses.push({
-                    title: chunk.maps.title || query,
-                    description: `A local opportunity for ${query} found near you.`,
-                    url: chunk.maps.uri,
-                    type: 'Local'
-                });
+            const courses: Course[] = [];
+            for (const source of response.sources) {
+                if (source.kind === 'maps') {
+                    courses.push({
+                        title: source.title || query,
+                        description: `A local opportunity for ${query} found near you.`,
+                        url: source.url,
+                        type: 'Local',
+                        source: { title: source.title, url: source.url },
+                        verified: true,
+                    });
+                }
+            }
+            // Supplement with text if available and looks like JSON
+            if (response.text.trim().startsWith('[')) {
+                 const textCourses = parseJsonResponse<any[]>(response.text, []);
+                 textCourses.forEach(tc => {
+                     if(tc.title && tc.url && !courses.some(c => c.url === tc.url)) {
+                         courses.push({
+                             title: tc.title,
+                             description: tc.description || '',
+                             url: tc.url,
+                             type: 'Local',
+                             verified: false,
+                         });
+                     }
+                 });
             }
-        }
-        // Supplement with text if available and looks like JSON
-        if (response.text.trim().startsWith('[')) {
-             const textCourses = parseJsonResponse<any[]>(response.text, []);
-             textCourses.forEach(tc => {
-                 if(tc.title && tc.url && !courses.some(c => c.url === tc.url)) {
-                     courses.push({
-                         title: tc.title,
-                         description: tc.description || '',
-                         url: tc.url,
-                         type: 'Local'
-                     });
-                 }
-             });
-        }
 
-        return courses;
+            return courses;
+        }, options);
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error finding nearby courses:", error);
         return [];
     }
 };
 
-export const findOnlineCourses = async (query: string): Promise<Course[]> => {
-     const prompt = `
-        Find the top 5 online courses for "${query}".
-        For each course, provide the title, a short description, the URL, and a rating out of 5.
-        Format the output as a JSON array of objects.
-    `;
+export const findOnlineCourses = async (query: string, options?: AiCacheOptions & AiRequestOptions): Promise<Course[]> => {
+    const request = buildAiFeatureRequest({ feature: 'onlineCourses', vars: { query } });
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: { tools: [{ googleSearch: {} }] },
-        });
-        // The model is asked to return JSON, but grounding is used, so we parse defensively.
-        return parseJsonResponse(response.text, []);
+        return await withAiCache('onlineCourses', { model: 'gemini-2.5-flash', prompt: request.prompt }, async () => {
+            const courses = await findGroundedItems<Omit<Course, 'type'>>(
+                { ...request, model: 'gemini-2.5-flash', signal: options?.signal },
+                { feature: 'onlineCoursesExtraction', itemName: 'online courses' },
+            );
+            return courses.map(course => ({ ...course, type: 'Online' as const }));
+        }, options);
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error finding online courses:", error);
-        return [];
+        throw error;
     }
 };
 
-export const generateProjectPlan = async (title: string, description: string): Promise<ProjectStep[]> => {
-    const prompt = `
-        Create a step-by-step project plan for the following project:
-        **Title:** ${title}
-        **Description:** ${description}
-
-        Break it down into 5-7 actionable steps. For each step, provide a title and a 1-2 sentence description.
-        Return this as a JSON array. Set 'completed' to false for all steps.
-    `;
+export const generateProjectPlan = async (title: string, description: string, options?: AiRequestOptions): Promise<ProjectStep[]> => {
+    const request = buildAiFeatureRequest({ feature: 'projectPlan', vars: { title, description } });
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            title: { type: Type.STRING },
-                            description: { type: Type.STRING },
-                        },
-                        required: ['title', 'description']
-                    }
-                }
-            },
-        });
-        const plan = parseJsonResponse<Omit<ProjectStep, 'completed'>[]>(response.text, []);
-        return plan.map(p => ({ ...p, completed: false }));
+        const response = await getAiProvider().generateStructured({ ...request, model: 'gemini-2.5-flash', signal: options?.signal, schema: request.schema! });
+        const plan = parseJsonResponse<Omit<ProjectStep, 'id' | 'completed'>[]>(response.text, []);
+        return plan.map(p => ({ ...p, id: crypto.randomUUID(), completed: false, generatedBy: request.ref }));
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error generating project plan:", error);
         return [];
     }
 };
 
-export const findJobs = async (role: string, location: string): Promise<JobPosting[]> => {
-    const prompt = `
-        Find 5 recent job postings for a "${role}" role ${location ? `in or near "${location}"` : ''}.
-        For each job, provide the title, company, location, a direct URL to the posting, and a brief description.
-        Format the output as a JSON array.
-    `;
+export const findJobs = async (role: string, location: string, options?: AiCacheOptions & AiRequestOptions): Promise<JobPosting[]> => {
+    const request = buildAiFeatureRequest({ feature: 'jobs', vars: { role, location } });
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: { tools: [{ googleSearch: {} }] },
-        });
-        return parseJsonResponse(response.text, []);
+        return await withAiCache('jobs', { model: 'gemini-2.5-flash', prompt: request.prompt }, () => findGroundedItems<JobPosting>(
+            { ...request, model: 'gemini-2.5-flash', signal: options?.signal },
+            { feature: 'jobsExtraction', itemName: 'job postings' },
+        ), options);
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error finding jobs:", error);
-        return [];
+        throw error;
     }
 };
 
-export const generateProfessionalEmail = async (recipientRole: string, goal: string, keyPoints: string): Promise<string> => {
-    const prompt = `
-        Draft a professional and concise email.
-        - Recipient: ${recipientRole}
-        - Goal of email: ${goal}
-        - Key points to include:
-        ${keyPoints.split('\n').map(p => `- ${p}`).join('\n')}
-
-        The email should be well-structured with a clear subject line, a polite opening, a body that covers the key points, and a professional closing.
-    `;
-    const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
+export const generateProfessionalEmail = async (recipientRole: string, goal: string, keyPoints: string, options?: AiRequestOptions): Promise<string> => {
+    const request = buildAiFeatureRequest({ feature: 'professionalEmail', vars: { recipientRole, goal, keyPoints } });
+    const response = await getAiProvider().generate({ ...request, model: 'gemini-2.5-flash', signal: options?.signal });
     return response.text;
 };
 
-export const generateElevatorPitch = async (user: UserProfile): Promise<string> => {
-    const prompt = `
-        Craft a compelling 30-second elevator pitch for ${user.name}.
-        
-        **User Profile:**
-        - **Age:** ${user.age}
-        - **Current Role:** ${user.profession}
-        - **Target Role:** ${user.targetRole}
-        - **Key Skills:** ${user.skills.filter(s => !s.isGap).map(s => s.name).slice(0, 5).join(', ')}
-        - **Highlight from Projects:** Focus on a completed project if available: ${user.projects.find(p => p.status === 'Completed')?.title || 'General passion for the field'}.
-
-        The pitch should be engaging, confident, and clearly state their value proposition for their target role, keeping their background in mind.
-    `;
-    const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
+export const generateElevatorPitch = async (user: UserProfile, options?: AiRequestOptions): Promise<string> => {
+    const request = buildAiFeatureRequest({ feature: 'elevatorPitch', vars: { user } }, user.id);
+    const response = await getAiProvider().generate({ ...request, model: 'gemini-2.5-flash', signal: options?.signal });
     return response.text;
 };
 
-export const generateCoverLetter = async (jobDescription: string, userInfo: string, user: UserProfile): Promise<string> => {
-    const prompt = `
-        Write a professional cover letter for ${user.name} applying for a job.
-
-        **User's Information (from profile):**
-        ${userInfo}
-
-        **Job Description:**
-        ${jobDescription}
-
-        The cover letter should:
-        1. Be tailored to the specific job description.
-        2. Highlight the most relevant skills and project experiences from the user's info.
-        3. Have a professional tone and structure (introduction, body paragraphs connecting experience to job requirements, conclusion).
-        4. Express genuine interest in the role and company.
-    `;
-    const response = await ai.models.generateContent({ model: 'gemini-2.5-pro', contents: prompt });
+export const generateCoverLetter = async (jobDescription: string, userInfo: string, user: UserProfile, options?: AiRequestOptions): Promise<string> => {
+    const request = buildAiFeatureRequest({ feature: 'coverLetter', vars: { jobDescription, userInfo, user } }, user.id);
+    const response = await getAiProvider().generate({ ...request, model: 'gemini-2.5-pro', signal: options?.signal });
     return response.text;
 };
 
-export const optimizeLinkedInSummary = async (currentSummary: string, user: UserProfile): Promise<string> => {
-    const prompt = `
-        Act as a LinkedIn profile optimization expert. Review and improve this LinkedIn summary for ${user.name}, who is a ${user.age}-year-old ${user.profession} targeting a "${user.targetRole}" role.
-
-        **Current Summary (if any):**
-        ${currentSummary || "None provided. Please create a new one from scratch."}
-
-        **User's Profile Data:**
-        - **Key Skills:** ${user.skills.filter(s => s.proficiency !== 'Beginner').map(s => s.name).join(', ')}
-        - **Completed Projects:** ${user.projects.filter(p => p.status === 'Completed').map(p => p.title).join(', ')}
-        - **Education:** ${user.educationLevel}
-
-        The optimized summary should be:
-        - Written in the first person.
-        - Start with a strong hook that clearly states their professional identity and value.
-        - Showcase their top 3-5 skills and expertise areas.
-        - Mention a key achievement or project experience.
-        - End with a call to action (e.g., "I'm passionate about [topic] and open to connecting...").
-        - Be keyword-rich for the target role and appropriate for their experience level.
-    `;
-    const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
+export const optimizeLinkedInSummary = async (currentSummary: string, user: UserProfile, options?: AiRequestOptions): Promise<string> => {
+    const request = buildAiFeatureRequest({ feature: 'linkedinSummary', vars: { currentSummary, user } }, user.id);
+    const response = await getAiProvider().generate({ ...request, model: 'gemini-2.5-flash', signal: options?.signal });
     return response.text;
-};
\ No newline at end of file
+};
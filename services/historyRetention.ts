@@ -0,0 +1,42 @@
+import type { HistoryList, HistoryRetention, UserProfile } from '../types';
+import { setProfileList } from './profileTables';
+import type { ListItem } from './profileTables';
+
+export const HISTORY_LISTS: HistoryList[] = ['smartChatHistory', 'voiceMentorHistory', 'interviewHistory', 'quizHistory'];
+
+// What new profiles start with. Chats used to be capped at the last 20; other histories were kept in full.
+export const DEFAULT_HISTORY_RETENTION: Record<HistoryList, HistoryRetention> = {
+    smartChatHistory: { maxSessions: 20, maxAgeDays: null },
+    voiceMentorHistory: { maxSessions: null, maxAgeDays: null },
+    interviewHistory: { maxSessions: null, maxAgeDays: null },
+    quizHistory: { maxSessions: null, maxAgeDays: null },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Drops the sessions a policy no longer keeps: anything older than maxAgeDays, then all but the newest
+// maxSessions. The remaining sessions keep their order.
+export const applyRetention = <T extends { id: string; date: string }>(sessions: T[], policy: HistoryRetention, now = new Date()): T[] => {
+    const oldestKept = policy.maxAgeDays === null ? -Infinity : now.getTime() - policy.maxAgeDays * DAY_MS;
+    const kept = sessions.filter(session => new Date(session.date).getTime() >= oldestKept);
+    if (policy.maxSessions === null || kept.length <= policy.maxSessions) return kept;
+
+    const newest = new Set([...kept]
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        .slice(0, policy.maxSessions)
+        .map(session => session.id));
+    return kept.filter(session => newest.has(session.id));
+};
+
+// The histories that lose sessions under the profile's retention policies (or `policies`, when previewing a
+// change), ready to pass to a profile update. Empty when nothing has expired.
+export const expiredHistoryChanges = (profile: UserProfile, policies = profile.historyRetention, now = new Date()): Partial<UserProfile> => {
+    const changes: Partial<UserProfile> = {};
+    const expire = <K extends HistoryList>(list: K) => {
+        const sessions: ListItem<K>[] = profile[list];
+        const kept = applyRetention(sessions, policies[list], now);
+        if (kept.length < sessions.length) setProfileList(changes, list, kept);
+    };
+    HISTORY_LISTS.forEach(expire);
+    return changes;
+};
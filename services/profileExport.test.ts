@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { UserProfile } from '../types';
+import { testProfile, testStep } from './profileFixtures';
+import { applyProfileImport } from './profileExport';
+import { settleXp } from './xpLedger';
+
+// A profile from another account with a completed roadmap step, weekly quest and quiz, and the XP for them.
+const otherAccount = (): UserProfile => {
+    const profile = testProfile({
+        id: 'user-2',
+        roadmap: [testStep('step-1', true)],
+        quests: [{
+            id: 'quest-1', weekStart: '2026-10-12', kind: 'quest', title: 'Finish a step', metric: 'roadmap_steps', target: 1,
+            entityId: 'step-1', xp: 50, completedAt: '2026-10-14T10:00:00.000Z',
+        }],
+        quizHistory: [{ id: 'quiz-1', date: '2026-10-13T10:00:00.000Z', targetRole: 'Data Engineer', topics: ['SQL'], questions: [], score: 80 }],
+        activityLog: [{
+            id: 'event-1', type: 'quiz_completed', occurredAt: '2026-10-13T10:00:00.000Z', entityId: 'quiz-1', data: { targetRole: 'Data Engineer', score: 80 },
+        }],
+    });
+    return { ...profile, ...settleXp(profile) };
+};
+
+describe('applyProfileImport', () => {
+    it('keeps XP transactions, events and quests with the items they were for when rekeying another account', () => {
+        const imported = otherAccount();
+
+        const result = applyProfileImport(testProfile(), imported, 'replace');
+
+        expect(result.quests[0].id).not.toBe('quest-1');
+        expect(result.quests[0].entityId).toBe(result.roadmap[0].id);
+        expect(result.activityLog[0].entityId).toBe(result.quizHistory[0].id);
+        expect(result.xpLedger.map(t => t.sourceId).sort()).toEqual([result.roadmap[0].id, result.quests[0].id, result.quizHistory[0].id].sort());
+        // Nothing is paid out again for what the file already has XP for.
+        expect(settleXp(result)).toEqual({});
+        expect(result.xp).toBe(imported.xp);
+    });
+});
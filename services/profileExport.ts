@@ -0,0 +1,236 @@
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { UserProfile, XpTransaction } from '../types';
+import { validateSchema } from '../utils/schemaValidation';
+import { migrateProfile, seededId } from './profileMigrations';
+import { APPEND_ONLY_LISTS, PROFILE_LISTS, setProfileList } from './profileTables';
+import { createXpTransaction } from './xpLedger';
+import type { ListItem, ProfileList } from './profileTables';
+
+const EXPORT_FORMAT = 'ai-career-copilot-profile';
+// Bump when the envelope changes. The profile inside carries its own schemaVersion and is upgraded by the
+// profile migrations on import.
+const EXPORT_FORMAT_VERSION = 1;
+
+interface ProfileExportFile {
+    format: typeof EXPORT_FORMAT;
+    formatVersion: number;
+    exportedAt: string;
+    profile: Omit<UserProfile, 'id'>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportPreview {
+    profile: UserProfile;
+    exportedAt: string;
+    // The schema version the file was written with, when older than the current one.
+    upgradedFrom?: number;
+}
+
+const withId = (properties: Record<string, Schema>, required: string[]): Schema => ({
+    type: Type.OBJECT,
+    properties: { id: { type: Type.STRING }, ...properties },
+    required: ['id', ...required],
+});
+
+const listOf = (items: Schema): Schema => ({ type: Type.ARRAY, items });
+
+const dated = (properties: Record<string, Schema> = {}, required: string[] = []) =>
+    withId({ date: { type: Type.STRING }, ...properties }, ['date', ...required]);
+
+// What an imported profile must look like once upgraded to the current schema version. Only what the app
+// relies on is checked; optional fields pass through as they are.
+const PROFILE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        schemaVersion: { type: Type.INTEGER },
+        name: { type: Type.STRING },
+        age: { type: Type.NUMBER },
+        profession: { type: Type.STRING },
+        educationLevel: { type: Type.STRING },
+        targetRole: { type: Type.STRING },
+        xp: { type: Type.NUMBER },
+        level: { type: Type.NUMBER },
+        xpLedger: listOf(withId({
+            occurredAt: { type: Type.STRING },
+            amount: { type: Type.NUMBER },
+            source: { type: Type.STRING, enum: ['roadmap_step', 'project', 'quiz', 'interview', 'voice_session', 'quest', 'carried_over', 'import'] },
+            sourceId: { type: Type.STRING },
+            description: { type: Type.STRING },
+        }, ['occurredAt', 'amount', 'source', 'description'])),
+        streak: { type: Type.NUMBER },
+        streakState: {
+            type: Type.OBJECT,
+            properties: {
+                timeZone: { type: Type.STRING },
+                timeZonePending: { type: Type.BOOLEAN },
+                longest: { type: Type.NUMBER },
+                freezesEnabled: { type: Type.BOOLEAN },
+                freezesAvailable: { type: Type.NUMBER },
+                frozenDays: listOf({ type: Type.STRING }),
+            },
+            required: ['timeZone', 'longest', 'freezesEnabled', 'freezesAvailable', 'frozenDays'],
+        },
+        githubUrl: { type: Type.STRING },
+        linkedinUrl: { type: Type.STRING },
+        skills: listOf(withId({
+            name: { type: Type.STRING },
+            proficiency: { type: Type.STRING, enum: ['Beginner', 'Intermediate', 'Advanced', 'Expert'] },
+            category: listOf({ type: Type.STRING }),
+            isGap: { type: Type.BOOLEAN },
+        }, ['name', 'proficiency', 'category', 'isGap'])),
+        roadmap: listOf(withId({
+            title: { type: Type.STRING },
+            skillsToLearn: listOf({ type: Type.STRING }),
+            suggestedResources: { type: Type.ARRAY },
+            completed: { type: Type.BOOLEAN },
+        }, ['title', 'skillsToLearn', 'suggestedResources', 'completed'])),
+        projects: listOf(withId({
+            title: { type: Type.STRING },
+            requiredSkills: listOf({ type: Type.STRING }),
+            status: { type: Type.STRING, enum: ['Not Started', 'In Progress', 'Completed'] },
+            xp: { type: Type.NUMBER },
+            projectPlan: listOf(withId({ title: { type: Type.STRING }, completed: { type: Type.BOOLEAN } }, ['title', 'completed'])),
+        }, ['title', 'requiredSkills', 'status', 'xp'])),
+        achievements: listOf(withId({ name: { type: Type.STRING } }, ['name'])),
+        trends: listOf({ type: Type.OBJECT, properties: { title: { type: Type.STRING } }, required: ['title'] }),
+        trackedJobs: listOf(withId({
+            title: { type: Type.STRING },
+            company: { type: Type.STRING },
+            status: { type: Type.STRING, enum: ['Applied', 'Interviewing', 'Offered', 'Rejected', 'Tentative'] },
+        }, ['title', 'company', 'status'])),
+        interviewHistory: listOf(dated({ transcript: { type: Type.ARRAY } }, ['transcript'])),
+        voiceMentorHistory: listOf(dated({ transcript: { type: Type.ARRAY } }, ['transcript'])),
+        quizHistory: listOf(dated({ questions: { type: Type.ARRAY }, score: { type: Type.NUMBER } }, ['questions', 'score'])),
+        smartChatHistory: listOf(dated({ messages: { type: Type.ARRAY } }, ['messages'])),
+        historyRetention: { type: Type.OBJECT },
+        quests: listOf(withId({
+            weekStart: { type: Type.STRING },
+            kind: { type: Type.STRING, enum: ['quest', 'goal'] },
+            title: { type: Type.STRING },
+            metric: { type: Type.STRING, enum: ['roadmap_steps', 'project_steps', 'quizzes', 'interviews', 'voice_sessions', 'chats', 'jobs_applied'] },
+            target: { type: Type.NUMBER },
+            xp: { type: Type.NUMBER },
+        }, ['weekStart', 'kind', 'title', 'metric', 'target', 'xp'])),
+        activityLog: listOf(withId({ type: { type: Type.STRING }, occurredAt: { type: Type.STRING }, data: { type: Type.OBJECT } }, ['type', 'occurredAt', 'data'])),
+    },
+    required: [
+        'schemaVersion', 'name', 'age', 'profession', 'educationLevel', 'targetRole', 'xp', 'level', 'xpLedger', 'streak', 'streakState',
+        'skills', 'roadmap', 'projects', 'achievements', 'trends', 'trackedJobs',
+        'interviewHistory', 'voiceMentorHistory', 'quizHistory', 'smartChatHistory', 'historyRetention', 'activityLog', 'quests',
+    ],
+};
+
+export const buildProfileExport = (profile: UserProfile): { fileName: string; json: string } => {
+    const { id: _id, ...data } = profile;
+    const file: ProfileExportFile = {
+        format: EXPORT_FORMAT,
+        formatVersion: EXPORT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        profile: data,
+    };
+    return {
+        fileName: `${profile.name.replace(/\s+/g, '_')}_Career_Copilot_${file.exportedAt.slice(0, 10)}.json`,
+        json: JSON.stringify(file, null, 2),
+    };
+};
+
+// Reads an export file, upgrades the profile inside to the current schema version and checks it. Throws an
+// error with a readable message if the file can't be imported.
+export const parseProfileExport = (text: string): ImportPreview => {
+    let file: Partial<ProfileExportFile>;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (file?.format !== EXPORT_FORMAT) {
+        throw new Error('This is not an AI Career Copilot export file.');
+    }
+    if (typeof file.formatVersion !== 'number' || file.formatVersion > EXPORT_FORMAT_VERSION) {
+        throw new Error('This export was made by a newer version of the app. Update the app and try again.');
+    }
+    if (typeof file.profile !== 'object' || file.profile === null || Array.isArray(file.profile)) {
+        throw new Error('The export file has no profile in it.');
+    }
+
+    const { profile, migrated } = migrateProfile(file.profile);
+    const errors = validateSchema(profile, PROFILE_SCHEMA, 'profile');
+    if (errors.length > 0) {
+        console.error('Invalid profile export:', errors);
+        throw new Error(`The export file is damaged or incomplete: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` and ${errors.length - 3} more problems` : ''}.`);
+    }
+    return {
+        profile,
+        exportedAt: file.exportedAt || '',
+        upgradedFrom: migrated ? (file.profile as Partial<UserProfile>).schemaVersion ?? 0 : undefined,
+    };
+};
+
+// List items are rows keyed by id across all accounts, so items from another account get ids derived from
+// this account. Items that came from this account keep theirs, which lets a merge recognise them.
+const rekeyList = <T extends { id: string }>(userId: string, items: T[], ownIds: Set<string>): T[] =>
+    items.map(item => (ownIds.has(item.id) ? item : { ...item, id: seededId(`${userId}:import:${item.id}`) }));
+
+// How many items of each list an import would add (merge) or leave in the profile (replace). Append-only lists
+// are only ever added to.
+export const countImportedItems = (current: UserProfile, imported: UserProfile, mode: ImportMode): Record<ProfileList, number> => {
+    const result = applyProfileImport(current, imported, mode);
+    return Object.fromEntries(PROFILE_LISTS.map(field => [
+        field,
+        mode === 'replace' && !APPEND_ONLY_LISTS.includes(field) ? result[field].length : result[field].length - current[field].length,
+    ])) as Record<ProfileList, number>;
+};
+
+// Builds the profile that results from importing. `replace` takes everything from the file; `merge` keeps
+// this profile's details and progress and adds the list items, histories and achievements it doesn't have yet.
+export const applyProfileImport = (current: UserProfile, imported: UserProfile, mode: ImportMode): UserProfile => {
+    const userId = current.id!;
+    const rekeyed = { ...imported };
+    // The id each imported item ends up with, so XP transactions, activity events and quests can follow the
+    // items they are about.
+    const newIds = new Map<string, string>();
+    const rekeyField = <K extends ProfileList>(field: K) => {
+        const ownIds = new Set(current[field].map(item => item.id));
+        const items: ListItem<K>[] = imported[field];
+        const rekeyedItems = rekeyList(userId, items, ownIds);
+        items.forEach((item, i) => newIds.set(item.id, rekeyedItems[i].id));
+        setProfileList(rekeyed, field, rekeyedItems);
+    };
+    PROFILE_LISTS.forEach(rekeyField);
+    // Sets `field` of `target` to this profile's items followed by the ones the file adds.
+    const addNewItems = <K extends ProfileList>(target: Partial<UserProfile>, field: K) => {
+        const own: ListItem<K>[] = current[field];
+        const added: ListItem<K>[] = rekeyed[field];
+        const have = new Set(own.map(item => item.id));
+        setProfileList(target, field, [...own, ...added.filter(item => !have.has(item.id))]);
+    };
+    const follow = (id: string) => newIds.get(id) ?? id;
+    rekeyed.xpLedger = rekeyed.xpLedger.map(transaction =>
+        (transaction.sourceId ? { ...transaction, sourceId: follow(transaction.sourceId) } : transaction));
+    rekeyed.activityLog = rekeyed.activityLog.map(event => (event.entityId ? { ...event, entityId: follow(event.entityId) } : event));
+    rekeyed.quests = rekeyed.quests.map(quest => (quest.entityId ? { ...quest, entityId: follow(quest.entityId) } : quest));
+
+    if (mode === 'replace') {
+        // Append-only lists keep what is there and gain what the file adds. The XP this profile earned is then
+        // taken back, so the total comes out as the file's.
+        const result = { ...rekeyed, id: userId };
+        APPEND_ONLY_LISTS.forEach(field => addNewItems(result, field));
+        const importedIds = new Set(rekeyed.xpLedger.map(transaction => transaction.id));
+        const replacedXp = current.xpLedger.filter(transaction => !importedIds.has(transaction.id)).reduce((sum, transaction) => sum + transaction.amount, 0);
+        if (replacedXp !== 0) {
+            result.xpLedger = [...result.xpLedger, createXpTransaction(-replacedXp, 'import', 'Profile replaced by an import')];
+        }
+        return result;
+    }
+
+    const merged: UserProfile = { ...current };
+    PROFILE_LISTS.forEach(field => addNewItems(merged, field));
+    const achievementIds = new Set(current.achievements.map(achievement => achievement.id));
+    merged.achievements = [...current.achievements, ...imported.achievements.filter(achievement => !achievementIds.has(achievement.id))];
+    // XP is progress, so it stays this profile's. Completed steps and projects the import adds earn theirs when
+    // the ledger is settled.
+    merged.xpLedger = current.xpLedger;
+    return merged;
+};
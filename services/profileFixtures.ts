@@ -0,0 +1,41 @@
+import type { RoadmapStep, UserProfile } from '../types';
+import { CURRENT_PROFILE_SCHEMA_VERSION } from './profileMigrations';
+
+// Builders for the profiles tests work on: a complete, empty profile at the current schema version, with only
+// the fields a test is about filled in.
+export const testProfile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+    id: 'user-1',
+    schemaVersion: CURRENT_PROFILE_SCHEMA_VERSION,
+    name: 'Ada',
+    age: 30,
+    profession: 'Analyst',
+    educationLevel: 'Bachelor',
+    targetRole: 'Data Engineer',
+    xp: 0,
+    level: 1,
+    xpLedger: [],
+    streak: 0,
+    streakState: { timeZone: 'UTC', longest: 0, freezesEnabled: true, freezesAvailable: 0, frozenDays: [] },
+    skills: [],
+    roadmap: [],
+    projects: [],
+    achievements: [],
+    trends: [],
+    trackedJobs: [],
+    interviewHistory: [],
+    voiceMentorHistory: [],
+    quizHistory: [],
+    smartChatHistory: [],
+    historyRetention: {
+        smartChatHistory: { maxSessions: 20, maxAgeDays: null },
+        voiceMentorHistory: { maxSessions: null, maxAgeDays: null },
+        interviewHistory: { maxSessions: null, maxAgeDays: null },
+        quizHistory: { maxSessions: null, maxAgeDays: null },
+    },
+    activityLog: [],
+    quests: [],
+    ...overrides,
+});
+
+export const testStep = (id: string, completed = false): RoadmapStep =>
+    ({ id, title: `Step ${id}`, duration: '1 week', skillsToLearn: [], suggestedResources: [], milestoneProject: '', completed });
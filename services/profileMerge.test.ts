@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { UserProfile } from '../types';
+import { testProfile, testStep as step } from './profileFixtures';
+import { changedFields, mergeProfiles } from './profileMerge';
+import { updateProgress } from './profileProgress';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const baseProfile = (): UserProfile => updateProgress(testProfile({ roadmap: ['a', 'b', 'c', 'd', 'e'].map(id => step(id)) }), NOW);
+
+// What a device ends up with after completing a step, the way App updates the profile.
+const complete = (profile: UserProfile, id: string): UserProfile => updateProgress({
+    ...profile,
+    roadmap: profile.roadmap.map(s => (s.id === id ? { ...s, completed: true } : s)),
+}, NOW);
+
+describe('mergeProfiles', () => {
+    it('merges different steps completed on two devices without XP or level conflicts', () => {
+        const base = baseProfile();
+        const here = complete(base, 'a');
+        const there = complete(base, 'b');
+
+        const { merged, conflicts } = mergeProfiles(base, changedFields(base, here), there);
+
+        expect(conflicts).toEqual([]);
+        expect(merged).not.toHaveProperty('xp');
+        expect(merged).not.toHaveProperty('level');
+        const result = updateProgress({ ...there, ...merged }, NOW);
+        expect(result.roadmap.filter(s => s.completed).map(s => s.id)).toEqual(['a', 'b']);
+        expect(result.xpLedger.map(t => t.sourceId)).toEqual(['b', 'a']);
+        expect(result.xp).toBe(300);
+    });
+
+    it('keeps achievements unlocked on either device', () => {
+        const base = baseProfile();
+        const here = complete(complete(base, 'a'), 'b');
+        const there = { ...base, achievements: [{ id: 'ELSEWHERE', name: 'Elsewhere', description: '', icon: '⭐' }] };
+
+        const { merged, conflicts } = mergeProfiles(base, changedFields(base, here), there);
+
+        expect(conflicts).toEqual([]);
+        expect(merged.achievements!.map(a => a.id)).toEqual(['ELSEWHERE', ...here.achievements.map(a => a.id)]);
+    });
+
+    it('combines streak bookkeeping and only conflicts on settings changed on both sides', () => {
+        const base = baseProfile();
+        const here = { ...base, streakState: { ...base.streakState, longest: 4, frozenDays: ['2026-10-01'] } };
+        const there = { ...base, streakState: { ...base.streakState, timeZone: 'Europe/Berlin', longest: 6, frozenDays: ['2026-10-02'] } };
+
+        const { merged, conflicts } = mergeProfiles(base, { streakState: here.streakState }, there);
+        expect(conflicts).toEqual([]);
+        expect(merged.streakState).toEqual({ ...there.streakState, frozenDays: ['2026-10-01', '2026-10-02'] });
+
+        const moved = { ...here.streakState, timeZone: 'Asia/Tokyo' };
+        expect(mergeProfiles(base, { streakState: moved }, there).conflicts.map(c => c.field)).toEqual(['streakState']);
+    });
+});
+
+describe('changedFields', () => {
+    it('returns only the fields whose value changed', () => {
+        const base = baseProfile();
+        const after = { ...base, name: 'Ada L.', roadmap: [...base.roadmap], xp: base.xp };
+        expect(changedFields(base, after)).toEqual({ name: 'Ada L.' });
+    });
+});
@@ -0,0 +1,208 @@
+import type { Achievement, StreakState, UserProfile } from '../types';
+import { PROFILE_LISTS, PROFILE_TABLES } from './profileTables';
+import type { ListTable, ProfileList } from './profileTables';
+
+type Entity = { id: string };
+
+// A field or list item that was changed both on this device and elsewhere since it was last loaded.
+// `local` or `remote` is undefined when that side deleted the item.
+export interface ProfileConflict {
+    field: keyof UserProfile;
+    // Set for list items; whole-field conflicts leave it out.
+    entityId?: string;
+    label: string;
+    local: unknown;
+    remote: unknown;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface MergeResult {
+    // The changed fields with everything that could be merged automatically. Conflicting fields and items
+    // keep this device's version until a choice is made.
+    merged: Partial<UserProfile>;
+    conflicts: ProfileConflict[];
+}
+
+const FIELD_LABELS: Partial<Record<keyof UserProfile, string>> = {
+    skills: 'Skill',
+    roadmap: 'Roadmap step',
+    projects: 'Project',
+    trackedJobs: 'Tracked job',
+    interviewHistory: 'Interview session',
+    voiceMentorHistory: 'Voice session',
+    quizHistory: 'Quiz',
+    smartChatHistory: 'Chat',
+    targetRole: 'Target role',
+    githubUrl: 'GitHub URL',
+    linkedinUrl: 'LinkedIn URL',
+    educationLevel: 'Education level',
+    historyRetention: 'History retention',
+    activityLog: 'Activity',
+    xpLedger: 'XP',
+    quests: 'Quest',
+    streakState: 'Streak settings',
+};
+
+// Worked out from the rest of the profile (see services/profileProgress.ts), so they are left out of a merge
+// and worked out again from the merged profile. Two devices completing different roadmap steps both change
+// `xp`, but that isn't a conflict.
+const DERIVED_FIELDS: (keyof UserProfile)[] = ['xp', 'level', 'streak'];
+
+const isListField = (field: string): field is ProfileList => (PROFILE_LISTS as string[]).includes(field);
+
+const fieldLabel = (field: keyof UserProfile) =>
+    FIELD_LABELS[field] || field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+// Names an item the way the user would recognise it in the app.
+const itemLabel = (field: keyof UserProfile, item: Record<string, any>) => {
+    const name = item.title || item.name || item.mode || item.targetRole;
+    const date = item.date ? new Date(item.date).toLocaleDateString() : '';
+    return [fieldLabel(field), name && `"${name}"`, date && `from ${date}`].filter(Boolean).join(' ');
+};
+
+// Items are compared in their row form, which doesn't depend on the order their keys were set in.
+const sameItem = <T extends Entity>(spec: ListTable<T>, a: T | undefined, b: T | undefined) =>
+    JSON.stringify(a && spec.toRow(a)) === JSON.stringify(b && spec.toRow(b));
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const mergeList = <T extends Entity>(field: ProfileList, base: T[], local: T[], remote: T[], conflicts: ProfileConflict[]): T[] => {
+    const spec = PROFILE_TABLES[field] as unknown as ListTable<T>;
+    const baseById = new Map(base.map(item => [item.id, item]));
+    const remoteById = new Map(remote.map(item => [item.id, item]));
+    const localIds = new Set(local.map(item => item.id));
+
+    const conflict = (id: string, localItem: T | undefined, remoteItem: T | undefined) => conflicts.push({
+        field,
+        entityId: id,
+        label: itemLabel(field, (localItem || remoteItem)!),
+        local: localItem,
+        remote: remoteItem,
+    });
+
+    const merged: T[] = [];
+    for (const item of local) {
+        const before = baseById.get(item.id);
+        const theirs = remoteById.get(item.id);
+        if (!before) {
+            // Added here.
+            merged.push(item);
+        } else if (!theirs) {
+            // Deleted elsewhere: gone unless it was also edited here.
+            if (!sameItem(spec, item, before)) {
+                conflict(item.id, item, undefined);
+                merged.push(item);
+            }
+        } else if (sameItem(spec, theirs, before) || sameItem(spec, theirs, item)) {
+            merged.push(item);
+        } else if (sameItem(spec, item, before)) {
+            merged.push(theirs);
+        } else {
+            conflict(item.id, item, theirs);
+            merged.push(item);
+        }
+    }
+
+    remote.forEach((theirs, index) => {
+        if (localIds.has(theirs.id)) return;
+        const before = baseById.get(theirs.id);
+        if (before && sameItem(spec, theirs, before)) return; // Deleted here, untouched elsewhere.
+        if (before) conflict(theirs.id, undefined, theirs); // Deleted here, edited elsewhere: left out until chosen.
+        else merged.splice(Math.min(index, merged.length), 0, theirs); // Added elsewhere.
+    });
+    return merged;
+};
+
+// Unlocks from both sides are kept, with the earlier unlock time where both have one.
+const mergeAchievements = (local: Achievement[], remote: Achievement[]): Achievement[] => {
+    const localById = new Map(local.map(achievement => [achievement.id, achievement]));
+    const remoteIds = new Set(remote.map(achievement => achievement.id));
+    return [
+        ...remote.map(theirs => {
+            const mine = localById.get(theirs.id);
+            return mine?.unlockedAt && (!theirs.unlockedAt || mine.unlockedAt < theirs.unlockedAt) ? mine : theirs;
+        }),
+        ...local.filter(achievement => !remoteIds.has(achievement.id)),
+    ];
+};
+
+// The time zone and whether freezes are on are the user's settings and merge like any other field. The rest is
+// streak bookkeeping: frozen days from both sides are kept, and a freeze spent on either side is spent.
+const mergeStreakState = (base: StreakState | undefined, local: StreakState, remote: StreakState, conflicts: ProfileConflict[]): StreakState => {
+    const settings = (state: StreakState | undefined) => state && { timeZone: state.timeZone, freezesEnabled: state.freezesEnabled };
+    const merged: StreakState = {
+        ...remote,
+        longest: Math.max(local.longest, remote.longest),
+        freezesAvailable: Math.min(local.freezesAvailable, remote.freezesAvailable),
+        frozenDays: [...new Set([...local.frozenDays, ...remote.frozenDays])].sort(),
+    };
+    if (sameValue(settings(remote), settings(base)) || sameValue(settings(remote), settings(local))) {
+        return { ...merged, ...settings(local) };
+    }
+    if (sameValue(settings(local), settings(base))) return merged;
+    conflicts.push({ field: 'streakState', label: fieldLabel('streakState'), local, remote });
+    return { ...merged, ...settings(local) };
+};
+
+// Three-way merge of the fields this device changed (`changes`, made on top of `base`) with what is now
+// stored (`remote`). Changes to different fields, or to different items of the same list, merge
+// automatically; the same field or item changed on both sides is a conflict. XP, level and the streak are left
+// out, to be worked out again from the merged profile, and unlocked achievements are combined.
+export const mergeProfiles = (base: Partial<UserProfile>, changes: Partial<UserProfile>, remote: UserProfile): MergeResult => {
+    const merged: Record<string, unknown> = {};
+    const conflicts: ProfileConflict[] = [];
+
+    for (const [key, local] of Object.entries(changes)) {
+        const field = key as keyof UserProfile;
+        const before = base[field];
+        const theirs = remote[field];
+        if (DERIVED_FIELDS.includes(field)) {
+            continue;
+        } else if (field === 'achievements') {
+            merged[field] = mergeAchievements(local as Achievement[], remote.achievements);
+        } else if (field === 'streakState') {
+            merged[field] = mergeStreakState(base.streakState, local as StreakState, remote.streakState, conflicts);
+        } else if (isListField(field)) {
+            merged[field] = mergeList(field, (before as Entity[]) || [], (local as Entity[]) || [], (theirs as Entity[]) || [], conflicts);
+        } else if (sameValue(theirs, before) || sameValue(theirs, local)) {
+            merged[field] = local;
+        } else if (sameValue(local, before)) {
+            merged[field] = theirs;
+        } else {
+            conflicts.push({ field, label: fieldLabel(field), local, remote: theirs });
+            merged[field] = local;
+        }
+    }
+    return { merged: merged as Partial<UserProfile>, conflicts };
+};
+
+// Applies the user's choice for each conflict (this device's version unless `remote` was picked) to a merge.
+export const resolveConflicts = (result: MergeResult, choices: ConflictChoice[]): Partial<UserProfile> => {
+    const resolved: Record<string, any> = { ...result.merged };
+    result.conflicts.forEach((conflict, i) => {
+        const choice = choices[i] || 'local';
+        if (conflict.entityId === undefined) {
+            if (choice === 'remote') resolved[conflict.field] = conflict.remote;
+            return;
+        }
+        const list: Entity[] = [...resolved[conflict.field]];
+        const index = list.findIndex(item => item.id === conflict.entityId);
+        const chosen = (choice === 'local' ? conflict.local : conflict.remote) as Entity | undefined;
+        if (index >= 0 && chosen) list[index] = chosen;
+        else if (index >= 0) list.splice(index, 1);
+        else if (chosen) list.push(chosen);
+        resolved[conflict.field] = list;
+    });
+    return resolved as Partial<UserProfile>;
+};
+
+// The fields whose value differs between two versions of a profile, with their value in `after`.
+export const changedFields = (before: UserProfile, after: UserProfile): Partial<UserProfile> => {
+    const changes: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(after)) {
+        const previous = before[field as keyof UserProfile];
+        if (value !== previous && !sameValue(value, previous)) changes[field] = value;
+    }
+    return changes as Partial<UserProfile>;
+};
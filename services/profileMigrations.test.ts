@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_PROFILE_SCHEMA_VERSION, MIGRATIONS, migrateProfile } from './profileMigrations';
+
+// A profile row as the first release stored it: no schemaVersion, no ids, a single skill category and none of
+// the fields added since.
+const oldRow = (): Record<string, any> => ({
+    id: 'user-1',
+    name: 'Ada',
+    age: 30,
+    profession: 'Analyst',
+    educationLevel: 'Bachelor',
+    targetRole: 'Data Engineer',
+    xp: 900,
+    level: 2,
+    streak: 4,
+    skills: [{ name: 'SQL', level: 3, category: 'Data' }, { name: 'Python', level: 2 }],
+    roadmap: [
+        { title: 'Learn Spark', description: '', completed: true, resources: [] },
+        { title: 'Learn Airflow', description: '', completed: false, resources: [] },
+    ],
+    projects: [{ title: 'Pipeline', description: '', status: 'Completed', xp: 300, projectPlan: [{ title: 'Ingest', completed: true }] }],
+    achievements: [{ id: 'HALFWAY_THERE', name: 'Halfway There', description: '', icon: '🏁' }],
+    trends: [],
+    interviewHistory: [{ date: '2026-03-02T10:00:00.000Z', targetRole: 'Data Engineer', transcript: [], feedbackSummary: '' }],
+    quizHistory: [{ date: '2026-03-01T10:00:00.000Z', targetRole: 'Data Engineer', topics: ['SQL'], questions: [], score: 80 }],
+    smartChatHistory: [{ date: '2026-03-03T10:00:00.000Z', mode: 'mentor', messages: [] }],
+});
+
+// Upgrades an old row to just before `version`, so each migration sees the input it was written for.
+const upTo = (version: number): Record<string, any> => {
+    const profile = structuredClone(oldRow());
+    for (const migration of MIGRATIONS.filter(m => m.version < version)) migration.migrate(profile);
+    return profile;
+};
+
+const run = (version: number, input: Record<string, any>): Record<string, any> => {
+    const profile = structuredClone(input);
+    MIGRATIONS.find(m => m.version === version)!.migrate(profile);
+    return profile;
+};
+
+// Every migration is deterministic and running it again on its own output changes nothing.
+const expectStable = (version: number) => {
+    const input = upTo(version);
+    const once = run(version, input);
+    expect(run(version, input)).toEqual(once);
+    expect(run(version, once)).toEqual(once);
+};
+
+describe('profile migrations', () => {
+    it('are numbered in order', () => {
+        MIGRATIONS.forEach((migration, i) => expect(migration.version).toBe(i + 1));
+        expect(CURRENT_PROFILE_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+    });
+
+    it('v1 turns single skill categories into lists', () => {
+        const profile = run(1, upTo(1));
+        expect(profile.skills.map((s: Record<string, any>) => s.category)).toEqual([['Data'], []]);
+        expectStable(1);
+    });
+
+    it('v2 adds the missing list fields', () => {
+        const profile = run(2, upTo(2));
+        expect(profile.trackedJobs).toEqual([]);
+        expect(profile.voiceMentorHistory).toEqual([]);
+        expect(profile.roadmap).toHaveLength(2);
+        expectStable(2);
+    });
+
+    it('v3 gives items the same ids on every client', () => {
+        const profile = run(3, upTo(3));
+        const ids = [...profile.skills, ...profile.roadmap, ...profile.projects, ...profile.projects[0].projectPlan, ...profile.quizHistory]
+            .map((item: Record<string, any>) => item.id);
+        ids.forEach(id => expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-a[0-9a-f]{3}-[0-9a-f]{12}$/));
+        expect(new Set(ids).size).toBe(ids.length);
+        expect(profile.projects[0].projectPlan[0].id).not.toBe(profile.projects[0].id);
+        expectStable(3);
+    });
+
+    it('v3 keeps ids that are already there', () => {
+        const input = upTo(3);
+        input.skills[0].id = 'skill-1';
+        expect(run(3, input).skills[0].id).toBe('skill-1');
+    });
+
+    it('v4 keeps the last 20 chats and everything else', () => {
+        const profile = run(4, upTo(4));
+        expect(profile.historyRetention.smartChatHistory).toEqual({ maxSessions: 20, maxAgeDays: null });
+        expect(profile.historyRetention.quizHistory).toEqual({ maxSessions: null, maxAgeDays: null });
+        expectStable(4);
+    });
+
+    it('v5 starts the activity log from saved sessions, oldest first', () => {
+        const input = upTo(5);
+        const profile = run(5, input);
+        expect(profile.activityLog.map((e: Record<string, any>) => e.type)).toEqual(['quiz_completed', 'interview_completed', 'chat_saved']);
+        expect(profile.activityLog[0]).toMatchObject({ entityId: input.quizHistory[0].id, occurredAt: input.quizHistory[0].date, data: { score: 80 } });
+        expectStable(5);
+    });
+
+    it('v5 fills in the empty log a loaded profile has', () => {
+        // fetchProfile fills every list from its table, so a profile saved before version 5 arrives with an
+        // empty activity log rather than none.
+        const profile = run(5, { ...upTo(5), activityLog: [] });
+        expect(profile.activityLog).toEqual(run(5, upTo(5)).activityLog);
+    });
+
+    it('v5 only adds events for sessions the log has no event for', () => {
+        const input = run(5, upTo(5));
+        const [quizEvent] = input.activityLog.splice(0, 1);
+        const kept = input.activityLog.map((e: Record<string, any>) => ({ ...e, id: `kept-${e.entityId}` }));
+        const profile = run(5, { ...input, activityLog: kept });
+        expect(profile.activityLog).toEqual([quizEvent, ...kept]);
+    });
+
+    it('v6 resets the streak so it is counted from the activity log', () => {
+        const profile = run(6, upTo(6));
+        expect(profile.streak).toBe(0);
+        expect(profile.streakState).toEqual({ timeZone: 'UTC', timeZonePending: true, longest: 0, freezesEnabled: true, freezesAvailable: 0, frozenDays: [] });
+        expectStable(6);
+    });
+
+    it('v7 starts the XP ledger from completions and carries over the rest', () => {
+        const input = upTo(7);
+        const profile = run(7, input);
+        expect(profile.xpLedger.map((t: Record<string, any>) => [t.source, t.amount])).toEqual([
+            ['carried_over', 500],
+            ['roadmap_step', 150],
+            ['project', 250],
+        ]);
+        expect(profile.xpLedger[1].sourceId).toBe(input.roadmap[0].id);
+        expect(profile.xp).toBe(900);
+        expect(profile.level).toBe(2);
+        expectStable(7);
+    });
+
+    it('v8 dates unlocks from the activity log and fixes the Halfway There icon', () => {
+        const input = upTo(8);
+        input.activityLog.push({ id: 'e1', type: 'achievement_unlocked', occurredAt: '2026-03-04T10:00:00.000Z', entityId: 'HALFWAY_THERE', data: {} });
+        const profile = run(8, input);
+        expect(profile.achievements[0]).toMatchObject({ icon: '🌗', unlockedAt: '2026-03-04T10:00:00.000Z' });
+        expect(run(8, profile)).toEqual(profile);
+        expectStable(8);
+    });
+
+    it('v9 adds an empty quest list', () => {
+        expect(run(9, upTo(9)).quests).toEqual([]);
+        expectStable(9);
+    });
+
+    it('v7 starts the empty ledger a loaded profile has', () => {
+        // fetchProfile fills every list from its table, so a profile saved before version 7 arrives with an
+        // empty ledger rather than none.
+        const profile = run(7, { ...upTo(7), xpLedger: [] });
+        expect(profile.xpLedger).toEqual(run(7, upTo(7)).xpLedger);
+        expect(profile.xp).toBe(900);
+    });
+
+    it('v7 leaves a ledger that has transactions alone', () => {
+        const input = run(7, upTo(7));
+        input.xpLedger.splice(0, 1);
+        expect(run(7, input)).toEqual(input);
+    });
+
+    it('upgrades an old row to the current version and reports it', () => {
+        const { profile, migrated } = migrateProfile(oldRow());
+        expect(migrated).toBe(true);
+        expect(profile.schemaVersion).toBe(CURRENT_PROFILE_SCHEMA_VERSION);
+        expect(migrateProfile(profile)).toEqual({ profile, migrated: false });
+    });
+
+    it('leaves profiles from a newer client alone', () => {
+        const newer = { ...oldRow(), schemaVersion: CURRENT_PROFILE_SCHEMA_VERSION + 1 };
+        expect(migrateProfile(newer)).toEqual({ profile: newer, migrated: false });
+    });
+});
@@ -0,0 +1,233 @@
+import type { UserProfile, UserProject } from '../types';
+import { GAMIFICATION_RULES, levelForXp, projectXp } from './gamificationRules';
+
+// Upgrades a stored profile from the previous schema version to `version`. Migrations receive a copy and may
+// change it in place; they must be deterministic so every client upgrades an old row the same way.
+interface ProfileMigration {
+    version: number;
+    description: string;
+    migrate: (profile: Record<string, any>) => void;
+}
+
+const LIST_FIELDS = [
+    'skills',
+    'roadmap',
+    'projects',
+    'achievements',
+    'trends',
+    'trackedJobs',
+    'interviewHistory',
+    'voiceMentorHistory',
+    'quizHistory',
+    'smartChatHistory',
+] as const;
+
+const ENTITY_LISTS = ['skills', 'roadmap', 'projects', 'trackedJobs', 'interviewHistory', 'voiceMentorHistory', 'quizHistory', 'smartChatHistory'] as const;
+
+// Builds a UUID-shaped id from a seed, so two clients upgrading the same old row assign the same ids.
+export const seededId = (seed: string): string => {
+    let hex = '';
+    for (let round = 0; round < 4; round++) {
+        // FNV-1a, varied per round to fill 128 bits.
+        let hash = 0x811c9dc5 ^ round;
+        for (let i = 0; i < seed.length; i++) {
+            hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+        }
+        hex += (hash >>> 0).toString(16).padStart(8, '0');
+    }
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+// Adds an activity event for every saved session the log has none for, oldest first. Loaded profiles always have
+// a log, even an empty one, and sessions recorded since the log existed already have their event and keep it.
+const logSavedSessions = (profile: Record<string, any>) => {
+    const log: Record<string, any>[] = profile.activityLog || [];
+    const logged = new Set(log.map(event => event.entityId));
+    const fromSession = (type: string, session: Record<string, any>, data: Record<string, unknown>) => ({
+        id: seededId(`${profile.id}:activity:${session.id}`),
+        type,
+        occurredAt: session.date,
+        entityId: session.id,
+        data,
+    });
+    const missing = [
+        ...profile.interviewHistory.map((s: Record<string, any>) => fromSession('interview_completed', s, { targetRole: s.targetRole })),
+        ...profile.quizHistory.map((s: Record<string, any>) => fromSession('quiz_completed', s, { targetRole: s.targetRole, score: s.score })),
+        ...profile.voiceMentorHistory.map((s: Record<string, any>) => fromSession('voice_session_completed', s, {})),
+        ...profile.smartChatHistory.map((s: Record<string, any>) => fromSession('chat_saved', s, { mode: s.mode })),
+    ].filter(event => !logged.has(event.entityId));
+    if (Array.isArray(profile.activityLog) && missing.length === 0) return;
+    profile.activityLog = [...log, ...missing].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+};
+
+// Starts the XP ledger from the completed roadmap steps and projects, with the amounts the gamification rules
+// give for them. Completions are dated from the activity log where it has them, otherwise from when the ledger
+// was introduced, which keeps the upgrade deterministic.
+const startXpLedger = (profile: Record<string, any>) => {
+    const completedAt = new Map<string, string>();
+    for (const event of profile.activityLog) {
+        if (event.type === 'roadmap_step_completed' || (event.type === 'project_status_changed' && event.data.to === 'Completed')) {
+            completedAt.set(event.entityId, event.occurredAt);
+        }
+    }
+    const entry = (key: string, amount: number, source: string, description: string, sourceId?: string) => ({
+        id: seededId(`${profile.id}:xp:${key}`),
+        occurredAt: (sourceId && completedAt.get(sourceId)) || '2026-10-19T00:00:00.000Z',
+        amount,
+        source,
+        sourceId,
+        description,
+    });
+    profile.xpLedger = [
+        ...profile.roadmap.filter((step: Record<string, any>) => step.completed)
+            .map((step: Record<string, any>) => entry(step.id, GAMIFICATION_RULES.xp.roadmapStep, 'roadmap_step', `Completed roadmap step "${step.title}"`, step.id)),
+        ...profile.projects.filter((project: Record<string, any>) => project.status === 'Completed')
+            .map((project: Record<string, any>) => entry(project.id, projectXp(project as UserProject), 'project', `Completed project "${project.title}"`, project.id)),
+    ];
+    // XP the old arithmetic gave for steps and projects that are no longer in the profile is kept, so nobody
+    // loses XP they saw on screen.
+    const earned = profile.xpLedger.reduce((sum: number, transaction: { amount: number }) => sum + transaction.amount, 0);
+    if (profile.xp > earned) {
+        profile.xpLedger.unshift(entry('carried-over', profile.xp - earned, 'carried_over', 'XP earned before the ledger'));
+    }
+    profile.xp = Math.max(profile.xp, earned);
+    profile.level = levelForXp(profile.xp);
+};
+
+// Ordered by version. Add new migrations at the end; never change one that has shipped.
+export const MIGRATIONS: ProfileMigration[] = [
+    {
+        version: 1,
+        description: 'Skill categories are lists instead of a single string',
+        migrate: (profile) => {
+            for (const skill of profile.skills || []) {
+                if (!Array.isArray(skill.category)) {
+                    skill.category = typeof skill.category === 'string' && skill.category ? [skill.category] : [];
+                }
+            }
+        },
+    },
+    {
+        version: 2,
+        description: 'Every list field is present, including ones added after the profile was created',
+        migrate: (profile) => {
+            for (const field of LIST_FIELDS) {
+                if (!Array.isArray(profile[field])) {
+                    profile[field] = [];
+                }
+            }
+        },
+    },
+    {
+        version: 3,
+        description: 'Skills, roadmap steps, projects, project steps, tracked jobs and sessions have ids',
+        migrate: (profile) => {
+            for (const field of ENTITY_LISTS) {
+                profile[field].forEach((item: Record<string, any>, index: number) => {
+                    item.id ??= seededId(`${profile.id}:${field}:${index}`);
+                });
+            }
+            profile.projects.forEach((project: Record<string, any>) => {
+                (project.projectPlan || []).forEach((step: Record<string, any>, index: number) => {
+                    step.id ??= seededId(`${project.id}:projectPlan:${index}`);
+                });
+            });
+        },
+    },
+    {
+        version: 4,
+        description: 'Each session history has a retention policy; chats keep the last 20 as they always have',
+        migrate: (profile) => {
+            profile.historyRetention ??= {
+                smartChatHistory: { maxSessions: 20, maxAgeDays: null },
+                voiceMentorHistory: { maxSessions: null, maxAgeDays: null },
+                interviewHistory: { maxSessions: null, maxAgeDays: null },
+                quizHistory: { maxSessions: null, maxAgeDays: null },
+            };
+        },
+    },
+    {
+        version: 5,
+        description: 'Profiles have an activity log, started from the sessions already saved',
+        migrate: (profile) => {
+            logSavedSessions(profile);
+        },
+    },
+    {
+        version: 6,
+        description: 'Streaks are counted from the activity log, in the time zone of the device that next loads the profile',
+        migrate: (profile) => {
+            // UTC until the streak is next brought up to date, which sets the device's time zone.
+            profile.streakState ??= {
+                timeZone: 'UTC',
+                timeZonePending: true,
+                longest: 0,
+                freezesEnabled: true,
+                freezesAvailable: 0,
+                frozenDays: [],
+            };
+            // The old value was set once at onboarding; the real count is worked out when the profile loads.
+            profile.streak = 0;
+        },
+    },
+    {
+        version: 7,
+        description: 'XP comes from a ledger, started from the completed roadmap steps and projects',
+        migrate: (profile) => {
+            // Loaded profiles always have a ledger, even an empty one, so only a ledger with entries is left alone.
+            if (profile.xpLedger?.length > 0) return;
+            startXpLedger(profile);
+        },
+    },
+    {
+        version: 8,
+        description: 'Achievements record when they were unlocked, and "Halfway There" has a real icon',
+        migrate: (profile) => {
+            const unlockedAt = new Map<string, string>();
+            for (const event of profile.activityLog) {
+                if (event.type === 'achievement_unlocked' && event.entityId) unlockedAt.set(event.entityId, event.occurredAt);
+            }
+            for (const achievement of profile.achievements) {
+                achievement.unlockedAt ??= unlockedAt.get(achievement.id);
+                if (achievement.id === 'HALFWAY_THERE') achievement.icon = '🌗';
+            }
+        },
+    },
+    {
+        version: 9,
+        description: 'Profiles have weekly quests and goals; the first week starts the next time the profile loads',
+        migrate: (profile) => {
+            profile.quests ??= [];
+        },
+    },
+];
+
+export const CURRENT_PROFILE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export interface MigrationResult {
+    profile: UserProfile;
+    // True when any migration ran, meaning the upgraded profile should be saved.
+    migrated: boolean;
+}
+
+// Runs every migration newer than the profile's schemaVersion, in order. Profiles written by a newer client
+// are returned unchanged rather than guessed at.
+export const migrateProfile = (stored: Record<string, any>): MigrationResult => {
+    const fromVersion = typeof stored.schemaVersion === 'number' ? stored.schemaVersion : 0;
+    if (fromVersion > CURRENT_PROFILE_SCHEMA_VERSION) {
+        console.warn(`Profile schema version ${fromVersion} is newer than this app supports (${CURRENT_PROFILE_SCHEMA_VERSION}).`);
+        return { profile: stored as UserProfile, migrated: false };
+    }
+
+    const pending = MIGRATIONS.filter(migration => migration.version > fromVersion);
+    if (pending.length === 0) {
+        return { profile: stored as UserProfile, migrated: false };
+    }
+
+    const profile = structuredClone(stored);
+    for (const migration of pending) {
+        migration.migrate(profile);
+        profile.schemaVersion = migration.version;
+    }
+    return { profile: profile as UserProfile, migrated: true };
+};
@@ -0,0 +1,15 @@
+import type { UserProfile } from '../types';
+import { checkAndAwardAchievements } from '../utils/achievementUtils';
+import { withActivity } from './activityLog';
+import { updateStreak } from './streaks';
+import { updateQuests } from './weeklyQuests';
+import { settleXp } from './xpLedger';
+
+// Brings quests, XP, the streak and achievements up to date with the rest of the profile, recording completed
+// quests and unlocked achievements in the activity log. Runs after every update on this device, and again on
+// a profile merged with changes from elsewhere, since none of these are merged themselves.
+export const updateProgress = (profile: UserProfile, now = new Date()): UserProfile => {
+    let updated = withActivity(profile, { ...profile, ...updateQuests(profile, now) });
+    updated = { ...updated, ...settleXp(updated), ...updateStreak(updated, now) };
+    return withActivity(updated, { ...updated, achievements: checkAndAwardAchievements(updated, now) });
+};
@@ -0,0 +1,115 @@
+import type { UserProfile } from '../types';
+
+const DB_NAME = 'ai-career-copilot-profile';
+const DB_VERSION = 2;
+const REPLICA_STORE = 'profiles';
+const QUEUE_STORE = 'mutations';
+const SYNCED_STORE = 'syncedProfiles';
+
+// A profile change that has been applied locally but not yet written to Supabase.
+export interface QueuedMutation {
+    seq?: number;
+    userId: string;
+    changes: Partial<UserProfile>;
+    queuedAt: number;
+}
+
+// What Supabase held, at which revision, when this device last loaded or saved the profile. Queued changes
+// were made on top of it, so it is the base for merging them with changes made elsewhere in the meantime.
+export interface SyncedSnapshot {
+    userId: string;
+    profile: UserProfile;
+    revision: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this environment.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                if (event.oldVersion < 1) {
+                    request.result.createObjectStore(REPLICA_STORE, { keyPath: 'id' });
+                    const queue = request.result.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+                    queue.createIndex('userId', 'userId');
+                }
+                if (event.oldVersion < 2) {
+                    request.result.createObjectStore(SYNCED_STORE, { keyPath: 'userId' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again instead of caching the failure forever.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Runs `work` in one transaction over all stores and resolves once the transaction has committed.
+const runTransaction = <T>(mode: IDBTransactionMode, work: (replica: IDBObjectStore, queue: IDBObjectStore, synced: IDBObjectStore) => Promise<T>): Promise<T> =>
+    openDatabase().then(db => new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction([REPLICA_STORE, QUEUE_STORE, SYNCED_STORE], mode);
+        let result: T;
+        work(transaction.objectStore(REPLICA_STORE), transaction.objectStore(QUEUE_STORE), transaction.objectStore(SYNCED_STORE)).then(value => { result = value; }, reject);
+        transaction.oncomplete = () => resolve(result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    }));
+
+export const readReplica = (userId: string): Promise<UserProfile | undefined> =>
+    runTransaction('readonly', replica => requestResult<UserProfile | undefined>(replica.get(userId)));
+
+export const writeReplica = (profile: UserProfile & { id: string }): Promise<void> =>
+    runTransaction('readwrite', async replica => { await requestResult(replica.put(profile)); });
+
+// Applies a change to the local replica and queues it for Supabase in the same transaction, so a change is
+// never kept locally without also being queued.
+export const recordLocalChange = (userId: string, changes: Partial<UserProfile>): Promise<void> =>
+    runTransaction('readwrite', async (replica, queue) => {
+        const current = await requestResult<UserProfile | undefined>(replica.get(userId));
+        await requestResult(replica.put({ ...current, ...changes, id: userId }));
+        const mutation: QueuedMutation = { userId, changes, queuedAt: Date.now() };
+        await requestResult(queue.add(mutation));
+    });
+
+// Queued mutations for a user, oldest first.
+export const readMutations = (userId: string): Promise<QueuedMutation[]> =>
+    runTransaction('readonly', (_replica, queue) => requestResult<QueuedMutation[]>(queue.index('userId').getAll(userId)));
+
+export const deleteMutations = (seqs: number[]): Promise<void> =>
+    runTransaction('readwrite', async (_replica, queue) => {
+        await Promise.all(seqs.map(seq => requestResult(queue.delete(seq))));
+    });
+
+// Swaps queued mutations for a single one holding their resolved changes. It takes the place of the oldest, so
+// changes queued after them still apply on top.
+export const replaceMutations = (userId: string, seqs: number[], changes: Partial<UserProfile>, profile: UserProfile & { id: string }): Promise<void> =>
+    runTransaction('readwrite', async (replica, queue) => {
+        await Promise.all(seqs.map(seq => requestResult(queue.delete(seq))));
+        const mutation: QueuedMutation = { seq: Math.min(...seqs), userId, changes, queuedAt: Date.now() };
+        await requestResult(queue.put(mutation));
+        await requestResult(replica.put(profile));
+    });
+
+export const deleteReplica = (userId: string): Promise<void> =>
+    runTransaction('readwrite', async replica => { await requestResult(replica.delete(userId)); });
+
+export const readSyncedSnapshot = (userId: string): Promise<SyncedSnapshot | undefined> =>
+    runTransaction('readonly', (_replica, _queue, synced) => requestResult<SyncedSnapshot | undefined>(synced.get(userId)));
+
+export const writeSyncedSnapshot = (snapshot: SyncedSnapshot): Promise<void> =>
+    runTransaction('readwrite', async (_replica, _queue, synced) => { await requestResult(synced.put(snapshot)); });
+
+export const deleteSyncedSnapshot = (userId: string): Promise<void> =>
+    runTransaction('readwrite', async (_replica, _queue, synced) => { await requestResult(synced.delete(userId)); });
@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { changedFields } from './profileMerge';
+import { CURRENT_PROFILE_SCHEMA_VERSION } from './profileMigrations';
+import { updateProgress } from './profileProgress';
+import type { Row } from './profileTables';
+
+// An in-memory stand-in for the tables, answering the query chains profileStore builds.
+const db = vi.hoisted(() => {
+    type Op = 'select' | 'update' | 'insert' | 'upsert' | 'delete';
+    interface QueryResult {
+        data: Row | Row[] | null;
+        error: { code: string } | null;
+    }
+    interface Call {
+        table: string;
+        op: Op;
+        payload?: Row | Row[];
+        options: Record<string, unknown>;
+    }
+
+    const tables = new Map<string, Row[]>();
+    const rows = (table: string) => {
+        if (!tables.has(table)) tables.set(table, []);
+        return tables.get(table)!;
+    };
+
+    class Query {
+        private op: Op = 'select';
+        private payload?: Row | Row[];
+        private options: Record<string, unknown> = {};
+        private filters: ((row: Row) => boolean)[] = [];
+        private sorts: { column: string; ascending: boolean }[] = [];
+        private window?: [number, number];
+        private single = false;
+
+        constructor(private table: string) {}
+
+        select() { return this; }
+        eq(column: string, value: unknown) { this.filters.push(row => row[column] === value); return this; }
+        in(column: string, values: unknown[]) { this.filters.push(row => values.includes(row[column])); return this; }
+        order(column: string, { ascending }: { ascending: boolean }) { this.sorts.push({ column, ascending }); return this; }
+        range(from: number, to: number) { this.window = [from, to]; return this; }
+        maybeSingle() { this.single = true; return this; }
+        update(values: Row) { this.op = 'update'; this.payload = values; return this; }
+        insert(values: Row | Row[]) { this.op = 'insert'; this.payload = values; return this; }
+        upsert(values: Row[], options: Record<string, unknown> = {}) {
+            this.op = 'upsert';
+            this.payload = values;
+            this.options = options;
+            return this;
+        }
+        delete() { this.op = 'delete'; return this; }
+
+        // Awaiting a query runs it, as with supabase-js.
+        then(resolve: (result: QueryResult) => unknown, reject?: (reason: unknown) => unknown) {
+            return Promise.resolve(this.run()).then(resolve, reject);
+        }
+
+        private run(): QueryResult {
+            const table = rows(this.table);
+            const matching = () => table.filter(row => this.filters.every(filter => filter(row)));
+            calls.push({ table: this.table, op: this.op, payload: this.payload, options: this.options });
+            switch (this.op) {
+                case 'select': {
+                    let found = matching();
+                    for (const { column, ascending } of [...this.sorts].reverse()) {
+                        found = [...found].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+                    }
+                    if (this.window) found = found.slice(this.window[0], this.window[1] + 1);
+                    return { data: this.single ? found[0] ?? null : structuredClone(found), error: null };
+                }
+                case 'update': {
+                    const found = matching();
+                    found.forEach(row => Object.assign(row, structuredClone(this.payload)));
+                    return { data: found.map(row => ({ revision: row.revision })), error: null };
+                }
+                case 'insert':
+                case 'upsert': {
+                    for (const row of [this.payload ?? []].flat()) {
+                        const existing = table.find(r => r.id === row.id);
+                        if (existing && this.op === 'insert') return { data: null, error: { code: '23505' } };
+                        if (existing && this.options.ignoreDuplicates) continue;
+                        if (existing) Object.assign(existing, structuredClone(row));
+                        else table.push(structuredClone(row));
+                    }
+                    return { data: null, error: null };
+                }
+                case 'delete': {
+                    const found = matching();
+                    tables.set(this.table, table.filter(row => !found.includes(row)));
+                    return { data: null, error: null };
+                }
+            }
+        }
+    }
+
+    const calls: Call[] = [];
+    return { tables, rows, calls, client: { from: (table: string) => new Query(table) } };
+});
+
+vi.mock('../supabaseClient', () => ({ supabase: db.client }));
+
+const { fetchProfile, forgetProfile, saveProfile } = await import('./profileStore');
+
+// A profile row saved at schema version 6, before the XP ledger existed.
+const preLedgerRow = () => ({
+    id: 'user-1',
+    revision: 3,
+    schemaVersion: 6,
+    name: 'Ada',
+    age: 30,
+    profession: 'Analyst',
+    educationLevel: 'Bachelor',
+    targetRole: 'Data Engineer',
+    xp: 900,
+    level: 2,
+    streak: 0,
+    achievements: [],
+    trends: [],
+    historyRetention: {
+        smartChatHistory: { maxSessions: 20, maxAgeDays: null },
+        voiceMentorHistory: { maxSessions: null, maxAgeDays: null },
+        interviewHistory: { maxSessions: null, maxAgeDays: null },
+        quizHistory: { maxSessions: null, maxAgeDays: null },
+    },
+    streakState: { timeZone: 'UTC', longest: 0, freezesEnabled: true, freezesAvailable: 0, frozenDays: [] },
+});
+
+const stepRow = (id: string, position: number, completed: boolean) => ({
+    id,
+    user_id: 'user-1',
+    position,
+    title: `Step ${position}`,
+    duration: '1 week',
+    skills_to_learn: [],
+    suggested_resources: [],
+    milestone_project: '',
+    completed,
+    generated_by: null,
+});
+
+beforeEach(() => {
+    db.tables.clear();
+    db.calls.length = 0;
+    forgetProfile('user-1');
+});
+
+describe('fetchProfile', () => {
+    it('keeps the XP of a profile from before the ledger whose ledger and activity tables are empty', async () => {
+        db.rows('profiles').push(preLedgerRow());
+        db.rows('roadmap_steps').push(stepRow('step-1', 0, true), stepRow('step-2', 1, false));
+
+        const profile = (await fetchProfile('user-1'))!;
+
+        expect(profile.xp).toBe(900);
+        expect(profile.xpLedger.map(t => [t.source, t.amount, t.sourceId])).toEqual([
+            ['carried_over', 750, undefined],
+            ['roadmap_step', 150, 'step-1'],
+        ]);
+        expect(db.rows('xp_transactions').map(row => row.amount)).toEqual([750, 150]);
+        expect(db.rows('profiles')[0]).toMatchObject({ xp: 900, revision: 4 });
+    });
+
+    it('reads lists longer than one response page in full', async () => {
+        db.rows('profiles').push({ ...preLedgerRow(), schemaVersion: CURRENT_PROFILE_SCHEMA_VERSION });
+        const occurredAt = (i: number) => new Date(Date.UTC(2026, 0, 1) + i * 60_000).toISOString();
+        for (let i = 0; i < 2500; i++) {
+            db.rows('activity_events').push({ id: `event-${i}`, user_id: 'user-1', type: 'chat_saved', occurred_at: occurredAt(i), entity_id: null, data: {} });
+        }
+
+        const profile = (await fetchProfile('user-1'))!;
+
+        expect(profile.activityLog).toHaveLength(2500);
+        expect(profile.activityLog[1000].occurredAt).toBe(occurredAt(1000));
+        expect(profile.activityLog[2499].id).toBe('event-2499');
+        expect(db.calls.filter(call => call.table === 'activity_events')).toHaveLength(3);
+    });
+});
+
+describe('saveProfile', () => {
+    const eventRow = (id: string, minute: number) =>
+        ({ id, user_id: 'user-1', type: 'chat_saved', occurred_at: new Date(Date.UTC(2026, 0, 1, 0, minute)).toISOString(), entity_id: null, data: { mode: 'mentor' } });
+
+    it('only inserts into append-only tables, skipping rows that are already there', async () => {
+        db.rows('profiles').push({ ...preLedgerRow(), schemaVersion: CURRENT_PROFILE_SCHEMA_VERSION });
+        db.rows('activity_events').push(eventRow('event-1', 1), eventRow('event-2', 2));
+        const profile = (await fetchProfile('user-1'))!;
+        // Another device has added event-3 in the meantime, without this device knowing.
+        db.rows('activity_events').push(eventRow('event-3', 3));
+
+        const [first, second] = profile.activityLog;
+        const event = (id: string, minute: number) => ({ ...second, id, occurredAt: eventRow(id, minute).occurred_at });
+        const edited = { ...second, data: { mode: 'edited' } } as typeof second;
+        await saveProfile({ id: 'user-1', activityLog: [edited, event('event-3', 3), event('event-4', 4)] });
+
+        const writes = db.calls.filter(call => call.table === 'activity_events' && call.op !== 'select');
+        expect(writes).toEqual([{
+            table: 'activity_events',
+            op: 'upsert',
+            payload: [eventRow('event-3', 3), eventRow('event-4', 4)],
+            options: { onConflict: 'id', ignoreDuplicates: true },
+        }]);
+        expect(db.rows('activity_events').map(row => [row.id, row.data])).toEqual([
+            [first.id, { mode: 'mentor' }], [second.id, { mode: 'mentor' }], ['event-3', { mode: 'mentor' }], ['event-4', { mode: 'mentor' }],
+        ]);
+    });
+
+    it('works XP out again after merging steps completed on another device', async () => {
+        db.rows('profiles').push({ ...preLedgerRow(), schemaVersion: CURRENT_PROFILE_SCHEMA_VERSION, xp: 0, level: 1 });
+        db.rows('roadmap_steps').push(stepRow('step-1', 0, false), stepRow('step-2', 1, false));
+        const profile = (await fetchProfile('user-1'))!;
+
+        // Another device completes step 2 and saves first.
+        const elsewhere = { ...profile, roadmap: profile.roadmap.map(s => (s.id === 'step-2' ? { ...s, completed: true } : s)) };
+        const theirs = updateProgress(elsewhere);
+        db.rows('roadmap_steps')[1].completed = true;
+        db.rows('xp_transactions').push(...theirs.xpLedger.map(t => ({
+            id: t.id, user_id: 'user-1', occurred_at: t.occurredAt, amount: t.amount, source: t.source, source_id: t.sourceId, description: t.description,
+        })));
+        Object.assign(db.rows('profiles')[0], { xp: theirs.xp, level: theirs.level, revision: 4 });
+
+        const mine = updateProgress({ ...profile, roadmap: profile.roadmap.map(s => (s.id === 'step-1' ? { ...s, completed: true } : s)) });
+        const merged = await saveProfile({ ...changedFields(profile, mine), id: 'user-1' });
+
+        expect(merged!.xp).toBe(300);
+        expect(merged!.roadmap.every(s => s.completed)).toBe(true);
+        expect(db.rows('profiles')[0]).toMatchObject({ xp: 300, revision: 5 });
+        expect(db.rows('xp_transactions').map(row => row.source_id).sort()).toEqual(['step-1', 'step-2']);
+    });
+});
@@ -0,0 +1,199 @@
+import { supabase } from '../supabaseClient';
+import type { UserProfile } from '../types';
+import { PROFILE_LISTS, PROFILE_TABLES, diffListRows, matchesStoredRow, setProfileList } from './profileTables';
+import { migrateProfile } from './profileMigrations';
+import { changedFields, mergeProfiles } from './profileMerge';
+import { updateProgress } from './profileProgress';
+import type { ListTable, ProfileList, Row } from './profileTables';
+import type { MergeResult } from './profileMerge';
+
+type Entity = { id: string };
+
+// How many times a save merges in changes made elsewhere and retries before giving up.
+const MAX_MERGE_ATTEMPTS = 3;
+
+// What the database is known to hold for each signed-in user, so saves can send only the rows that changed.
+const stored = new Map<string, UserProfile>();
+// The profile row's revision when it was last loaded or saved. Every save bumps it, and a save only applies if
+// the revision is still the one this device knows about.
+const revisions = new Map<string, number>();
+
+// Thrown when the same field or list item was changed on this device and elsewhere since it was last loaded.
+// Nothing has been written; `merge` holds everything that could be merged and `conflicts` what couldn't.
+export class ProfileConflictError extends Error {
+    constructor(public merge: MergeResult) {
+        super(`Your profile was changed somewhere else too (${merge.conflicts.length} conflicting change${merge.conflicts.length === 1 ? '' : 's'}).`);
+    }
+}
+
+// Raised internally when another device or tab has saved since this device's last load or save.
+class StaleProfileError extends Error {}
+
+const isListField = (field: string): field is ProfileList => (PROFILE_LISTS as string[]).includes(field);
+
+// Rows read per request. PostgREST caps responses at 1000 rows, so longer lists are read in pages.
+const PAGE_SIZE = 1000;
+
+const loadList = async <T extends { id: string }>(spec: ListTable<T>, userId: string): Promise<T[]> => {
+    const rows: Row[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        // Ordering by id as well keeps the pages stable when rows share a position or timestamp.
+        const { data, error } = await supabase
+            .from(spec.table)
+            .select('*')
+            .eq('user_id', userId)
+            .order(spec.order.column, { ascending: spec.order.ascending })
+            .order('id', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data as Row[]));
+        if (data.length < PAGE_SIZE) return rows.map(spec.fromRow);
+    }
+};
+
+const writeList = async <T extends { id: string }>(spec: ListTable<T>, userId: string, before: T[], after: T[]) => {
+    const { upserts, deletedIds } = diffListRows(spec, userId, before, after);
+    if (upserts.length > 0 && spec.appendOnly) {
+        // Only inserts. A row another device already added with the same id is skipped rather than updated.
+        const { error } = await supabase.from(spec.table).upsert(upserts, { onConflict: 'id', ignoreDuplicates: true });
+        if (error) throw error;
+    } else if (upserts.length > 0) {
+        const { error } = await supabase.from(spec.table).upsert(upserts, { onConflict: 'id' });
+        if (error) throw error;
+    }
+    if (deletedIds.length > 0) {
+        const { error } = await supabase.from(spec.table).delete().eq('user_id', userId).in('id', deletedIds);
+        if (error) throw error;
+    }
+};
+
+// Loads the profile row and its lists and puts them back together as one UserProfile, upgrading it to the
+// current schema version (and saving the upgrade) if it is older. Returns null for a user who hasn't
+// finished onboarding.
+export const fetchProfile = async (userId: string): Promise<UserProfile | null> => {
+    const { data, error } = await supabase.from('profiles').select('*').eq('id', userId).maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    const { revision, ...columns } = data;
+    const loaded = { ...columns } as UserProfile;
+    const loadInto = async <K extends ProfileList>(field: K) => {
+        setProfileList(loaded, field, await loadList(PROFILE_TABLES[field], userId));
+    };
+    await Promise.all(PROFILE_LISTS.map(loadInto));
+    stored.set(userId, loaded);
+    revisions.set(userId, revision);
+
+    const { profile, migrated } = migrateProfile(loaded);
+    if (migrated) {
+        // Diffing against the row as loaded writes exactly what the migrations changed.
+        await saveProfile({ ...profile, id: userId });
+    }
+    return profile;
+};
+
+const writeProfile = async (id: string, fields: Partial<UserProfile>) => {
+    const previous: Partial<UserProfile> = stored.get(id) || {};
+
+    const profileRow: Row = {};
+    const listWrites: (() => Promise<void>)[] = [];
+    for (const [field, value] of Object.entries(fields)) {
+        const before = previous[field as keyof UserProfile];
+        if (JSON.stringify(before) === JSON.stringify(value)) continue;
+        if (isListField(field)) {
+            listWrites.push(() => writeList(PROFILE_TABLES[field] as ListTable<Entity>, id, (before as Entity[]) || [], (value as Entity[]) || []));
+        } else {
+            profileRow[field] = value ?? null;
+        }
+    }
+
+    if (Object.keys(profileRow).length === 0 && listWrites.length === 0) return;
+
+    if (stored.has(id)) {
+        // Bumps the revision even when only list rows change, so other devices notice every save.
+        const revision = revisions.get(id) ?? 0;
+        const { data, error } = await supabase
+            .from('profiles')
+            .update({ ...profileRow, revision: revision + 1 })
+            .eq('id', id)
+            .eq('revision', revision)
+            .select('revision');
+        if (error) throw error;
+        if (data.length === 0) throw new StaleProfileError();
+        revisions.set(id, revision + 1);
+    } else {
+        // The first save after onboarding creates the row. If it already exists, it was created elsewhere.
+        const { error } = await supabase.from('profiles').insert({ id, ...profileRow, revision: 1 });
+        if (error?.code === '23505') throw new StaleProfileError();
+        if (error) throw error;
+        revisions.set(id, 1);
+    }
+    // List rows reference the profile row, so they are written once it exists.
+    await Promise.all(listWrites.map(write => write()));
+
+    stored.set(id, { ...previous, ...fields, id } as UserProfile);
+};
+
+// Saves the changed fields of a profile. Fields that match what was last loaded or saved are skipped, and
+// list fields only write the rows that were added, edited or removed.
+//
+// If the profile was saved elsewhere in the meantime, the changes are merged with what is stored now and
+// saved again; the merged profile is returned so the caller can show what changed elsewhere. Returns null
+// when nothing needed merging. Throws ProfileConflictError if the same field or item was changed on both sides.
+export const saveProfile = async (changes: Partial<UserProfile> & { id: string }): Promise<UserProfile | null> => {
+    const { id, ...changed } = changes;
+    let fields: Partial<UserProfile> = changed;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await writeProfile(id, fields);
+            return attempt === 1 ? null : stored.get(id)!;
+        } catch (error) {
+            if (!(error instanceof StaleProfileError) || attempt === MAX_MERGE_ATTEMPTS) throw error;
+        }
+
+        const base = stored.get(id) || {};
+        const remote = await fetchProfile(id);
+        if (!remote) throw new Error('The profile no longer exists.');
+        const merge = mergeProfiles(base, fields, remote);
+        if (merge.conflicts.length > 0) throw new ProfileConflictError(merge);
+        // XP, the streak and achievements aren't merged but worked out again from the merged profile.
+        fields = changedFields(remote, updateProgress({ ...remote, ...merge.merged }));
+    }
+};
+
+// Whether saves for this user can be diffed against a loaded profile.
+export const isProfileLoaded = (userId: string): boolean => stored.has(userId);
+
+// Whether a row inserted or updated, as reported by realtime, is news to this device rather than the echo of
+// its own save.
+export const isUnseenRowChange = (userId: string, table: string, row: Row): boolean => {
+    if (table === 'profiles') return row.revision > (revisions.get(userId) ?? 0);
+    const field = PROFILE_LISTS.find(list => PROFILE_TABLES[list].table === table);
+    const items = field && (stored.get(userId)?.[field] as Entity[] | undefined);
+    if (!field || !items) return false;
+    return !matchesStoredRow(PROFILE_TABLES[field] as ListTable<Entity>, userId, items, row);
+};
+
+// What the database is known to hold for a user, for keeping across page loads.
+export const getStoredSnapshot = (userId: string): { profile: UserProfile; revision: number } | undefined =>
+    stored.has(userId) ? { profile: stored.get(userId)!, revision: revisions.get(userId) ?? 0 } : undefined;
+
+// Makes later saves diff against, and merge from, a snapshot kept from an earlier page load. Used when
+// changes queued on top of it are still waiting to be saved.
+export const restoreStoredSnapshot = (userId: string, snapshot: { profile: UserProfile; revision: number }) => {
+    stored.set(userId, snapshot.profile);
+    revisions.set(userId, snapshot.revision);
+};
+
+// Permanently deletes the signed-in user's account. The profile and every list row go with it.
+export const deleteAccount = async (userId: string) => {
+    const { error } = await supabase.rpc('delete_account');
+    if (error) throw error;
+    forgetProfile(userId);
+};
+
+// Drops what is known about a user's stored profile, e.g. after they sign out.
+export const forgetProfile = (userId: string) => {
+    stored.delete(userId);
+    revisions.delete(userId);
+};
@@ -0,0 +1,315 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import type { UserProfile } from '../types';
+import {
+    fetchProfile, isProfileLoaded, saveProfile, forgetProfile, getStoredSnapshot, restoreStoredSnapshot, isUnseenRowChange,
+    ProfileConflictError,
+} from './profileStore';
+import { PROFILE_LISTS, PROFILE_TABLES } from './profileTables';
+import {
+    deleteMutations, deleteReplica, readMutations, readReplica, recordLocalChange, writeReplica, replaceMutations,
+    readSyncedSnapshot, writeSyncedSnapshot, deleteSyncedSnapshot,
+} from './profileReplica';
+import { changedFields, resolveConflicts } from './profileMerge';
+import { updateProgress } from './profileProgress';
+import type { QueuedMutation } from './profileReplica';
+import type { Row } from './profileTables';
+import type { ConflictChoice, MergeResult, ProfileConflict } from './profileMerge';
+
+const RETRY_DELAY_MS = 30 * 1000;
+// A save from another device touches the profile row and then each changed list, so wait for it to settle.
+const REMOTE_CHANGE_DELAY_MS = 1000;
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'error' | 'conflict';
+
+export interface SyncStatus {
+    state: SyncState;
+    // Queued changes that haven't reached Supabase yet.
+    pending: number;
+    // Set while syncing is paused until the user picks a version for each of these.
+    conflicts?: ProfileConflict[];
+}
+
+type SyncListener = (status: SyncStatus) => void;
+// `changedElsewhere` is false when the update only reflects choices made on this device.
+type ProfileListener = (profile: UserProfile, changedElsewhere: boolean) => void;
+
+// A save that ran into changes made elsewhere, and the queued mutations it covered.
+interface PendingConflict {
+    userId: string;
+    merge: MergeResult;
+    seqs: number[];
+}
+
+const listeners = new Set<SyncListener>();
+const profileListeners = new Set<ProfileListener>();
+let status: SyncStatus = { state: 'synced', pending: 0 };
+let activeUserId: string | null = null;
+let flushing: Promise<void> | null = null;
+let pulling: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let pullTimer: ReturnType<typeof setTimeout> | undefined;
+let conflict: PendingConflict | null = null;
+
+const setStatus = (next: SyncStatus) => {
+    status = next;
+    listeners.forEach(listener => listener(status));
+};
+
+// Lets the UI show whether local changes have reached Supabase. Returns an unsubscribe function.
+export const subscribeToSyncStatus = (listener: SyncListener): (() => void) => {
+    listeners.add(listener);
+    listener(status);
+    return () => { listeners.delete(listener); };
+};
+
+// Lets the app show changes from other devices or tabs that a sync merged in. Returns an unsubscribe function.
+export const subscribeToSyncedProfile = (listener: ProfileListener): (() => void) => {
+    profileListeners.add(listener);
+    return () => { profileListeners.delete(listener); };
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Saves diff against what Supabase holds, so replaying the queued changes merged in order (later fields win)
+// writes the same result as replaying them one by one.
+const mergeChanges = (mutations: QueuedMutation[]): Partial<UserProfile> =>
+    Object.assign({}, ...mutations.map(mutation => mutation.changes));
+
+// Remembers what Supabase holds, so changes queued on top of it can be merged after a reload.
+const keepSyncedSnapshot = async (userId: string) => {
+    const snapshot = getStoredSnapshot(userId);
+    if (!snapshot) return;
+    await writeSyncedSnapshot({ userId, ...snapshot }).catch(error => console.warn('Failed to store the synced profile copy:', error));
+};
+
+// Shows a merged profile with whatever is still queued on top, and keeps it as the local copy.
+const publishProfile = async (userId: string, profile: UserProfile, changedElsewhere: boolean) => {
+    const current = { ...profile, ...mergeChanges(await readMutations(userId)), id: userId };
+    await writeReplica(current).catch(error => console.warn('Failed to update the local profile copy:', error));
+    profileListeners.forEach(listener => listener(current, changedElsewhere));
+};
+
+const flush = async () => {
+    const userId = activeUserId;
+    if (!userId) return;
+    clearTimeout(retryTimer);
+    // Saving while a pull replaces the stored profile would diff against the wrong base.
+    await pulling;
+
+    // Loops so changes queued while a save was in flight go out straight after it.
+    while (true) {
+        const mutations = await readMutations(userId);
+        if (conflict) {
+            // Nothing more is saved until the conflict is resolved; the resolution replaces the changes it covers.
+            setStatus({ state: 'conflict', pending: mutations.length, conflicts: conflict.merge.conflicts });
+            return;
+        }
+        if (mutations.length === 0) {
+            setStatus({ state: 'synced', pending: 0 });
+            return;
+        }
+        if (isOffline()) {
+            // The 'online' listener below picks the queue up again.
+            setStatus({ state: 'offline', pending: mutations.length });
+            return;
+        }
+        setStatus({ state: 'syncing', pending: mutations.length });
+        try {
+            // A profile opened from the replica while offline diffs against what was synced before; otherwise
+            // the current row is the base.
+            if (!isProfileLoaded(userId)) {
+                const snapshot = await readSyncedSnapshot(userId).catch(() => undefined);
+                if (snapshot) restoreStoredSnapshot(userId, snapshot);
+                else await fetchProfile(userId);
+            }
+            const merged = await saveProfile({ ...mergeChanges(mutations), id: userId });
+            await keepSyncedSnapshot(userId);
+            await deleteMutations(mutations.map(mutation => mutation.seq!));
+            if (merged) await publishProfile(userId, merged, true);
+        } catch (error) {
+            if (error instanceof ProfileConflictError) {
+                conflict = { userId, merge: error.merge, seqs: mutations.map(mutation => mutation.seq!) };
+                await keepSyncedSnapshot(userId);
+                setStatus({ state: 'conflict', pending: mutations.length, conflicts: error.merge.conflicts });
+                return;
+            }
+            console.error('Failed to sync profile changes:', error);
+            setStatus({ state: isOffline() ? 'offline' : 'error', pending: mutations.length });
+            retryTimer = setTimeout(flushProfileChanges, RETRY_DELAY_MS);
+            return;
+        }
+    }
+};
+
+// Replays queued changes to Supabase. Concurrent calls share the same run.
+export const flushProfileChanges = (): Promise<void> => {
+    if (!flushing) {
+        flushing = flush().finally(() => { flushing = null; });
+    }
+    return flushing;
+};
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => { flushProfileChanges(); });
+}
+
+// Loads a user's profile with any changes still waiting in the queue applied on top. Falls back to the local
+// replica when Supabase can't be reached, and to null for a user who hasn't finished onboarding.
+export const openProfile = async (userId: string): Promise<UserProfile | null> => {
+    activeUserId = userId;
+    conflict = null;
+    const pending = mergeChanges(await readMutations(userId).catch(() => []));
+    const hasPending = Object.keys(pending).length > 0;
+    const snapshot = hasPending ? await readSyncedSnapshot(userId).catch(() => undefined) : undefined;
+
+    let profile: UserProfile | null;
+    try {
+        profile = await fetchProfile(userId);
+    } catch (error) {
+        const replica = await readReplica(userId).catch(() => undefined);
+        if (!replica) throw error;
+        console.warn('Could not reach the database, using the local copy of the profile:', error);
+        flushProfileChanges();
+        return replica;
+    }
+
+    if (!profile) {
+        // A profile created while offline only exists locally until its first sync.
+        const replica = hasPending ? await readReplica(userId).catch(() => undefined) : undefined;
+        if (replica) flushProfileChanges();
+        return replica || null;
+    }
+
+    if (snapshot) {
+        // The queued changes were made on top of this snapshot. Saving them from it lets the first sync notice,
+        // and merge, anything saved elsewhere since.
+        restoreStoredSnapshot(userId, snapshot);
+    } else {
+        await keepSyncedSnapshot(userId);
+    }
+    const merged = { ...profile, ...pending };
+    await writeReplica({ ...merged, id: userId }).catch(error => console.warn('Failed to update the local profile copy:', error));
+    flushProfileChanges();
+    return merged;
+};
+
+// Applies changes locally right away and syncs them in the background. Only fails if the change couldn't be
+// stored on this device.
+export const queueProfileChanges = async (changes: Partial<UserProfile> & { id: string }) => {
+    const { id, ...fields } = changes;
+    await recordLocalChange(id, fields);
+    setStatus({ ...status, state: status.state === 'synced' ? 'syncing' : status.state, pending: status.pending + 1 });
+    flushProfileChanges();
+};
+
+// Applies the user's pick for each conflict and resumes syncing. `choices` follows the order of the conflicts
+// in the sync status.
+export const resolveSyncConflicts = async (choices: ConflictChoice[]) => {
+    if (!conflict) return;
+    const { userId, merge, seqs } = conflict;
+    const stored = getStoredSnapshot(userId)!.profile;
+    // As after any merge, XP, the streak and achievements are worked out again from the result.
+    const profile = updateProgress({ ...stored, ...resolveConflicts(merge, choices) });
+    await replaceMutations(userId, seqs, changedFields(stored, profile), { ...profile, id: userId });
+    conflict = null;
+    await publishProfile(userId, profile, false);
+    await flushProfileChanges();
+};
+
+// Brings in what another device or tab saved. Queued changes are left to the next save, which merges them
+// with the new version itself.
+const pull = async (userId: string) => {
+    if (conflict || userId !== activeUserId || !isProfileLoaded(userId)) return;
+    if ((await readMutations(userId)).length > 0) {
+        flushProfileChanges();
+        return;
+    }
+
+    const before = getStoredSnapshot(userId)!;
+    const remote = await fetchProfile(userId);
+    if (!remote || userId !== activeUserId) return;
+    if ((await readMutations(userId)).length > 0) {
+        // Changes were queued while fetching, on top of the old version. Saving them from that base lets the
+        // flush merge them with what just arrived instead of overwriting it.
+        restoreStoredSnapshot(userId, before);
+        return;
+    }
+    await keepSyncedSnapshot(userId);
+    await publishProfile(userId, remote, getStoredSnapshot(userId)!.revision > before.revision);
+};
+
+const schedulePull = (userId: string) => {
+    clearTimeout(pullTimer);
+    pullTimer = setTimeout(async () => {
+        while (flushing) await flushing;
+        if (pulling) return schedulePull(userId);
+        pulling = pull(userId)
+            .catch(error => console.error('Failed to load profile changes from another device:', error))
+            .finally(() => { pulling = null; });
+    }, REMOTE_CHANGE_DELAY_MS);
+};
+
+// Listens for changes to the user's rows made by other devices or tabs and merges them into the open profile.
+// Returns an unsubscribe function.
+export const watchRemoteChanges = (userId: string): (() => void) => {
+    const onChange = (payload: RealtimePostgresChangesPayload<Row>) => {
+        if (payload.eventType === 'DELETE') return;
+        if (isUnseenRowChange(userId, payload.table, payload.new)) schedulePull(userId);
+    };
+
+    // Deletes can't be filtered by column, so list rows removed elsewhere aren't reported. Every save bumps the
+    // profile row's revision, though, so the update to that row brings them in.
+    const channel = supabase
+        .channel(`profile:${userId}`)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'profiles', filter: `id=eq.${userId}` }, onChange);
+    for (const table of PROFILE_LISTS.map(field => PROFILE_TABLES[field].table)) {
+        channel.on('postgres_changes', { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` }, onChange);
+    }
+
+    let connectedBefore = false;
+    channel.subscribe(state => {
+        if (state !== 'SUBSCRIBED') return;
+        // Changes made while the connection was down aren't replayed, so catch up after reconnecting.
+        if (connectedBefore) schedulePull(userId);
+        connectedBefore = true;
+    });
+
+    return () => {
+        clearTimeout(pullTimer);
+        supabase.removeChannel(channel);
+    };
+};
+
+export const countPendingChanges = async (userId: string): Promise<number> =>
+    (await readMutations(userId).catch(() => [])).length;
+
+// Removes everything kept on this device for a user whose account was deleted, including queued changes.
+export const discardLocalProfile = async (userId: string) => {
+    if (activeUserId === userId) activeUserId = null;
+    conflict = null;
+    clearTimeout(retryTimer);
+    clearTimeout(pullTimer);
+    forgetProfile(userId);
+    setStatus({ state: 'synced', pending: 0 });
+    const mutations = await readMutations(userId).catch(() => []);
+    await Promise.all([
+        deleteMutations(mutations.map(mutation => mutation.seq!)),
+        deleteReplica(userId),
+        deleteSyncedSnapshot(userId),
+    ]).catch(error => console.warn('Failed to remove the local profile data:', error));
+};
+
+// Stops syncing for the signed-out user. Queued changes stay on this device and go out at their next sign-in.
+export const closeProfile = async (userId: string) => {
+    if (activeUserId === userId) activeUserId = null;
+    conflict = null;
+    clearTimeout(retryTimer);
+    forgetProfile(userId);
+    setStatus({ state: 'synced', pending: 0 });
+    await deleteReplica(userId).catch(error => console.warn('Failed to remove the local profile copy:', error));
+    // Queued changes need the synced copy to merge against at the next sign-in.
+    if (await countPendingChanges(userId) === 0) {
+        await deleteSyncedSnapshot(userId).catch(error => console.warn('Failed to remove the synced profile copy:', error));
+    }
+};
@@ -0,0 +1,313 @@
+import type { ActivityEvent, UserProfile } from '../types';
+
+// A database row as supabase-js returns it.
+export type Row = Record<string, any>;
+
+// The list fields of UserProfile that live in their own tables, one row per item.
+export type ProfileList = 'skills' | 'roadmap' | 'projects' | 'trackedJobs' | 'interviewHistory' | 'voiceMentorHistory' | 'quizHistory' | 'smartChatHistory' | 'activityLog' | 'xpLedger' | 'quests';
+
+export type ListItem<K extends ProfileList> = NonNullable<UserProfile[K]>[number];
+
+// Sets one list field of a profile being put together. TypeScript can't see that a list of a field's items is
+// that field's type when the field is generic, so this is the one place that says so.
+export const setProfileList = <K extends ProfileList>(target: Partial<UserProfile>, key: K, value: ListItem<K>[]) => {
+    target[key] = value as UserProfile[K];
+};
+
+// Every item carries a generated id, which is also the primary key of its row, so an edit updates that row
+// instead of replacing the list.
+export interface ListTable<T extends { id: string }> {
+    table: string;
+    // Lists whose order is chosen by the user or the AI keep a position column; histories are ordered by date.
+    order: { column: 'position' | 'occurred_at'; ascending: boolean };
+    // Rows are only ever added. Row-level security allows no updates or deletes, so saves insert new items and
+    // leave the rest alone.
+    appendOnly?: boolean;
+    toRow: (item: T) => Row;
+    fromRow: (row: Row) => T;
+}
+
+const defineTable = <K extends ProfileList>(table: ListTable<ListItem<K>>) => table;
+
+// Optional fields are stored as null and come back as undefined, matching the shape the app builds itself.
+const optional = <T>(value: T | null): T | undefined => value ?? undefined;
+
+export const PROFILE_TABLES: { [K in ProfileList]: ListTable<ListItem<K>> } = {
+    skills: defineTable<'skills'>({
+        table: 'profile_skills',
+        order: { column: 'position', ascending: true },
+        toRow: (skill) => ({
+            name: skill.name,
+            proficiency: skill.proficiency,
+            category: skill.category,
+            is_gap: skill.isGap,
+            generated_by: skill.generatedBy ?? null,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            name: row.name,
+            proficiency: row.proficiency,
+            category: row.category,
+            isGap: row.is_gap,
+            generatedBy: optional(row.generated_by),
+        }),
+    }),
+    roadmap: defineTable<'roadmap'>({
+        table: 'roadmap_steps',
+        order: { column: 'position', ascending: true },
+        toRow: (step) => ({
+            title: step.title,
+            duration: step.duration,
+            skills_to_learn: step.skillsToLearn,
+            suggested_resources: step.suggestedResources,
+            milestone_project: step.milestoneProject,
+            completed: step.completed,
+            generated_by: step.generatedBy ?? null,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            title: row.title,
+            duration: row.duration,
+            skillsToLearn: row.skills_to_learn,
+            suggestedResources: row.suggested_resources,
+            milestoneProject: row.milestone_project,
+            completed: row.completed,
+            generatedBy: optional(row.generated_by),
+        }),
+    }),
+    projects: defineTable<'projects'>({
+        table: 'user_projects',
+        order: { column: 'position', ascending: true },
+        toRow: (project) => ({
+            title: project.title,
+            description: project.description,
+            required_skills: project.requiredSkills,
+            difficulty: project.difficulty,
+            xp: project.xp,
+            status: project.status,
+            notes: project.notes ?? null,
+            project_url: project.projectUrl ?? null,
+            project_plan: project.projectPlan ?? null,
+            generated_by: project.generatedBy ?? null,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            title: row.title,
+            description: row.description,
+            requiredSkills: row.required_skills,
+            difficulty: row.difficulty,
+            xp: row.xp,
+            status: row.status,
+            notes: optional(row.notes),
+            projectUrl: optional(row.project_url),
+            projectPlan: optional(row.project_plan),
+            generatedBy: optional(row.generated_by),
+        }),
+    }),
+    trackedJobs: defineTable<'trackedJobs'>({
+        table: 'tracked_jobs',
+        order: { column: 'position', ascending: true },
+        toRow: (job) => ({
+            title: job.title,
+            company: job.company,
+            location: job.location,
+            url: job.url,
+            description: job.description,
+            source: job.source ?? null,
+            verified: job.verified ?? null,
+            status: job.status,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            title: row.title,
+            company: row.company,
+            location: row.location,
+            url: row.url,
+            description: row.description,
+            source: optional(row.source),
+            verified: optional(row.verified),
+            status: row.status,
+        }),
+    }),
+    interviewHistory: defineTable<'interviewHistory'>({
+        table: 'interview_sessions',
+        order: { column: 'occurred_at', ascending: false },
+        toRow: (session) => ({
+            occurred_at: session.date,
+            target_role: session.targetRole,
+            transcript: session.transcript,
+            feedback_summary: session.feedbackSummary,
+            prompts: session.prompts ?? null,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            date: new Date(row.occurred_at).toISOString(),
+            targetRole: row.target_role,
+            transcript: row.transcript,
+            feedbackSummary: row.feedback_summary,
+            prompts: optional(row.prompts),
+        }),
+    }),
+    voiceMentorHistory: defineTable<'voiceMentorHistory'>({
+        table: 'voice_sessions',
+        order: { column: 'occurred_at', ascending: false },
+        toRow: (session) => ({
+            occurred_at: session.date,
+            transcript: session.transcript,
+            key_takeaways: session.keyTakeaways,
+            prompts: session.prompts ?? null,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            date: new Date(row.occurred_at).toISOString(),
+            transcript: row.transcript,
+            keyTakeaways: row.key_takeaways,
+            prompts: optional(row.prompts),
+        }),
+    }),
+    quizHistory: defineTable<'quizHistory'>({
+        table: 'quiz_sessions',
+        order: { column: 'occurred_at', ascending: false },
+        toRow: (session) => ({
+            occurred_at: session.date,
+            target_role: session.targetRole,
+            topics: session.topics,
+            questions: session.questions,
+            score: session.score,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            date: new Date(row.occurred_at).toISOString(),
+            targetRole: row.target_role,
+            topics: row.topics,
+            questions: row.questions,
+            score: row.score,
+        }),
+    }),
+    smartChatHistory: defineTable<'smartChatHistory'>({
+        table: 'chat_sessions',
+        order: { column: 'occurred_at', ascending: true },
+        toRow: (session) => ({
+            occurred_at: session.date,
+            mode: session.mode,
+            messages: session.messages,
+            prompts: session.prompts ?? null,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            date: new Date(row.occurred_at).toISOString(),
+            mode: row.mode,
+            messages: row.messages,
+            prompts: optional(row.prompts),
+        }),
+    }),
+    activityLog: defineTable<'activityLog'>({
+        table: 'activity_events',
+        order: { column: 'occurred_at', ascending: true },
+        appendOnly: true,
+        toRow: (event) => ({
+            type: event.type,
+            occurred_at: event.occurredAt,
+            entity_id: event.entityId ?? null,
+            data: event.data,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            type: row.type,
+            occurredAt: new Date(row.occurred_at).toISOString(),
+            entityId: optional(row.entity_id),
+            data: row.data,
+        }) as ActivityEvent,
+    }),
+    xpLedger: defineTable<'xpLedger'>({
+        table: 'xp_transactions',
+        order: { column: 'occurred_at', ascending: true },
+        appendOnly: true,
+        toRow: (transaction) => ({
+            occurred_at: transaction.occurredAt,
+            amount: transaction.amount,
+            source: transaction.source,
+            source_id: transaction.sourceId ?? null,
+            description: transaction.description,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            occurredAt: new Date(row.occurred_at).toISOString(),
+            amount: row.amount,
+            source: row.source,
+            sourceId: optional(row.source_id),
+            description: row.description,
+        }),
+    }),
+    quests: defineTable<'quests'>({
+        table: 'weekly_quests',
+        order: { column: 'position', ascending: true },
+        toRow: (quest) => ({
+            week_start: quest.weekStart,
+            kind: quest.kind,
+            title: quest.title,
+            metric: quest.metric,
+            target: quest.target,
+            entity_id: quest.entityId ?? null,
+            skill: quest.skill ?? null,
+            xp: quest.xp,
+            repeat: quest.repeat ?? false,
+            completed_at: quest.completedAt ?? null,
+        }),
+        fromRow: (row) => ({
+            id: row.id,
+            weekStart: row.week_start,
+            kind: row.kind,
+            title: row.title,
+            metric: row.metric,
+            target: row.target,
+            entityId: optional(row.entity_id),
+            skill: optional(row.skill),
+            xp: row.xp,
+            repeat: row.repeat || undefined,
+            completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : undefined,
+        }),
+    }),
+};
+
+export const PROFILE_LISTS = Object.keys(PROFILE_TABLES) as ProfileList[];
+
+export const APPEND_ONLY_LISTS = PROFILE_LISTS.filter(field => PROFILE_TABLES[field].appendOnly);
+
+export interface RowChanges {
+    upserts: Row[];
+    deletedIds: string[];
+}
+
+// Builds the full row for every item, by id.
+const toRowsById = <T extends { id: string }>(spec: ListTable<T>, userId: string, items: T[]): Map<string, Row> => {
+    const rows = new Map<string, Row>();
+    items.forEach((item, index) => {
+        const row: Row = { id: item.id, user_id: userId, ...spec.toRow(item) };
+        if (spec.order.column === 'position') row.position = index;
+        rows.set(item.id, row);
+    });
+    return rows;
+};
+
+// Works out which rows have to be written or removed to turn the stored list into the new one. Append-only
+// lists only ever get their new rows.
+export const diffListRows = <T extends { id: string }>(spec: ListTable<T>, userId: string, before: T[], after: T[]): RowChanges => {
+    const previous = toRowsById(spec, userId, before);
+    const next = toRowsById(spec, userId, after);
+    if (spec.appendOnly) {
+        return { upserts: [...next.entries()].filter(([id]) => !previous.has(id)).map(([, row]) => row), deletedIds: [] };
+    }
+    const upserts = [...next.entries()]
+        .filter(([id, row]) => JSON.stringify(previous.get(id)) !== JSON.stringify(row))
+        .map(([, row]) => row);
+    const deletedIds = [...previous.keys()].filter(id => !next.has(id));
+    return { upserts, deletedIds };
+};
+
+// Whether a row read back from the database holds what `items` has for it. Only the columns the app writes are
+// compared, so a row this device just saved matches.
+export const matchesStoredRow = <T extends { id: string }>(spec: ListTable<T>, userId: string, items: T[], row: Row): boolean => {
+    const expected = toRowsById(spec, userId, items).get(row.id);
+    return !!expected && Object.entries(expected).every(([column, value]) => JSON.stringify(row[column] ?? null) === JSON.stringify(value ?? null));
+};
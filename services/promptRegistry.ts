@@ -0,0 +1,65 @@
+import type { PromptRef } from '../types';
+
+// A named prompt with one or more immutable versions. Never edit a version that has shipped: add a new
+// version and point `activeVersion` at it, so stored artifacts can always be traced back to the exact text.
+export interface PromptTemplate<V> {
+    name: string;
+    versions: Record<string, (vars: V) => string>;
+    activeVersion: string;
+    // Optional A/B test: signed-in users are split evenly and deterministically across these versions.
+    experiment?: string[];
+}
+
+export interface RenderedPrompt {
+    text: string;
+    ref: PromptRef;
+}
+
+const overrides = new Map<string, string>();
+
+export const definePrompt = <V>(template: PromptTemplate<V>): PromptTemplate<V> => {
+    const missing = [template.activeVersion, ...(template.experiment || [])].filter(version => !template.versions[version]);
+    if (missing.length > 0) {
+        throw new Error(`Prompt "${template.name}" refers to unknown versions: ${missing.join(', ')}`);
+    }
+    return template;
+};
+
+// A small, stable string hash so a user always lands in the same experiment bucket.
+const bucketOf = (key: string, buckets: number): number => {
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+        hash = (hash * 31 + key.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash) % buckets;
+};
+
+const chooseVersion = <V>(template: PromptTemplate<V>, userId?: string): string => {
+    const override = overrides.get(template.name);
+    if (override && template.versions[override]) return override;
+    if (template.experiment?.length && userId) {
+        return template.experiment[bucketOf(`${template.name}:${userId}`, template.experiment.length)];
+    }
+    return template.activeVersion;
+};
+
+// The version a user gets for a template, for stamping artifacts whose prompt is rendered elsewhere.
+export const resolvePromptRef = <V>(template: PromptTemplate<V>, userId?: string): PromptRef => ({
+    template: template.name,
+    version: chooseVersion(template, userId),
+});
+
+// Renders the version that applies to this user. Pass the user id to take part in experiments.
+export const renderPrompt = <V>(template: PromptTemplate<V>, vars: V, userId?: string): RenderedPrompt => {
+    const ref = resolvePromptRef(template, userId);
+    return { text: template.versions[ref.version](vars), ref };
+};
+
+// Pins a template to a specific version for this session, e.g. to reproduce a regression. Pass null to clear.
+export const setPromptVersionOverride = (name: string, version: string | null) => {
+    if (version) {
+        overrides.set(name, version);
+    } else {
+        overrides.delete(name);
+    }
+};
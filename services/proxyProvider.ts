@@ -0,0 +1,148 @@
+import { supabase } from '../supabaseClient';
+import type { AiChatOptions, AiGenerateRequest, AiProvider, AiResponse } from './aiProvider';
+import type { ProxyChatBody, ProxyChatTurn, ProxyLiveClientMessage, ProxyLiveServerMessage, ProxyRequestBody, ProxyResponse, ProxyStreamLine } from './aiProxyProtocol';
+import { executeAiRequest } from './aiRequestExecutor';
+import { recordAiUsage } from './aiUsage';
+
+// Errors from the proxy keep the HTTP status and Retry-After hint so the request executor can decide whether to retry.
+class AiProxyError extends Error {
+    constructor(message: string, public status: number, public retryAfterMs?: number) {
+        super(message);
+    }
+}
+
+const getAccessToken = async (): Promise<string> => {
+    const { data } = await supabase.auth.getSession();
+    if (!data.session) {
+        throw new AiProxyError('Sign in to use AI features.', 401);
+    }
+    return data.session.access_token;
+};
+
+const toProxyError = async (response: Response): Promise<AiProxyError> => {
+    const body = await response.json().catch(() => ({}));
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    return new AiProxyError(body.error || `AI proxy request failed with status ${response.status}.`, response.status, retryAfter ? retryAfter * 1000 : undefined);
+};
+
+// Reads the proxy's newline-delimited JSON stream.
+const readStreamLines = async function* (response: Response): AsyncGenerator<ProxyStreamLine> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+            if (line.trim()) yield JSON.parse(line);
+        }
+        if (done) break;
+    }
+};
+
+// Only the feature's inputs are sent; the server renders the prompt, schema and tools from them.
+const toRequestBody = ({ model, input, thinkingBudget }: AiGenerateRequest | AiChatOptions): ProxyRequestBody => ({ model, input, thinkingBudget });
+
+// Sends requests to the proxy server in server/, which holds the Gemini key and enforces per-user quotas.
+export const createProxyProvider = (baseUrl: string): AiProvider => {
+    const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await getAccessToken()}` },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            throw await toProxyError(response);
+        }
+        return response;
+    };
+
+    const generateVia = async (path: string, { signal, ...request }: AiGenerateRequest): Promise<AiResponse> => {
+        const response = await executeAiRequest(request.feature, () => post(path, toRequestBody(request), signal), signal);
+        const { usage, ...result }: ProxyResponse = await response.json();
+        recordAiUsage(request.feature, request.model, usage);
+        return result;
+    };
+
+    // Only opening a stream is retried; once text has been yielded a failure is passed on to the caller.
+    const streamVia = async function* (path: string, body: ProxyRequestBody, signal?: AbortSignal): AsyncGenerator<string> {
+        const { feature } = body.input;
+        const response = await executeAiRequest(feature, () => post(path, body, signal), signal);
+        for await (const line of readStreamLines(response)) {
+            if ('error' in line) throw new AiProxyError(line.error, line.status);
+            if ('usage' in line) recordAiUsage(feature, body.model, line.usage);
+            else yield line.text;
+        }
+    };
+
+    return {
+        name: 'proxy',
+
+        generate: (request) => generateVia('/ai/generate', request),
+
+        generateStructured: (request) => generateVia('/ai/structured', request),
+
+        stream: (request) => streamVia('/ai/stream', toRequestBody(request), request.signal),
+
+        streamStructured: (request) => streamVia('/ai/stream-structured', toRequestBody(request), request.signal),
+
+        createChat: (options) => {
+            const history: ProxyChatTurn[] = [];
+            return {
+                sendMessageStream: async function* (message, signal) {
+                    const body: ProxyChatBody = { ...toRequestBody(options), history: [...history], message };
+                    let reply = '';
+                    for await (const text of streamVia('/ai/chat', body, signal)) {
+                        reply += text;
+                        yield text;
+                    }
+                    // Only completed exchanges join the history, matching how the Gemini chat session behaves.
+                    history.push({ role: 'user', text: message }, { role: 'model', text: reply });
+                },
+            };
+        },
+
+        connectLive: async (options) => {
+            const token = await getAccessToken();
+            const url = new URL(`${baseUrl}/ai/live`, window.location.href);
+            url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+            const socket = new WebSocket(url);
+            const send = (message: ProxyLiveClientMessage) => {
+                if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+            };
+
+            await new Promise<void>((resolve, reject) => {
+                socket.onopen = () => resolve();
+                socket.onerror = () => reject(new AiProxyError('Could not reach the AI proxy.', 503));
+            });
+            socket.onerror = (event) => options.callbacks.onerror(event);
+            socket.onclose = () => options.callbacks.onclose();
+            socket.onmessage = (event) => {
+                const message: ProxyLiveServerMessage = JSON.parse(event.data);
+                if (message.type === 'open') {
+                    options.callbacks.onopen();
+                } else if (message.type === 'event') {
+                    if (message.usage) recordAiUsage(options.feature, options.model, message.usage);
+                    options.callbacks.onevent(message.event);
+                } else {
+                    options.callbacks.onerror(new Error(message.message));
+                }
+            };
+            send({
+                type: 'setup',
+                token,
+                model: options.model,
+                input: options.input,
+                voiceName: options.voiceName,
+            });
+
+            return {
+                sendAudio: (chunk) => send({ type: 'audio', ...chunk }),
+                close: () => socket.close(),
+            };
+        },
+    };
+};
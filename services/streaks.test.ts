@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import type { ActivityEvent, StreakState, UserProfile } from '../types';
+import { testProfile } from './profileFixtures';
+import { activityDay, countStreak, deviceTimeZone, updateStreak } from './streaks';
+
+const event = (occurredAt: string): ActivityEvent =>
+    ({ id: occurredAt, type: 'quiz_completed', occurredAt, entityId: occurredAt, data: { targetRole: 'Data Engineer', score: 80 } });
+
+const profile = (instants: string[], streakState: Partial<StreakState> = {}, streak = 0): UserProfile => {
+    const base = testProfile();
+    return { ...base, streak, streakState: { ...base.streakState, ...streakState }, activityLog: instants.map(event) };
+};
+
+// Noon UTC on each day, for tests where the time of day doesn't matter.
+const days = (...dates: string[]) => dates.map(date => `${date}T12:00:00.000Z`);
+
+describe('activityDay', () => {
+    it('follows New York onto daylight saving time in March', () => {
+        const zone = 'America/New_York';
+        // Clocks went forward at 2am on 8 March 2026, from UTC-5 to UTC-4.
+        expect(activityDay('2026-03-08T04:30:00.000Z', zone)).toBe('2026-03-07'); // 23:30 EST
+        expect(activityDay('2026-03-08T05:30:00.000Z', zone)).toBe('2026-03-08'); // 00:30 EST
+        expect(activityDay('2026-03-09T03:30:00.000Z', zone)).toBe('2026-03-08'); // 23:30 EDT
+        expect(activityDay('2026-03-09T04:30:00.000Z', zone)).toBe('2026-03-09'); // 00:30 EDT
+    });
+
+    it('follows New York off daylight saving time in November', () => {
+        const zone = 'America/New_York';
+        // Clocks went back at 2am on 1 November 2026, so 1:30 happened twice.
+        expect(activityDay('2026-11-01T05:30:00.000Z', zone)).toBe('2026-11-01'); // 01:30 EDT
+        expect(activityDay('2026-11-01T06:30:00.000Z', zone)).toBe('2026-11-01'); // 01:30 EST
+        expect(activityDay('2026-11-02T04:30:00.000Z', zone)).toBe('2026-11-01'); // 23:30 EST
+        expect(activityDay('2026-11-02T05:30:00.000Z', zone)).toBe('2026-11-02'); // 00:30 EST
+    });
+
+    it('puts the same instant on different days at UTC+13 and UTC-11', () => {
+        expect(activityDay('2026-03-10T11:30:00.000Z', 'Pacific/Tongatapu')).toBe('2026-03-11');
+        expect(activityDay('2026-03-10T10:30:00.000Z', 'Pacific/Pago_Pago')).toBe('2026-03-09');
+    });
+
+    it('counts in UTC when the time zone is unknown', () => {
+        expect(activityDay('2026-03-10T23:30:00.000Z', 'Not/AZone')).toBe('2026-03-10');
+    });
+});
+
+describe('updateStreak', () => {
+    it('keeps the streak across the short March day in New York', () => {
+        const zone = 'America/New_York';
+        const instants = ['2026-03-08T04:30:00.000Z', '2026-03-09T03:30:00.000Z', '2026-03-09T20:00:00.000Z'];
+        expect(updateStreak(profile(instants, { timeZone: zone }), new Date('2026-03-09T21:00:00.000Z')).streak).toBe(3);
+    });
+
+    it('keeps the streak across the long November day in New York', () => {
+        const zone = 'America/New_York';
+        const instants = ['2026-10-31T15:00:00.000Z', '2026-11-01T06:30:00.000Z', '2026-11-02T05:30:00.000Z'];
+        expect(updateStreak(profile(instants, { timeZone: zone }), new Date('2026-11-02T20:00:00.000Z')).streak).toBe(3);
+    });
+
+    it('counts days in far-east and far-west time zones', () => {
+        // 11:30 UTC is just after midnight both at UTC+13 and at UTC-11, on days a day apart.
+        const instants = ['2026-03-09T11:30:00.000Z', '2026-03-10T11:30:00.000Z'];
+        const streakAt = (timeZone: string, now: string) => {
+            const before = profile(instants, { timeZone }, 2);
+            return { ...before, ...updateStreak(before, new Date(now)) }.streak;
+        };
+        expect(streakAt('Pacific/Tongatapu', '2026-03-11T20:00:00.000Z')).toBe(2); // 12 March, 09:00
+        expect(streakAt('Pacific/Tongatapu', '2026-03-12T20:00:00.000Z')).toBe(0); // 13 March, 09:00
+        expect(streakAt('Pacific/Pago_Pago', '2026-03-11T20:00:00.000Z')).toBe(2); // 11 March, 09:00
+        expect(streakAt('Pacific/Pago_Pago', '2026-03-12T20:00:00.000Z')).toBe(0); // 12 March, 09:00
+    });
+
+    it('spends freezes on missed days when there are enough for all of them', () => {
+        const active = days('2026-03-01', '2026-03-02', '2026-03-03');
+        const changes = updateStreak(profile(active, { freezesAvailable: 2 }, 3), new Date('2026-03-06T12:00:00.000Z'));
+        expect(changes.streakState).toMatchObject({ freezesAvailable: 0, frozenDays: ['2026-03-04', '2026-03-05'] });
+        // Frozen days keep the streak going without adding to it.
+        expect(changes.streak).toBeUndefined();
+    });
+
+    it('spends no freezes when there are too few to cover the gap, or freezes are off', () => {
+        const active = days('2026-03-01', '2026-03-02', '2026-03-03');
+        const now = new Date('2026-03-06T12:00:00.000Z');
+        const short = updateStreak(profile(active, { freezesAvailable: 1 }, 3), now);
+        expect(short.streak).toBe(0);
+        expect(short.streakState).toMatchObject({ freezesAvailable: 1, frozenDays: [] });
+
+        const off = updateStreak(profile(active, { freezesAvailable: 2, freezesEnabled: false }, 3), now);
+        expect(off.streak).toBe(0);
+        expect(off.streakState?.frozenDays ?? []).toEqual([]);
+    });
+
+    it('earns a freeze for every week of streak, up to the limit', () => {
+        const week = days('2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-07');
+        const earned = updateStreak(profile(week, {}, 6), new Date('2026-03-07T18:00:00.000Z'));
+        expect(earned).toMatchObject({ streak: 7, streakState: { freezesAvailable: 1 } });
+
+        const capped = updateStreak(profile(week, { freezesAvailable: 2 }, 6), new Date('2026-03-07T18:00:00.000Z'));
+        expect(capped.streakState?.freezesAvailable ?? 2).toBe(2);
+
+        // Recounting the same streak doesn't earn it again.
+        expect(updateStreak(profile(week, { freezesAvailable: 1, longest: 7 }, 7), new Date('2026-03-07T20:00:00.000Z'))).toEqual({});
+    });
+
+    it('sets the device time zone on a profile migration 6 upgraded', () => {
+        const changes = updateStreak(profile([], { timeZonePending: true }), new Date('2026-03-20T12:00:00.000Z'));
+        expect(changes.streakState).toEqual({ timeZone: deviceTimeZone(), longest: 0, freezesEnabled: true, freezesAvailable: 0, frozenDays: [] });
+    });
+
+    it('recounts the longest streak from the log and never lowers it', () => {
+        const active = days('2026-03-01', '2026-03-02', '2026-03-05', '2026-03-06', '2026-03-07', '2026-03-08');
+        expect(updateStreak(profile(active), new Date('2026-03-20T12:00:00.000Z')).streakState?.longest).toBe(4);
+        expect(updateStreak(profile(active, { longest: 9 }), new Date('2026-03-20T12:00:00.000Z')).streakState?.longest).toBeUndefined();
+    });
+});
+
+describe('countStreak', () => {
+    it('joins runs across frozen days without counting them', () => {
+        const active = new Set(['2026-03-01', '2026-03-02', '2026-03-03', '2026-03-05', '2026-03-06']);
+        expect(countStreak(active, new Set(['2026-03-04']), '2026-03-06')).toEqual({ current: 5, longest: 5 });
+        expect(countStreak(active, new Set(), '2026-03-06')).toEqual({ current: 2, longest: 3 });
+    });
+
+    it('keeps the current streak alive until today is over', () => {
+        const active = new Set(['2026-03-04', '2026-03-05']);
+        expect(countStreak(active, new Set(), '2026-03-06').current).toBe(2);
+        expect(countStreak(active, new Set(), '2026-03-07').current).toBe(0);
+    });
+});
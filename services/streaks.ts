@@ -0,0 +1,116 @@
+import type { ActivityEvent, ActivityEventType, StreakState, UserProfile } from '../types';
+
+// The activity that keeps a streak going.
+export const STREAK_ACTIVITY: ActivityEventType[] = [
+    'roadmap_step_completed',
+    'quiz_completed',
+    'interview_completed',
+    'chat_saved',
+    'voice_session_completed',
+];
+
+// A freeze is earned for every week of streak, up to this many at a time.
+export const MAX_STREAK_FREEZES = 2;
+const DAYS_PER_FREEZE = 7;
+
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const defaultStreakState = (): StreakState => ({
+    timeZone: deviceTimeZone(),
+    longest: 0,
+    freezesEnabled: true,
+    freezesAvailable: 0,
+    frozenDays: [],
+});
+
+const dayFormats = new Map<string, Intl.DateTimeFormat>();
+
+// The calendar day an instant falls on in `timeZone`, as YYYY-MM-DD. Unknown time zones fall back to UTC.
+export const activityDay = (instant: Date | string, timeZone: string): string => {
+    let format = dayFormats.get(timeZone);
+    if (!format) {
+        try {
+            format = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+        } catch {
+            console.warn(`Unknown time zone "${timeZone}", counting streak days in UTC.`);
+            format = new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' });
+        }
+        dayFormats.set(timeZone, format);
+    }
+    const parts = Object.fromEntries(format.formatToParts(new Date(instant)).map(part => [part.type, part.value]));
+    return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+// Day arithmetic is done on the date alone, in UTC, so DST changes can't make a day 23 or 25 hours long.
+export const addDays = (day: string, days: number): string => {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+};
+
+export const activityDays = (log: ActivityEvent[], timeZone: string): Set<string> =>
+    new Set(log.filter(event => STREAK_ACTIVITY.includes(event.type)).map(event => activityDay(event.occurredAt, timeZone)));
+
+export interface StreakCount {
+    current: number;
+    longest: number;
+}
+
+// Counts active days in runs of consecutive days, where a frozen day continues a run without adding to it.
+// The current streak is still alive on a day with no activity yet, as long as yesterday kept it going.
+export const countStreak = (active: Set<string>, frozen: Set<string>, today: string): StreakCount => {
+    const kept = (day: string) => active.has(day) || frozen.has(day);
+
+    let longest = 0;
+    for (const day of active) {
+        if (kept(addDays(day, -1))) continue; // Not the start of a run.
+        let run = 0;
+        for (let d = day; kept(d); d = addDays(d, 1)) {
+            if (active.has(d)) run++;
+        }
+        longest = Math.max(longest, run);
+    }
+
+    let current = 0;
+    for (let d = kept(today) ? today : addDays(today, -1); kept(d); d = addDays(d, -1)) {
+        if (active.has(d)) current++;
+    }
+    return { current, longest };
+};
+
+// Brings the profile's streak up to date with its activity log: spends freezes on days missed since the last
+// activity when there are enough to cover all of them, earns new ones, and recounts the current and longest
+// streak. Returns the fields that changed, ready to pass to a profile update; empty when nothing did.
+export const updateStreak = (profile: UserProfile, now = new Date()): Partial<UserProfile> => {
+    const { timeZonePending, ...stored } = profile.streakState;
+    const state: StreakState = timeZonePending ? { ...stored, timeZone: deviceTimeZone() } : profile.streakState;
+    const today = activityDay(now, state.timeZone);
+    const active = activityDays(profile.activityLog, state.timeZone);
+    const frozen = new Set(state.frozenDays);
+    let freezesAvailable = state.freezesAvailable;
+
+    // Every day between the last one that kept the streak going and today was missed. Today still has time.
+    const lastKept = [...active, ...frozen].filter(day => day < today).sort().pop();
+    if (state.freezesEnabled && lastKept) {
+        const missed: string[] = [];
+        for (let d = addDays(lastKept, 1); d < today; d = addDays(d, 1)) missed.push(d);
+        if (missed.length > 0 && missed.length <= freezesAvailable) {
+            missed.forEach(day => frozen.add(day));
+            freezesAvailable -= missed.length;
+        }
+    }
+
+    const { current, longest } = countStreak(active, frozen, today);
+    const earned = Math.floor(current / DAYS_PER_FREEZE) - Math.floor(profile.streak / DAYS_PER_FREEZE);
+    if (earned > 0) freezesAvailable = Math.min(MAX_STREAK_FREEZES, freezesAvailable + earned);
+
+    const streakState: StreakState = {
+        ...state,
+        longest: Math.max(state.longest, longest),
+        freezesAvailable,
+        frozenDays: [...frozen].sort(),
+    };
+    const changes: Partial<UserProfile> = {};
+    if (current !== profile.streak) changes.streak = current;
+    if (JSON.stringify(streakState) !== JSON.stringify(profile.streakState)) changes.streakState = streakState;
+    return changes;
+};
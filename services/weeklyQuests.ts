@@ -0,0 +1,150 @@
+import type { ActivityEvent, Quest, QuestMetric, UserProfile } from '../types';
+import { GAMIFICATION_RULES } from './gamificationRules';
+import { seededId } from './profileMigrations';
+import { activityDay, addDays } from './streaks';
+
+// Past weeks kept for the history; older quests are dropped.
+const HISTORY_WEEKS = 12;
+export const MAX_GOALS_PER_WEEK = 3;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const QUEST_METRICS: Record<QuestMetric, { label: string; unit: string }> = {
+    roadmap_steps: { label: 'Complete roadmap steps', unit: 'roadmap steps' },
+    project_steps: { label: 'Finish project steps', unit: 'project steps' },
+    quizzes: { label: 'Take quizzes', unit: 'quizzes' },
+    interviews: { label: 'Practise interviews', unit: 'interviews' },
+    voice_sessions: { label: 'Talk with the Voice Mentor', unit: 'voice sessions' },
+    chats: { label: 'Save mentor chats', unit: 'chats' },
+    jobs_applied: { label: 'Apply to jobs', unit: 'applications' },
+};
+
+// The Monday of the week a day falls in.
+export const weekStartOf = (day: string): string => {
+    const [year, month, date] = day.split('-').map(Number);
+    const weekday = new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+    return addDays(day, -((weekday + 6) % 7));
+};
+
+export const currentWeek = (profile: UserProfile, now = new Date()): string =>
+    weekStartOf(activityDay(now, profile.streakState.timeZone));
+
+const counts = (quest: Quest, event: ActivityEvent, profile: UserProfile): boolean => {
+    if (quest.entityId && event.entityId !== quest.entityId) return false;
+    switch (quest.metric) {
+        case 'roadmap_steps': return event.type === 'roadmap_step_completed';
+        case 'project_steps': return event.type === 'project_step_completed';
+        case 'interviews': return event.type === 'interview_completed';
+        case 'voice_sessions': return event.type === 'voice_session_completed';
+        case 'chats': return event.type === 'chat_saved';
+        case 'jobs_applied': return event.type === 'job_tracked' || (event.type === 'job_status_changed' && event.data.to === 'Applied');
+        case 'quizzes': {
+            if (event.type !== 'quiz_completed') return false;
+            if (!quest.skill) return true;
+            const skill = quest.skill.toLowerCase();
+            const session = profile.quizHistory.find(s => s.id === event.entityId);
+            return !!session?.topics.some(topic => topic.toLowerCase().includes(skill));
+        }
+    }
+};
+
+// How much of a quest has been done, counted from the activity log for its week.
+export const questProgress = (quest: Quest, profile: UserProfile): number =>
+    profile.activityLog.filter(event =>
+        weekStartOf(activityDay(event.occurredAt, profile.streakState.timeZone)) === quest.weekStart && counts(quest, event, profile)).length;
+
+// This week's quests, picked from what the user has in front of them: the next roadmap step, a skill gap and
+// the job pipeline. Ids are derived from the week so two devices starting the same week agree.
+export const generateWeeklyQuests = (profile: UserProfile, weekStart: string, rules = GAMIFICATION_RULES): Quest[] => {
+    const rewards = rules.xp.quests;
+    const quest = (key: string, fields: Omit<Quest, 'id' | 'weekStart' | 'kind'>): Quest =>
+        ({ id: seededId(`${profile.id}:quest:${weekStart}:${key}`), weekStart, kind: 'quest', ...fields });
+    const quests: Quest[] = [];
+
+    const nextStep = profile.roadmap.find(step => !step.completed);
+    if (nextStep) {
+        quests.push(quest('roadmap', { title: `Complete "${nextStep.title}"`, metric: 'roadmap_steps', target: 1, entityId: nextStep.id, xp: rewards.roadmapStep }));
+    }
+
+    // A different gap each week, so one skill doesn't come up every time.
+    const gaps = profile.skills.filter(skill => skill.isGap);
+    if (gaps.length > 0) {
+        const [year, month, date] = weekStart.split('-').map(Number);
+        const weekNumber = Math.floor(Date.UTC(year, month - 1, date) / WEEK_MS);
+        const gap = gaps[weekNumber % gaps.length];
+        quests.push(quest('skill', { title: `Take a quiz covering ${gap.name}`, metric: 'quizzes', target: 1, skill: gap.name, xp: rewards.skillGap }));
+    }
+
+    const tentative = profile.trackedJobs.filter(job => job.status === 'Tentative').length;
+    const applied = profile.trackedJobs.filter(job => job.status === 'Applied' || job.status === 'Interviewing').length;
+    if (tentative > 0) {
+        const target = Math.min(3, tentative);
+        quests.push(quest('jobs', { title: `Apply to ${target} of your saved jobs`, metric: 'jobs_applied', target, xp: rewards.jobPipeline }));
+    } else if (applied > 0) {
+        quests.push(quest('jobs', { title: 'Practise an interview for the jobs you applied to', metric: 'interviews', target: 1, xp: rewards.jobPipeline }));
+    } else {
+        quests.push(quest('jobs', { title: 'Apply to 3 jobs', metric: 'jobs_applied', target: 3, xp: rewards.jobPipeline }));
+    }
+
+    quests.push(quest('practice', { title: 'Save 2 chats with the mentor', metric: 'chats', target: 2, xp: rewards.practice }));
+    return quests;
+};
+
+export const createGoal = (profile: UserProfile, metric: QuestMetric, target: number, repeat: boolean, now = new Date(), rules = GAMIFICATION_RULES): Quest => ({
+    id: crypto.randomUUID(),
+    weekStart: currentWeek(profile, now),
+    kind: 'goal',
+    title: `${QUEST_METRICS[metric].label}: ${target}`,
+    metric,
+    target,
+    xp: rules.xp.quests.personalGoal,
+    repeat,
+});
+
+// Starts this week's quests (and repeating goals) when the week has none yet, marks quests whose progress has
+// reached their target as completed, and drops weeks older than the history keeps. Returns the fields that
+// changed, ready to pass to a profile update; empty when nothing did.
+export const updateQuests = (profile: UserProfile, now = new Date()): Partial<UserProfile> => {
+    const week = currentWeek(profile, now);
+    let quests = profile.quests;
+
+    if (!quests.some(quest => quest.weekStart === week && quest.kind === 'quest')) {
+        const lastWeek = quests.filter(quest => quest.weekStart < week).map(quest => quest.weekStart).sort().pop();
+        const repeated = quests
+            .filter(quest => quest.kind === 'goal' && quest.repeat && quest.weekStart === lastWeek)
+            .map(({ completedAt: _completedAt, ...goal }) => ({ ...goal, id: seededId(`${goal.id}:${week}`), weekStart: week }));
+        quests = [...quests, ...generateWeeklyQuests(profile, week), ...repeated.filter(goal => !quests.some(quest => quest.id === goal.id))];
+    }
+
+    const oldest = addDays(week, -7 * HISTORY_WEEKS);
+    const completedAt = now.toISOString();
+    quests = quests
+        .filter(quest => quest.weekStart >= oldest)
+        .map(quest => (!quest.completedAt && quest.weekStart === week && questProgress(quest, profile) >= quest.target ? { ...quest, completedAt } : quest));
+
+    const changed = quests.length !== profile.quests.length || quests.some((quest, i) => quest !== profile.quests[i]);
+    return changed ? { quests } : {};
+};
+
+export interface QuestWeek {
+    weekStart: string;
+    completed: number;
+    total: number;
+    xp: number;
+}
+
+// Past weeks, newest first, with how many of their quests and goals were completed.
+export const questHistory = (profile: UserProfile, now = new Date()): QuestWeek[] => {
+    const week = currentWeek(profile, now);
+    const weeks = new Map<string, QuestWeek>();
+    for (const quest of profile.quests) {
+        if (quest.weekStart >= week) continue;
+        const entry = weeks.get(quest.weekStart) || { weekStart: quest.weekStart, completed: 0, total: 0, xp: 0 };
+        entry.total++;
+        if (quest.completedAt) {
+            entry.completed++;
+            entry.xp += quest.xp;
+        }
+        weeks.set(quest.weekStart, entry);
+    }
+    return [...weeks.values()].sort((a, b) => b.weekStart.localeCompare(a.weekStart));
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { RoadmapStep, UserProfile } from '../types';
+import { testProfile, testStep as step } from './profileFixtures';
+import { mergeProfiles } from './profileMerge';
+import { settleXp, xpTransactionsForProfile } from './xpLedger';
+
+const profile = (roadmap: RoadmapStep[]): UserProfile => testProfile({ roadmap });
+
+// Settles `next`'s roadmap against the ledger `previous` ended up with.
+const settle = (previous: UserProfile, roadmap: RoadmapStep[]): UserProfile => {
+    const next = { ...previous, roadmap };
+    return { ...next, ...settleXp(next) };
+};
+
+describe('xpTransactionsForProfile', () => {
+    it('gives the same ids to the same settlement on every device', () => {
+        const completed = profile([step('a', true), step('b', true)]);
+        const here = xpTransactionsForProfile(completed);
+        const there = xpTransactionsForProfile(structuredClone(completed));
+        expect(here.map(t => t.id)).toEqual(there.map(t => t.id));
+        expect(new Set(here.map(t => t.id)).size).toBe(2);
+    });
+
+    it('gives each completion and reopening of a step its own id', () => {
+        const completed = settle(profile([step('a', false)]), [step('a', true)]);
+        const reopened = settle(completed, [step('a', false)]);
+        const again = settle(reopened, [step('a', true)]);
+        expect(again.xpLedger.map(t => t.amount)).toEqual([150, -150, 150]);
+        expect(new Set(again.xpLedger.map(t => t.id)).size).toBe(3);
+        expect(again.xp).toBe(150);
+    });
+
+    it('counts a step completed on two devices once when their ledgers are merged', () => {
+        const base = profile([step('a', false), step('b', false)]);
+        const here = settle(base, [step('a', true), step('b', false)]);
+        const there = settle(base, [step('a', true), step('b', true)]);
+        const { merged, conflicts } = mergeProfiles(base, { xpLedger: here.xpLedger }, there);
+        expect(conflicts).toEqual([]);
+        expect(merged.xpLedger!.map(t => t.sourceId)).toEqual(['a', 'b']);
+    });
+});
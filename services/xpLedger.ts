@@ -0,0 +1,103 @@
+import type { UserProfile, XpSource, XpTransaction } from '../types';
+import { GAMIFICATION_RULES, levelForXp, projectXp, quizXp } from './gamificationRules';
+import { seededId } from './profileMigrations';
+
+export const xpTotal = (ledger: XpTransaction[]): number =>
+    Math.max(0, ledger.reduce((sum, transaction) => sum + transaction.amount, 0));
+
+// Transactions settled from the profile pass an id derived from it (see xpTransactionsForProfile); others get a
+// random one.
+export const createXpTransaction = (amount: number, source: XpSource, description: string, sourceId?: string, id: string = crypto.randomUUID()): XpTransaction => ({
+    id,
+    occurredAt: new Date().toISOString(),
+    amount,
+    source,
+    sourceId,
+    description,
+});
+
+// The transactions that bring the ledger in line with the profile, with rewards from the gamification rules.
+// Each roadmap step and project is settled against what the ledger already holds for it, so completing
+// something earns its XP once, undoing the completion takes it back, and toggling back and forth can never
+// add up to more. XP already held for a completed item is kept as it is, even if the rules have changed since,
+// and so is XP for steps and projects that have been removed (e.g. by a new roadmap). Practice sessions and
+// completed quests earn XP once each, so deleting a session or an old week's quests doesn't take it back.
+//
+// A transaction's id comes from its source and how many transactions the ledger already holds for that source,
+// so two devices settling the same change write the same row and it is only counted once.
+export const xpTransactionsForProfile = (profile: UserProfile, rules = GAMIFICATION_RULES): XpTransaction[] => {
+    const held = new Map<string, number>();
+    const heldCount = new Map<string, number>();
+    for (const transaction of profile.xpLedger) {
+        if (!transaction.sourceId) continue;
+        held.set(transaction.sourceId, (held.get(transaction.sourceId) || 0) + transaction.amount);
+        heldCount.set(transaction.sourceId, (heldCount.get(transaction.sourceId) || 0) + 1);
+    }
+    const transactions: XpTransaction[] = [];
+    const entry = (amount: number, source: XpSource, description: string, sourceId: string) => {
+        const count = heldCount.get(sourceId) || 0;
+        held.set(sourceId, (held.get(sourceId) || 0) + amount);
+        heldCount.set(sourceId, count + 1);
+        return createXpTransaction(amount, source, description, sourceId, seededId(`${profile.id}:xp:${sourceId}:${count}`));
+    };
+
+    const settle = (source: XpSource, sourceId: string, completed: boolean, reward: number, what: string) => {
+        const have = held.get(sourceId) || 0;
+        if (completed && have <= 0) {
+            transactions.push(entry(reward - have, source, `Completed ${what}`, sourceId));
+        } else if (!completed && have !== 0) {
+            transactions.push(entry(-have, source, `Reopened ${what}`, sourceId));
+        }
+    };
+    profile.roadmap.forEach(step =>
+        settle('roadmap_step', step.id, step.completed, rules.xp.roadmapStep, `roadmap step "${step.title}"`));
+    profile.projects.forEach(project =>
+        settle('project', project.id, project.status === 'Completed', projectXp(project, rules), `project "${project.title}"`));
+
+    for (const quest of profile.quests) {
+        if (quest.completedAt && quest.xp > 0 && !held.has(quest.id)) {
+            transactions.push(entry(quest.xp, 'quest', `${quest.kind === 'goal' ? 'Reached the goal' : 'Finished the weekly quest'} "${quest.title}"`, quest.id));
+        }
+    }
+
+    for (const event of profile.activityLog) {
+        if (!event.entityId || held.has(event.entityId)) continue;
+        if (event.type === 'quiz_completed') {
+            transactions.push(entry(quizXp(event.data.score, rules), 'quiz', `Scored ${event.data.score}% on a quiz`, event.entityId));
+        } else if (event.type === 'interview_completed') {
+            transactions.push(entry(rules.xp.interviewCompleted, 'interview', `Practised an interview for ${event.data.targetRole}`, event.entityId));
+        } else if (event.type === 'voice_session_completed') {
+            transactions.push(entry(rules.xp.voiceSession, 'voice_session', 'Talked with the Voice Mentor', event.entityId));
+        }
+    }
+    return transactions;
+};
+
+// Settles the ledger and derives xp and level from it. Returns the fields that changed, ready to pass to a
+// profile update; empty when nothing did.
+export const settleXp = (profile: UserProfile): Partial<UserProfile> => {
+    const transactions = xpTransactionsForProfile(profile);
+    const xpLedger = transactions.length > 0 ? [...profile.xpLedger, ...transactions] : profile.xpLedger;
+    const xp = xpTotal(xpLedger);
+    const changes: Partial<UserProfile> = {};
+    if (transactions.length > 0) changes.xpLedger = xpLedger;
+    if (xp !== profile.xp) changes.xp = xp;
+    if (levelForXp(xp) !== profile.level) changes.level = levelForXp(xp);
+    return changes;
+};
+
+export interface XpPoint {
+    date: string;
+    xp: number;
+}
+
+// Total XP at the end of each of the last `points` weeks, oldest first, for charts.
+export const xpOverTime = (ledger: XpTransaction[], points: number, now = new Date()): XpPoint[] => {
+    const sorted = [...ledger].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+    const result: XpPoint[] = [];
+    for (let i = points - 1; i >= 0; i--) {
+        const at = new Date(now.getTime() - i * 7 * 24 * 60 * 60 * 1000).toISOString();
+        result.push({ date: at, xp: xpTotal(sorted.filter(transaction => transaction.occurredAt <= at)) });
+    }
+    return result;
+};
@@ -0,0 +1,30 @@
+-- Baseline: the single profiles row the app has always used. Column names match the UserProfile fields.
+create table if not exists public.profiles (
+    id uuid primary key references auth.users (id) on delete cascade,
+    "name" text not null,
+    "age" integer not null,
+    "profession" text not null,
+    "educationLevel" text not null,
+    "targetRole" text not null,
+    "xp" integer not null default 0,
+    "level" integer not null default 1,
+    "streak" integer not null default 0,
+    "skills" jsonb not null default '[]',
+    "roadmap" jsonb not null default '[]',
+    "projects" jsonb not null default '[]',
+    "achievements" jsonb not null default '[]',
+    "trends" jsonb not null default '[]',
+    "trackedJobs" jsonb default '[]',
+    "githubUrl" text,
+    "linkedinUrl" text,
+    "interviewHistory" jsonb not null default '[]',
+    "voiceMentorHistory" jsonb not null default '[]',
+    "quizHistory" jsonb not null default '[]',
+    "smartChatHistory" jsonb not null default '[]'
+);
+
+alter table public.profiles enable row level security;
+
+drop policy if exists "Users manage their own profile" on public.profiles;
+create policy "Users manage their own profile" on public.profiles
+    for all using (auth.uid() = id) with check (auth.uid() = id);
@@ -0,0 +1,214 @@
+-- Moves the list fields of profiles into one table per list, so the client can write single items instead of
+-- rewriting the whole profile. Every table is keyed by (user_id, item_key); item_key is the item's position in
+-- the old list, until list items get ids of their own. Nested values that are only ever read whole stay jsonb.
+
+create table public.profile_skills (
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    item_key text not null,
+    position integer not null,
+    name text not null,
+    proficiency text not null check (proficiency in ('Beginner', 'Intermediate', 'Advanced', 'Expert')),
+    category text[] not null default '{}',
+    is_gap boolean not null default false,
+    generated_by jsonb,
+    primary key (user_id, item_key)
+);
+
+create table public.roadmap_steps (
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    item_key text not null,
+    position integer not null,
+    title text not null,
+    duration text not null,
+    skills_to_learn text[] not null default '{}',
+    suggested_resources jsonb not null default '[]',
+    milestone_project text not null,
+    completed boolean not null default false,
+    generated_by jsonb,
+    primary key (user_id, item_key)
+);
+
+create table public.user_projects (
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    item_key text not null,
+    position integer not null,
+    title text not null,
+    description text not null,
+    required_skills text[] not null default '{}',
+    difficulty text not null check (difficulty in ('Easy', 'Medium', 'Hard')),
+    xp integer not null default 0,
+    status text not null check (status in ('Not Started', 'In Progress', 'Completed')),
+    notes text,
+    project_url text,
+    project_plan jsonb,
+    generated_by jsonb,
+    primary key (user_id, item_key)
+);
+
+create table public.tracked_jobs (
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    item_key text not null,
+    position integer not null,
+    title text not null,
+    company text not null,
+    location text not null,
+    url text not null,
+    description text not null,
+    source jsonb,
+    verified boolean,
+    status text not null check (status in ('Applied', 'Interviewing', 'Offered', 'Rejected', 'Tentative')),
+    primary key (user_id, item_key)
+);
+
+create table public.interview_sessions (
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    item_key text not null,
+    occurred_at timestamptz not null,
+    target_role text not null,
+    transcript jsonb not null default '[]',
+    feedback_summary text not null,
+    prompts jsonb,
+    primary key (user_id, item_key)
+);
+
+create table public.voice_sessions (
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    item_key text not null,
+    occurred_at timestamptz not null,
+    transcript jsonb not null default '[]',
+    key_takeaways text not null,
+    prompts jsonb,
+    primary key (user_id, item_key)
+);
+
+create table public.quiz_sessions (
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    item_key text not null,
+    occurred_at timestamptz not null,
+    target_role text not null,
+    topics text[] not null default '{}',
+    questions jsonb not null default '[]',
+    score numeric not null,
+    primary key (user_id, item_key)
+);
+
+create table public.chat_sessions (
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    item_key text not null,
+    occurred_at timestamptz not null,
+    mode text not null,
+    messages jsonb not null default '[]',
+    prompts jsonb,
+    primary key (user_id, item_key)
+);
+
+create index interview_sessions_occurred_at on public.interview_sessions (user_id, occurred_at);
+create index voice_sessions_occurred_at on public.voice_sessions (user_id, occurred_at);
+create index quiz_sessions_occurred_at on public.quiz_sessions (user_id, occurred_at);
+create index chat_sessions_occurred_at on public.chat_sessions (user_id, occurred_at);
+
+-- Each user can only see and change their own rows.
+do $$
+declare
+    list_table text;
+begin
+    foreach list_table in array array[
+        'profile_skills', 'roadmap_steps', 'user_projects', 'tracked_jobs',
+        'interview_sessions', 'voice_sessions', 'quiz_sessions', 'chat_sessions'
+    ] loop
+        execute format('alter table public.%I enable row level security', list_table);
+        execute format(
+            'create policy "Users manage their own rows" on public.%I for all using (auth.uid() = user_id) with check (auth.uid() = user_id)',
+            list_table
+        );
+    end loop;
+end $$;
+
+-- Copy the existing lists out of profiles. Items are keyed by their position in the list, so items that share a
+-- name, title, url or date are all kept. Missing required text is stored as empty text and missing dates as
+-- the time of the migration, so no item stops the copy.
+insert into public.profile_skills (user_id, item_key, position, name, proficiency, category, is_gap, generated_by)
+select p.id, ord::text, ord - 1, coalesce(item->>'name', ''),
+    case when item->>'proficiency' in ('Beginner', 'Intermediate', 'Advanced', 'Expert') then item->>'proficiency' else 'Beginner' end,
+    -- Older rows stored a single category string.
+    case jsonb_typeof(item->'category')
+        when 'array' then array(select jsonb_array_elements_text(item->'category'))
+        when 'string' then array[item->>'category']
+        else '{}'
+    end,
+    coalesce((item->>'isGap')::boolean, false), item->'generatedBy'
+from public.profiles p, jsonb_array_elements(coalesce(p."skills", '[]')) with ordinality as s(item, ord);
+
+insert into public.roadmap_steps (user_id, item_key, position, title, duration, skills_to_learn, suggested_resources, milestone_project, completed, generated_by)
+select p.id, ord::text, ord - 1, coalesce(item->>'title', ''), coalesce(item->>'duration', ''),
+    array(select jsonb_array_elements_text(coalesce(item->'skillsToLearn', '[]'))),
+    coalesce(item->'suggestedResources', '[]'), coalesce(item->>'milestoneProject', ''),
+    coalesce((item->>'completed')::boolean, false), item->'generatedBy'
+from public.profiles p, jsonb_array_elements(coalesce(p."roadmap", '[]')) with ordinality as s(item, ord);
+
+insert into public.user_projects (user_id, item_key, position, title, description, required_skills, difficulty, xp, status, notes, project_url, project_plan, generated_by)
+select p.id, ord::text, ord - 1, coalesce(item->>'title', ''), coalesce(item->>'description', ''),
+    array(select jsonb_array_elements_text(coalesce(item->'requiredSkills', '[]'))),
+    case when item->>'difficulty' in ('Easy', 'Medium', 'Hard') then item->>'difficulty' else 'Medium' end,
+    coalesce((item->>'xp')::integer, 0),
+    case when item->>'status' in ('Not Started', 'In Progress', 'Completed') then item->>'status' else 'Not Started' end,
+    item->>'notes', item->>'projectUrl', item->'projectPlan', item->'generatedBy'
+from public.profiles p, jsonb_array_elements(coalesce(p."projects", '[]')) with ordinality as s(item, ord);
+
+insert into public.tracked_jobs (user_id, item_key, position, title, company, location, url, description, source, verified, status)
+select p.id, ord::text, ord - 1, coalesce(item->>'title', ''), coalesce(item->>'company', ''), coalesce(item->>'location', ''),
+    coalesce(item->>'url', ''), coalesce(item->>'description', ''), item->'source', (item->>'verified')::boolean,
+    case when item->>'status' in ('Applied', 'Interviewing', 'Offered', 'Rejected', 'Tentative') then item->>'status' else 'Applied' end
+from public.profiles p, jsonb_array_elements(coalesce(p."trackedJobs", '[]')) with ordinality as s(item, ord);
+
+insert into public.interview_sessions (user_id, item_key, occurred_at, target_role, transcript, feedback_summary, prompts)
+select p.id, ord::text, coalesce((item->>'date')::timestamptz, now()), coalesce(item->>'targetRole', ''),
+    coalesce(item->'transcript', '[]'), coalesce(item->>'feedbackSummary', ''), item->'prompts'
+from public.profiles p, jsonb_array_elements(coalesce(p."interviewHistory", '[]')) with ordinality as s(item, ord);
+
+insert into public.voice_sessions (user_id, item_key, occurred_at, transcript, key_takeaways, prompts)
+select p.id, ord::text, coalesce((item->>'date')::timestamptz, now()),
+    coalesce(item->'transcript', '[]'), coalesce(item->>'keyTakeaways', ''), item->'prompts'
+from public.profiles p, jsonb_array_elements(coalesce(p."voiceMentorHistory", '[]')) with ordinality as s(item, ord);
+
+insert into public.quiz_sessions (user_id, item_key, occurred_at, target_role, topics, questions, score)
+select p.id, ord::text, coalesce((item->>'date')::timestamptz, now()), coalesce(item->>'targetRole', ''),
+    array(select jsonb_array_elements_text(coalesce(item->'topics', '[]'))),
+    coalesce(item->'questions', '[]'), coalesce((item->>'score')::numeric, 0)
+from public.profiles p, jsonb_array_elements(coalesce(p."quizHistory", '[]')) with ordinality as s(item, ord);
+
+insert into public.chat_sessions (user_id, item_key, occurred_at, mode, messages, prompts)
+select p.id, ord::text, coalesce((item->>'date')::timestamptz, now()), coalesce(item->>'mode', ''),
+    coalesce(item->'messages', '[]'), item->'prompts'
+from public.profiles p, jsonb_array_elements(coalesce(p."smartChatHistory", '[]')) with ordinality as s(item, ord);
+
+-- The old columns are only dropped once every item has a row. Anything else stops the migration, which leaves
+-- the profiles as they were.
+do $$
+declare
+    list record;
+    expected bigint;
+    copied bigint;
+begin
+    for list in select * from (values
+        ('skills', 'profile_skills'), ('roadmap', 'roadmap_steps'), ('projects', 'user_projects'), ('trackedJobs', 'tracked_jobs'),
+        ('interviewHistory', 'interview_sessions'), ('voiceMentorHistory', 'voice_sessions'), ('quizHistory', 'quiz_sessions'),
+        ('smartChatHistory', 'chat_sessions')
+    ) as l(field, list_table) loop
+        execute format('select coalesce(sum(jsonb_array_length(coalesce(%I, ''[]''))), 0) from public.profiles', list.field) into expected;
+        execute format('select count(*) from public.%I', list.list_table) into copied;
+        if copied <> expected then
+            raise exception 'Copied % of % items from profiles.% into %', copied, expected, list.field, list.list_table;
+        end if;
+    end loop;
+end $$;
+
+alter table public.profiles
+    drop column "skills",
+    drop column "roadmap",
+    drop column "projects",
+    drop column "trackedJobs",
+    drop column "interviewHistory",
+    drop column "voiceMentorHistory",
+    drop column "quizHistory",
+    drop column "smartChatHistory";
@@ -0,0 +1,3 @@
+-- The profile migration a row has been upgraded to. Existing rows start at 0 and are upgraded by the client
+-- the next time they are loaded (see services/profileMigrations.ts).
+alter table public.profiles add column "schemaVersion" integer not null default 0;
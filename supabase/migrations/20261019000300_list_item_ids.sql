@@ -0,0 +1,17 @@
+-- Items are identified by a generated id instead of their title, url, date or position. Existing rows get a
+-- fresh id, which the client picks up the next time it loads the profile.
+do $$
+declare
+    list_table text;
+begin
+    foreach list_table in array array[
+        'profile_skills', 'roadmap_steps', 'user_projects', 'tracked_jobs',
+        'interview_sessions', 'voice_sessions', 'quiz_sessions', 'chat_sessions'
+    ] loop
+        execute format('alter table public.%I add column id uuid not null default gen_random_uuid()', list_table);
+        execute format('alter table public.%I drop constraint %I', list_table, list_table || '_pkey');
+        execute format('alter table public.%I drop column item_key', list_table);
+        execute format('alter table public.%I add primary key (id)', list_table);
+        execute format('create index %I on public.%I (user_id)', list_table || '_user_id', list_table);
+    end loop;
+end $$;
@@ -0,0 +1,3 @@
+-- Bumped by every save. Clients only write when the revision is still the one they loaded, so a device
+-- working from a stale copy can't overwrite changes saved elsewhere (see services/profileStore.ts).
+alter table public.profiles add column revision bigint not null default 0;
@@ -0,0 +1,12 @@
+-- Lets open tabs pick up saves from the user's other devices (see watchRemoteChanges in services/profileSync.ts).
+-- Row-level security still decides which changes each subscriber receives.
+alter publication supabase_realtime add table
+    public.profiles,
+    public.profile_skills,
+    public.roadmap_steps,
+    public.user_projects,
+    public.tracked_jobs,
+    public.interview_sessions,
+    public.voice_sessions,
+    public.quiz_sessions,
+    public.chat_sessions;
@@ -0,0 +1,21 @@
+-- How long each session history is kept. Filled in by profile migration 4 the next time a profile loads.
+alter table public.profiles add column "historyRetention" jsonb;
+
+-- Deletes the calling user's account. The profile and every list row go with it through the on delete cascade
+-- foreign keys. Runs as the owner because users can't delete from auth.users themselves.
+create or replace function public.delete_account()
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in';
+    end if;
+    delete from auth.users where id = auth.uid();
+end;
+$$;
+
+revoke all on function public.delete_account() from public, anon;
+grant execute on function public.delete_account() to authenticated;
@@ -0,0 +1,22 @@
+-- Append-only log of what the user did and when (see services/activityLog.ts). Users can add and read their own
+-- events but there are no update or delete policies, so recorded events can't be changed. Rows are removed
+-- with the profile when the account is deleted.
+create table public.activity_events (
+    id uuid primary key,
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    type text not null,
+    occurred_at timestamptz not null,
+    entity_id text,
+    data jsonb not null default '{}'
+);
+
+create index activity_events_user_id on public.activity_events (user_id, occurred_at);
+
+alter table public.activity_events enable row level security;
+
+create policy "Users read their own activity" on public.activity_events
+    for select using (auth.uid() = user_id);
+create policy "Users add to their own activity" on public.activity_events
+    for insert with check (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.activity_events;
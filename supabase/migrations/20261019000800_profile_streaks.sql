@@ -0,0 +1,3 @@
+-- Streak time zone, longest streak and freezes (see services/streaks.ts). Filled in by profile migration 6 the
+-- next time a profile loads.
+alter table public.profiles add column "streakState" jsonb;
@@ -0,0 +1,22 @@
+-- Append-only XP ledger (see services/xpLedger.ts). The profile's xp and level are derived from it. Like the
+-- activity log there are no update or delete policies, so XP can only change through a new transaction.
+create table public.xp_transactions (
+    id uuid primary key,
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    occurred_at timestamptz not null,
+    amount integer not null,
+    source text not null,
+    source_id text,
+    description text not null
+);
+
+create index xp_transactions_user_id on public.xp_transactions (user_id, occurred_at);
+
+alter table public.xp_transactions enable row level security;
+
+create policy "Users read their own XP" on public.xp_transactions
+    for select using (auth.uid() = user_id);
+create policy "Users add to their own XP" on public.xp_transactions
+    for insert with check (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.xp_transactions;
@@ -0,0 +1,25 @@
+-- Weekly quests and personal goals (see services/weeklyQuests.ts). Only the last few weeks are kept.
+create table public.weekly_quests (
+    id uuid primary key,
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    position integer not null,
+    week_start date not null,
+    kind text not null,
+    title text not null,
+    metric text not null,
+    target integer not null,
+    entity_id text,
+    skill text,
+    xp integer not null default 0,
+    repeat boolean not null default false,
+    completed_at timestamptz
+);
+
+create index weekly_quests_user_id on public.weekly_quests (user_id, position);
+
+alter table public.weekly_quests enable row level security;
+
+create policy "Users manage their own rows" on public.weekly_quests
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.weekly_quests;
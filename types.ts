@@ -1,3 +1,9 @@
+// Identifies the prompt template version that produced an AI-generated artifact.
+export interface PromptRef {
+  template: string;
+  version: string;
+}
+
 export interface Skill {
   name: string;
   proficiency: 'Beginner' | 'Intermediate' | 'Advanced' | 'Expert';
@@ -5,10 +11,13 @@ export interface Skill {
 }
 
 export interface SkillGap extends Skill {
+  id: string;
   isGap: boolean;
+  generatedBy?: PromptRef;
 }
 
 export interface RoadmapStep {
+  id: string;
   title: string;
   duration: string; // e.g., "Weeks 1-2"
   skillsToLearn: string[];
@@ -19,20 +28,25 @@ export interface RoadmapStep {
   }[];
   milestoneProject: string;
   completed: boolean;
+  generatedBy?: PromptRef;
 }
 
 export interface ProjectSuggestion {
+  id: string;
   title: string;
   description: string;
   requiredSkills: string[];
   difficulty: 'Easy' | 'Medium' | 'Hard';
   xp: number;
+  generatedBy?: PromptRef;
 }
 
 export interface ProjectStep {
+  id: string;
   title: string;
   description: string;
   completed: boolean;
+  generatedBy?: PromptRef;
 }
 
 export interface UserProject extends ProjectSuggestion {
@@ -42,12 +56,16 @@ export interface UserProject extends ProjectSuggestion {
   projectPlan?: ProjectStep[];
 }
 
+// How far along a freshly generated roadmap or project list is while it streams into the profile.
+export type GenerationStatus = 'idle' | 'streaming' | 'interrupted';
+
 export type TrendType = 'Current' | 'Future';
 
 export interface Trend {
   title: string;
   summary: string;
   type: TrendType;
+  generatedBy?: PromptRef;
 }
 
 export interface ChatMessage {
@@ -57,17 +75,21 @@ export interface ChatMessage {
 }
 
 export interface ChatSession {
+    id: string;
     date: string;
     mode: string;
     messages: ChatMessage[];
+    prompts?: PromptRef[];
 }
 
 
 export interface InterviewSession {
+    id: string;
     date: string;
     targetRole: string;
     transcript: ChatMessage[];
     feedbackSummary: string;
+    prompts?: PromptRef[];
 }
 
 export interface QuizQuestion {
@@ -76,9 +98,11 @@ export interface QuizQuestion {
   options: string[];
   answer: string;
   explanation: string;
+  generatedBy?: PromptRef;
 }
 
 export interface QuizSession {
+    id: string;
     date: string;
     targetRole: string;
     topics: string[];
@@ -88,55 +112,177 @@ export interface QuizSession {
 
 
 export interface VoiceSession {
+    id: string;
     date: string;
     transcript: { speaker: 'user' | 'model'; text: string }[];
     keyTakeaways: string;
+    prompts?: PromptRef[];
 }
 
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
 export interface Achievement {
-  id: string; // Unique identifier for the achievement
+  id: string; // Unique identifier for the achievement; tiered achievements have one per tier, e.g. "QUIZ_TAKER:silver"
   name: string;
   description: string;
   icon: string; // emoji
+  tier?: AchievementTier;
+  // Missing on achievements unlocked before unlock times were recorded.
+  unlockedAt?: string;
 }
 
 export type TrackedJobStatus = 'Applied' | 'Interviewing' | 'Offered' | 'Rejected' | 'Tentative';
 
+// The search result a grounded item was extracted from.
+export interface Citation {
+    title: string;
+    url: string;
+}
+
 export interface JobPosting {
     title: string;
     company: string;
     location: string;
     url: string;
     description: string;
+    source?: Citation;
+    // False when the item couldn't be matched to a search result, so its details may be made up.
+    verified?: boolean;
 }
 
 export interface TrackedJob extends JobPosting {
+    id: string;
     status: TrackedJobStatus;
 }
 
 
+// What each kind of activity event records, besides when it happened and which item it was about.
+export interface ActivityEventData {
+  profile_created: { targetRole: string };
+  profile_imported: { mode: 'merge' | 'replace' };
+  target_role_changed: { from: string; to: string };
+  skill_added: { name: string; proficiency: Skill['proficiency'] };
+  skill_level_changed: { name: string; from: Skill['proficiency']; to: Skill['proficiency'] };
+  roadmap_step_completed: { title: string };
+  roadmap_step_reopened: { title: string };
+  project_status_changed: { title: string; from: UserProject['status']; to: UserProject['status'] };
+  project_step_completed: { project: string; title: string };
+  job_tracked: { title: string; company: string };
+  job_status_changed: { title: string; company: string; from: TrackedJobStatus; to: TrackedJobStatus };
+  interview_completed: { targetRole: string };
+  quiz_completed: { targetRole: string; score: number };
+  voice_session_completed: Record<string, never>;
+  chat_saved: { mode: string };
+  achievement_unlocked: { name: string; icon: string };
+  quest_completed: { title: string; kind: Quest['kind'] };
+}
+
+export type ActivityEventType = keyof ActivityEventData;
+
+// One entry in the append-only activity log. Events are never edited or removed once recorded.
+export type ActivityEvent = {
+  [K in ActivityEventType]: {
+    id: string;
+    type: K;
+    occurredAt: string;
+    // The roadmap step, project, job, session or achievement the event is about.
+    entityId?: string;
+    data: ActivityEventData[K];
+  };
+}[ActivityEventType];
+
+// What a weekly quest or goal counts.
+export type QuestMetric = 'roadmap_steps' | 'project_steps' | 'quizzes' | 'interviews' | 'voice_sessions' | 'chats' | 'jobs_applied';
+
+// A quest the app sets for one week, or a goal the user sets themselves. Progress is counted from the
+// activity log (see services/weeklyQuests.ts).
+export interface Quest {
+  id: string;
+  // Monday of the week, as YYYY-MM-DD in the streak time zone.
+  weekStart: string;
+  kind: 'quest' | 'goal';
+  title: string;
+  metric: QuestMetric;
+  target: number;
+  // Only activity about this roadmap step counts.
+  entityId?: string;
+  // Only quizzes covering this skill count.
+  skill?: string;
+  xp: number;
+  // Goals set again for the next week.
+  repeat?: boolean;
+  completedAt?: string;
+}
+
+// What an XP transaction was for. `carried_over` holds XP earned before the ledger existed and `import`
+// balances the ledger when an imported profile replaces this one.
+export type XpSource = 'roadmap_step' | 'project' | 'quiz' | 'interview' | 'voice_session' | 'quest' | 'carried_over' | 'import';
+
+// One entry in the append-only XP ledger. `xp` and `level` on the profile are derived from the ledger.
+export interface XpTransaction {
+  id: string;
+  occurredAt: string;
+  // Negative when XP is taken back, e.g. a completed roadmap step is reopened.
+  amount: number;
+  source: XpSource;
+  // The roadmap step, project, practice session or quest the XP is for.
+  sourceId?: string;
+  description: string;
+}
+
+// The session histories a retention policy applies to.
+export type HistoryList = 'interviewHistory' | 'voiceMentorHistory' | 'quizHistory' | 'smartChatHistory';
+
+// How much of a session history to keep. null means no limit.
+export interface HistoryRetention {
+  maxSessions: number | null;
+  maxAgeDays: number | null;
+}
+
+// Streak bookkeeping. Days are calendar days in `timeZone`, written as YYYY-MM-DD.
+export interface StreakState {
+  // IANA time zone name, e.g. "Europe/Berlin".
+  timeZone: string;
+  // Set by profile migration 6, which can't know the device's time zone; the next streak update sets it.
+  timeZonePending?: boolean;
+  longest: number;
+  freezesEnabled: boolean;
+  freezesAvailable: number;
+  // Missed days a freeze was spent on. They keep the streak going without adding to it.
+  frozenDays: string[];
+}
+
 export interface UserProfile {
   id?: string;
+  // Which profile migration the stored data has been upgraded to (see services/profileMigrations.ts).
+  schemaVersion: number;
   name: string;
   age: number;
   profession: string;
   educationLevel: string;
   targetRole: string;
+  // Derived from xpLedger by services/xpLedger.ts; never set directly.
   xp: number;
   level: number;
+  xpLedger: XpTransaction[];
+  // The current streak in days, kept up to date by services/streaks.ts.
   streak: number;
+  streakState: StreakState;
   skills: SkillGap[];
   roadmap: RoadmapStep[];
   projects: UserProject[];
   achievements: Achievement[];
   trends: Trend[];
-  trackedJobs?: TrackedJob[];
+  trackedJobs: TrackedJob[];
   githubUrl?: string;
   linkedinUrl?: string;
   interviewHistory: InterviewSession[];
   voiceMentorHistory: VoiceSession[];
   quizHistory: QuizSession[];
   smartChatHistory: ChatSession[];
+  historyRetention: Record<HistoryList, HistoryRetention>;
+  activityLog: ActivityEvent[];
+  quests: Quest[];
 }
 
 export interface ResumeFeedback {
@@ -149,6 +295,7 @@ export interface ResumeFeedback {
     }[];
     finalSummary: string;
     suggestedBullets: string[];
+    generatedBy?: PromptRef;
 }
 
 export interface Course {
@@ -157,4 +304,6 @@ export interface Course {
     url: string;
     type: 'Online' | 'Local';
     rating?: number;
+    source?: Citation;
+    verified?: boolean;
 }
\ No newline at end of file
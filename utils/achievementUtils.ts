@@ -1,89 +1,192 @@
-import type { UserProfile, Achievement } from '../types';
+import type { UserProfile, Achievement, AchievementTier, ActivityEvent, ActivityEventType } from '../types';
+import { STREAK_ACTIVITY, activityDays, addDays } from '../services/streaks';
 
-export const ALL_ACHIEVEMENTS: Achievement[] = [
+// An achievement defined as data. `measure` reads a number off the profile and its activity log, and each
+// tier unlocks once that number reaches its goal. Single-level achievements have one tier without a name.
+export interface AchievementDefinition {
+    id: string;
+    name: string;
+    icon: string;
+    // Hidden achievements show up only once unlocked.
+    hidden?: boolean;
+    measure: (user: UserProfile) => number;
+    tiers: { tier?: AchievementTier; goal: number; description: string }[];
+    // How progress is written, e.g. "3/5 advanced skills".
+    unit: string;
+}
+
+const count = (user: UserProfile, type: ActivityEventType, where: (event: ActivityEvent) => boolean = () => true) =>
+    user.activityLog.filter(event => event.type === type && where(event)).length;
+
+const completedProjects = (user: UserProfile) => user.projects.filter(p => p.status === 'Completed');
+
+const roadmapPercent = (user: UserProfile) =>
+    user.roadmap.length > 0 ? Math.floor((user.roadmap.filter(r => r.completed).length / user.roadmap.length) * 100) : 0;
+
+// Jobs that have reached a status, now or at any point in the log.
+const jobsReaching = (user: UserProfile, statuses: string[]) => {
+    const ids = new Set(user.trackedJobs.filter(job => statuses.includes(job.status)).map(job => job.id));
+    user.activityLog.forEach(event => {
+        if (event.type === 'job_status_changed' && statuses.includes(event.data.to) && event.entityId) ids.add(event.entityId);
+    });
+    return ids.size;
+};
+
+const hourIn = (instant: string, timeZone: string) => {
+    try {
+        return Number(new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' }).format(new Date(instant)));
+    } catch {
+        return new Date(instant).getUTCHours();
+    }
+};
+
+// The longest break between two days with streak activity, in days.
+const longestBreak = (user: UserProfile) => {
+    const days = [...activityDays(user.activityLog, user.streakState.timeZone)].sort();
+    let longest = 0;
+    for (let i = 1; i < days.length; i++) {
+        let gap = 0;
+        for (let d = addDays(days[i - 1], 1); d < days[i]; d = addDays(d, 1)) gap++;
+        longest = Math.max(longest, gap);
+    }
+    return longest;
+};
+
+const tiers = (goals: [number, number, number], describe: (goal: number) => string) =>
+    (['bronze', 'silver', 'gold'] as const).map((tier, i) => ({ tier, goal: goals[i], description: describe(goals[i]) }));
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
     // Project Achievements
-    { id: 'PROJECT_STARTER', name: 'Project Starter', icon: '🚀', description: 'Began your first project.' },
-    { id: 'PROJECT_FINISHER', name: 'Project Finisher', icon: '✅', description: 'Completed your first project.' },
-    { id: 'TRIPLE_THREAT', name: 'Triple Threat', icon: '🎯', description: 'Completed 3 projects.' },
-    { id: 'HARD_MODE', name: 'Hard Mode', icon: '🏆', description: 'Completed a "Hard" difficulty project.' },
+    { id: 'PROJECT_STARTER', name: 'Project Starter', icon: '🚀', unit: 'projects started',
+        measure: user => user.projects.filter(p => p.status !== 'Not Started').length,
+        tiers: [{ goal: 1, description: 'Began your first project.' }] },
+    { id: 'PROJECT_FINISHER', name: 'Project Finisher', icon: '✅', unit: 'projects completed',
+        measure: user => completedProjects(user).length,
+        tiers: [{ goal: 1, description: 'Completed your first project.' }] },
+    { id: 'TRIPLE_THREAT', name: 'Triple Threat', icon: '🎯', unit: 'projects completed',
+        measure: user => completedProjects(user).length,
+        tiers: [{ goal: 3, description: 'Completed 3 projects.' }] },
+    { id: 'HARD_MODE', name: 'Hard Mode', icon: '🏆', unit: '"Hard" projects completed',
+        measure: user => completedProjects(user).filter(p => p.difficulty === 'Hard').length,
+        tiers: [{ goal: 1, description: 'Completed a "Hard" difficulty project.' }] },
 
     // Roadmap Achievements
-    { id: 'FIRST_STEP', name: 'First Step', icon: '👟', description: 'Completed your first roadmap step.' },
-    { id: 'HALFWAY_THERE', name: 'Halfway There', icon: ' halfway:', description: 'Completed 50% of your roadmap.' },
-    { id: 'ROADMAP_COMPLETE', name: 'Journey\'s End', icon: '🗺️', description: 'Completed all steps in your learning roadmap.' },
+    { id: 'FIRST_STEP', name: 'First Step', icon: '👟', unit: 'roadmap steps completed',
+        measure: user => user.roadmap.filter(r => r.completed).length,
+        tiers: [{ goal: 1, description: 'Completed your first roadmap step.' }] },
+    { id: 'HALFWAY_THERE', name: 'Halfway There', icon: '🌗', unit: '% of your roadmap',
+        measure: roadmapPercent,
+        tiers: [{ goal: 50, description: 'Completed 50% of your roadmap.' }] },
+    { id: 'ROADMAP_COMPLETE', name: 'Journey\'s End', icon: '🗺️', unit: '% of your roadmap',
+        measure: roadmapPercent,
+        tiers: [{ goal: 100, description: 'Completed all steps in your learning roadmap.' }] },
 
     // Skill Achievements
-    { id: 'SKILL_COLLECTOR', name: 'Skill Collector', icon: '📚', description: 'Acquired 10 different skills.' },
-    { id: 'EXPERT_DEVELOPER', name: 'Expert', icon: '🌟', description: 'Achieved "Expert" proficiency in a skill.' },
-    { id: 'ADVANCED_PRACTITIONER', name: 'Advanced Practitioner', icon: '🧑‍🔬', description: 'Achieved "Advanced" proficiency in 5 skills.' },
+    { id: 'SKILL_COLLECTOR', name: 'Skill Collector', icon: '📚', unit: 'skills',
+        measure: user => user.skills.length,
+        tiers: [{ goal: 10, description: 'Acquired 10 different skills.' }] },
+    { id: 'EXPERT_DEVELOPER', name: 'Expert', icon: '🌟', unit: 'expert skills',
+        measure: user => user.skills.filter(s => s.proficiency === 'Expert').length,
+        tiers: [{ goal: 1, description: 'Achieved "Expert" proficiency in a skill.' }] },
+    { id: 'ADVANCED_PRACTITIONER', name: 'Advanced Practitioner', icon: '🧑‍🔬', unit: 'advanced skills',
+        measure: user => user.skills.filter(s => s.proficiency === 'Advanced').length,
+        tiers: [{ goal: 5, description: 'Achieved "Advanced" proficiency in 5 skills.' }] },
+
+    // Practice Achievements
+    { id: 'INTERVIEW_PRACTICE', name: 'Interview Ready', icon: '🎤', unit: 'interviews practised',
+        measure: user => count(user, 'interview_completed'),
+        tiers: tiers([1, 5, 15], goal => `Practised ${plural(goal, 'interview')} with the Interview Coach.`) },
+    { id: 'QUIZ_TAKER', name: 'Quiz Taker', icon: '📝', unit: 'quizzes taken',
+        measure: user => count(user, 'quiz_completed'),
+        tiers: tiers([1, 10, 25], goal => `Took ${goal === 1 ? 'your first quiz' : `${goal} quizzes`}.`) },
+    { id: 'QUIZ_ACE', name: 'Quiz Ace', icon: '🧠', unit: 'quizzes scored 90%+',
+        measure: user => count(user, 'quiz_completed', event => event.type === 'quiz_completed' && event.data.score >= 90),
+        tiers: tiers([1, 5, 10], goal => `Scored 90% or more on ${goal === 1 ? 'a quiz' : `${goal} quizzes`}.`) },
+    { id: 'VOICE_MENTEE', name: 'Good Listener', icon: '🎧', unit: 'voice sessions',
+        measure: user => count(user, 'voice_session_completed'),
+        tiers: tiers([1, 5, 15], goal => `Talked with the Voice Mentor ${goal === 1 ? 'for the first time' : `${goal} times`}.`) },
+    { id: 'CHATTERBOX', name: 'Curious Mind', icon: '💬', unit: 'chats saved',
+        measure: user => count(user, 'chat_saved'),
+        tiers: tiers([1, 10, 30], goal => `Saved ${plural(goal, 'chat')} with the mentor.`) },
+
+    // Job Achievements
+    { id: 'JOB_HUNTER', name: 'Job Hunter', icon: '🔎', unit: 'jobs tracked',
+        measure: user => count(user, 'job_tracked'),
+        tiers: tiers([1, 10, 25], goal => `Tracked ${plural(goal, 'job')}.`) },
+    { id: 'FOOT_IN_THE_DOOR', name: 'Foot in the Door', icon: '🚪', unit: 'jobs interviewing',
+        measure: user => jobsReaching(user, ['Interviewing', 'Offered']),
+        tiers: [{ goal: 1, description: 'Got an interview for a tracked job.' }] },
+    { id: 'OFFER_RECEIVED', name: 'Offer on the Table', icon: '🤝', unit: 'offers',
+        measure: user => jobsReaching(user, ['Offered']),
+        tiers: [{ goal: 1, description: 'Received a job offer.' }] },
 
     // Consistency Achievements
-    { id: 'STREAK_KEEPER', name: '7-Day Streak', icon: '🔥', description: 'Maintained a 7-day streak.' },
+    { id: 'STREAK_KEEPER', name: '7-Day Streak', icon: '🔥', unit: 'day streak',
+        measure: user => Math.max(user.streak, user.streakState.longest),
+        tiers: [{ goal: 7, description: 'Maintained a 7-day streak.' }] },
+    { id: 'STREAK_MASTER', name: 'Unstoppable', icon: '⚡', unit: 'day streak',
+        measure: user => Math.max(user.streak, user.streakState.longest),
+        tiers: tiers([14, 30, 100], goal => `Maintained a ${goal}-day streak.`) },
+
+    // Hidden Achievements
+    { id: 'PERFECT_SCORE', name: 'Flawless', icon: '💯', unit: 'perfect quizzes', hidden: true,
+        measure: user => count(user, 'quiz_completed', event => event.type === 'quiz_completed' && event.data.score === 100),
+        tiers: [{ goal: 1, description: 'Scored 100% on a quiz.' }] },
+    { id: 'NIGHT_OWL', name: 'Night Owl', icon: '🦉', unit: 'late-night sessions', hidden: true,
+        measure: user => user.activityLog.filter(event => STREAK_ACTIVITY.includes(event.type) && hourIn(event.occurredAt, user.streakState.timeZone) < 4).length,
+        tiers: [{ goal: 1, description: 'Practised between midnight and 4 a.m.' }] },
+    { id: 'COMEBACK', name: 'Comeback', icon: '🌱', unit: 'days away', hidden: true,
+        measure: longestBreak,
+        tiers: [{ goal: 14, description: 'Came back after two weeks or more away.' }] },
 ];
 
-export const checkAndAwardAchievements = (user: UserProfile): Achievement[] => {
-    const existingIds = new Set(user.achievements.map(a => a.id));
-    const potentialNewAchievements: Achievement[] = [];
+export const TIER_LABELS: Record<AchievementTier, string> = { bronze: 'Bronze', silver: 'Silver', gold: 'Gold' };
 
-    const addAchievement = (id: string) => {
-        if (!existingIds.has(id)) {
-            const achievement = ALL_ACHIEVEMENTS.find(a => a.id === id);
-            if (achievement) {
-                potentialNewAchievements.push(achievement);
-            }
-        }
-    };
+const achievementId = (definition: AchievementDefinition, tier?: AchievementTier) => (tier ? `${definition.id}:${tier}` : definition.id);
 
-    // --- Check Project Achievements ---
-    const completedProjects = user.projects.filter(p => p.status === 'Completed');
-    if (user.projects.some(p => p.status !== 'Not Started')) {
-        addAchievement('PROJECT_STARTER');
-    }
-    if (completedProjects.length >= 1) {
-        addAchievement('PROJECT_FINISHER');
-    }
-    if (completedProjects.length >= 3) {
-        addAchievement('TRIPLE_THREAT');
-    }
-    if (completedProjects.some(p => p.difficulty === 'Hard')) {
-        addAchievement('HARD_MODE');
-    }
-    
-    // --- Check Roadmap Achievements ---
-    const completedSteps = user.roadmap.filter(r => r.completed);
-    if (completedSteps.length >= 1) {
-        addAchievement('FIRST_STEP');
-    }
-    if (user.roadmap.length > 0 && (completedSteps.length / user.roadmap.length) >= 0.5) {
-        addAchievement('HALFWAY_THERE');
-    }
-    if (user.roadmap.length > 0 && user.roadmap.every(r => r.completed)) {
-        addAchievement('ROADMAP_COMPLETE');
-    }
+// The name an unlocked achievement is shown with, including its tier.
+export const achievementTitle = (achievement: Pick<Achievement, 'name' | 'tier'>): string =>
+    (achievement.tier ? `${achievement.name} (${TIER_LABELS[achievement.tier]})` : achievement.name);
 
-    // --- Check Skill Achievements ---
-    if (user.skills.length >= 10) {
-        addAchievement('SKILL_COLLECTOR');
-    }
-    if (user.skills.some(s => s.proficiency === 'Expert')) {
-        addAchievement('EXPERT_DEVELOPER');
-    }
-    if (user.skills.filter(s => s.proficiency === 'Advanced').length >= 5) {
-        addAchievement('ADVANCED_PRACTITIONER');
-    }
+export interface AchievementProgress {
+    definition: AchievementDefinition;
+    // The tiers unlocked so far, lowest first.
+    unlocked: Achievement[];
+    // The next tier to unlock; undefined once every tier is unlocked.
+    next?: AchievementDefinition['tiers'][number];
+    current: number;
+    // e.g. "3/5 advanced skills"
+    label: string;
+}
 
-    // --- Check Consistency Achievements ---
-    if (user.streak >= 7) {
-        addAchievement('STREAK_KEEPER');
-    }
-    
-    // Return a combined, unique list
-    const finalAchievements = [...user.achievements];
-    potentialNewAchievements.forEach(newAch => {
-        if (!finalAchievements.some(existing => existing.id === newAch.id)) {
-            finalAchievements.push(newAch);
-        }
+export const achievementProgress = (user: UserProfile): AchievementProgress[] => {
+    const have = new Map(user.achievements.map(a => [a.id, a]));
+    return ACHIEVEMENTS.map(definition => {
+        const current = definition.measure(user);
+        const unlocked = definition.tiers.map(t => have.get(achievementId(definition, t.tier))).filter((a): a is Achievement => !!a);
+        const next = definition.tiers.find(t => !have.has(achievementId(definition, t.tier)));
+        const goal = next?.goal ?? definition.tiers[definition.tiers.length - 1].goal;
+        return { definition, unlocked, next, current, label: `${Math.min(current, goal)}/${goal} ${definition.unit}` };
     });
+};
+
+// Unlocks every achievement tier the profile now qualifies for. Unlocked achievements are kept even if the
+// profile later stops qualifying, e.g. after a roadmap is regenerated.
+export const checkAndAwardAchievements = (user: UserProfile, now = new Date()): Achievement[] => {
+    const existingIds = new Set(user.achievements.map(a => a.id));
+    const newAchievements: Achievement[] = [];
+
+    for (const definition of ACHIEVEMENTS) {
+        const value = definition.measure(user);
+        for (const { tier, goal, description } of definition.tiers) {
+            const id = achievementId(definition, tier);
+            if (value >= goal && !existingIds.has(id)) {
+                newAchievements.push({ id, name: definition.name, description, icon: definition.icon, tier, unlockedAt: now.toISOString() });
+            }
+        }
+    }
 
-    return finalAchievements;
+    return newAchievements.length > 0 ? [...user.achievements, ...newAchievements] : user.achievements;
 };
@@ -0,0 +1,49 @@
+// Picks complete elements out of a JSON array while it is still streaming, so each one can be used as soon
+// as it closes instead of after the whole response. Text before the opening bracket (such as a markdown fence)
+// is ignored, and an element cut off by the end of the stream is dropped.
+export const parseJsonArrayStream = async function* (chunks: AsyncIterable<string>): AsyncGenerator<unknown> {
+    // 0 = before the array, 1 = directly inside it, deeper = inside an element.
+    let depth = 0;
+    let finished = false;
+    let inString = false;
+    let escaped = false;
+    let element = '';
+
+    for await (const chunk of chunks) {
+        for (const char of chunk) {
+            if (finished) break;
+            if (depth === 0) {
+                if (char === '[') depth = 1;
+                continue;
+            }
+            if (inString) {
+                element += char;
+                if (escaped) escaped = false;
+                else if (char === '\\') escaped = true;
+                else if (char === '"') inString = false;
+                continue;
+            }
+            if (char === '"') {
+                inString = true;
+                element += char;
+            } else if (char === '{' || char === '[') {
+                depth++;
+                element += char;
+            } else if (char === '}' || char === ']') {
+                depth--;
+                if (depth > 0) element += char;
+                if (depth <= 1) {
+                    // An object or array element just closed, or the outer array ended after a bare value.
+                    if (element.trim()) yield JSON.parse(element);
+                    element = '';
+                    finished = depth === 0;
+                }
+            } else if (char === ',' && depth === 1) {
+                if (element.trim()) yield JSON.parse(element);
+                element = '';
+            } else {
+                element += char;
+            }
+        }
+    }
+};
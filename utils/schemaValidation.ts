@@ -0,0 +1,51 @@
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+// Checks a parsed model response against the same Schema object that constrains the model,
+// returning a readable list of problems (an empty list means the value is valid).
+export const validateSchema = (value: unknown, schema: Schema, path = '$'): string[] => {
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [`${path} is missing`];
+    }
+
+    switch (schema.type) {
+        case Type.STRING:
+            if (typeof value !== 'string') return [`${path} should be a string but was ${describe(value)}`];
+            if (schema.enum && !schema.enum.includes(value)) return [`${path} should be one of ${schema.enum.join(', ')} but was "${value}"`];
+            return [];
+        case Type.NUMBER:
+            return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} should be a number but was ${describe(value)}`];
+        case Type.INTEGER:
+            return Number.isInteger(value) ? [] : [`${path} should be an integer but was ${describe(value)}`];
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? [] : [`${path} should be a boolean but was ${describe(value)}`];
+        case Type.ARRAY:
+            if (!Array.isArray(value)) return [`${path} should be an array but was ${describe(value)}`];
+            if (!schema.items) return [];
+            return value.flatMap((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`));
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) return [`${path} should be an object but was ${describe(value)}`];
+            const record = value as Record<string, unknown>;
+            const errors: string[] = [];
+            for (const key of schema.required || []) {
+                if (record[key] === undefined || record[key] === null) {
+                    errors.push(`${path}.${key} is missing`);
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                if (record[key] !== undefined && record[key] !== null) {
+                    errors.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+                }
+            }
+            return errors;
+        }
+        default:
+            return [];
+    }
+};
@@ -0,0 +1,61 @@
+// Helpers for text the user pastes in (resumes, job descriptions, profile summaries) before it is put into a prompt.
+
+export type PiiKind = 'email' | 'phone' | 'address';
+
+export interface RedactionResult {
+    text: string;
+    found: Record<PiiKind, number>;
+}
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}/g;
+const ADDRESS_PATTERN = /\b\d{1,5}\s+(?:[A-Za-z0-9.'-]+\s+){0,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy)\b\.?(?:,?\s*(?:Apt|Suite|Unit|#)\s*[\w-]+)?/gi;
+
+// Phone numbers have 9-15 digits; the bound keeps date ranges like "2019 - 2021" from matching.
+const isPhoneNumber = (match: string): boolean => {
+    const digits = match.replace(/\D/g, '').length;
+    return digits >= 9 && digits <= 15;
+};
+
+// Replaces emails, phone numbers and street addresses with placeholders and counts what was removed.
+export const redactPii = (text: string): RedactionResult => {
+    const found: Record<PiiKind, number> = { email: 0, phone: 0, address: 0 };
+    const redacted = text
+        .replace(EMAIL_PATTERN, () => {
+            found.email++;
+            return '[email removed]';
+        })
+        .replace(PHONE_PATTERN, (match) => {
+            if (!isPhoneNumber(match)) return match;
+            found.phone++;
+            return '[phone removed]';
+        })
+        .replace(ADDRESS_PATTERN, () => {
+            found.address++;
+            return '[address removed]';
+        });
+    return { text: redacted, found };
+};
+
+// The text that actually leaves the browser for a given redaction choice.
+export const prepareOutgoingText = (text: string, redact: boolean): string => redact ? redactPii(text).text : text;
+
+const INJECTION_PATTERNS: { label: string; pattern: RegExp }[] = [
+    { label: 'asks to ignore earlier instructions', pattern: /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|all|any|your)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules|directions)\b/i },
+    { label: 'tries to give the AI a new role', pattern: /\b(?:you are now|from now on,? you|pretend (?:to be|you are)|new instructions?:)/i },
+    { label: 'asks about the system prompt', pattern: /\b(?:system prompt|(?:reveal|print|repeat|show)\s+(?:your|the)\s+(?:instructions|prompt))\b/i },
+    { label: 'contains chat control markers', pattern: /<\|im_(?:start|end)\|>|\[\/?INST\]|^\s*(?:system|assistant)\s*:/im },
+    { label: 'dictates its own score', pattern: /\b(?:give|rate|score)\b[^.\n]{0,30}\b(?:100\s*(?:\/\s*100|%|out of 100)?|10\s*\/\s*10|perfect score|full marks)\b/i },
+    { label: 'tries to close the input delimiter', pattern: /<\/?untrusted_input/i },
+];
+
+// Returns a description of each instruction-injection pattern found in the text, or an empty list.
+export const findInjectionAttempts = (text: string): string[] =>
+    INJECTION_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ label }) => label);
+
+// Wraps pasted text in tags the prompt tells the model to treat as data. Tags already inside the text are
+// defused so it can't end the block early and continue as instructions.
+export const delimitUntrusted = (name: string, text: string): string => {
+    const defused = text.replace(/<(\/?)untrusted_input/gi, '‹$1untrusted_input');
+    return `<untrusted_input name="${name}">\n${defused}\n</untrusted_input>`;
+};
@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Hands out one AbortSignal per request. Starting a new request cancels the previous one, and everything
+// still running is cancelled when the component unmounts, so late responses never set state on it.
+export const useAbortController = () => {
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const abort = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+    }, []);
+
+    const start = useCallback((): AbortSignal => {
+        controllerRef.current?.abort();
+        controllerRef.current = new AbortController();
+        return controllerRef.current.signal;
+    }, []);
+
+    useEffect(() => abort, [abort]);
+
+    return { start, abort };
+};
@@ -4,15 +4,22 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const directGemini = env.AI_PROVIDER === 'gemini';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': { target: `http://localhost:${env.PROXY_PORT || 8787}`, ws: true },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The key is only inlined into the bundle when calling Gemini directly; the proxy keeps it server-side.
+        'process.env.API_KEY': JSON.stringify(directGemini ? env.GEMINI_API_KEY : undefined),
+        'process.env.GEMINI_API_KEY': JSON.stringify(directGemini ? env.GEMINI_API_KEY : undefined),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL)
       },
       resolve: {
         alias: {